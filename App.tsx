@@ -1,54 +1,117 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TRANSFORMATIONS } from './constants';
-import { editImage, generateVideo, generateImageFromText, generateImageEditsBatch, getFashionAdvice, generateLookbook } from './services/geminiService';
-import type { GeneratedContent, Transformation } from './types';
+import { editImage, startVideoJob, generateImageFromText, generateImageEditsBatch, generateImagesForPrompts, getFashionAdvice, suggestLookbookPrompts, generateLookbook, getModelName, getProviderId, type ScheduleOptions } from './services/aiService';
+import type { Catalogue, CustomPreset, FashionAdviceResult, FashionItem, GeneratedContent, GenerationMetadata, HistoryEntry, MoodboardSettings, OutputQuality, PromptSuggestion, Transformation, UsageSnapshot } from './types';
 import TransformationSelector from './components/TransformationSelector';
 import ResultDisplay from './components/ResultDisplay';
 import LoadingSpinner from './components/LoadingSpinner';
+import Login from './components/Login';
 import ErrorMessage from './components/ErrorMessage';
 import ImageEditorCanvas from './components/ImageEditorCanvas';
 import { dataUrlToFile, embedWatermark, loadImage, resizeImageToMatch, downloadImage, addVisibleWatermark } from './utils/fileUtils';
 import ImagePreviewModal from './components/ImagePreviewModal';
 import MultiImageUploader from './components/MultiImageUploader';
 import HistoryPanel from './components/HistoryPanel';
+import BatchProcessor from './components/BatchProcessor';
+import VideoJobsTray from './components/VideoJobsTray';
+import UsageMeter from './components/UsageMeter';
+import CatalogueAdmin from './components/CatalogueAdmin';
+import PresetEditor from './components/PresetEditor';
+import PromptVariablesForm from './components/PromptVariablesForm';
+import VietQrPreview from './components/VietQrPreview';
+import FashionAdvicePanel from './components/FashionAdvicePanel';
+import MoodboardInputs from './components/MoodboardInputs';
+import PromptSuggestionList from './components/PromptSuggestionList';
+import { isAbortError } from './services/apiErrors';
+import { fetchSession, logout, onSessionExpired, type AuthSession } from './services/authService';
 import { useTranslation } from './i18n/context';
 import LanguageSwitcher from './components/LanguageSwitcher';
 import ThemeSwitcher from './components/ThemeSwitcher';
 import MultiImageGridUploader from './components/MultiImageGridUploader';
+import { findTransformationByKey, isBatchable } from './utils/transformationUtils';
+import { fillPromptTemplate, getDefaultValues, validateVariables } from './utils/promptTemplate';
+import { createVietQrImage } from './utils/vietQr';
+import { QR_MAX_ATTEMPTS, verifyQrCode } from './utils/qrVerification';
+import { buildFashionAdvicePrompt, describeFashionItem } from './utils/fashionAdvice';
+import { buildMoodboardTilePrompts, composeMoodboard } from './utils/moodboard';
+import { buildLookbookPromptRequest } from './utils/lookbookPrompt';
+import { isLookbookAspectRatio, LOOKBOOK_ASPECT_RATIOS, type LookbookAspectRatio } from './utils/stylist';
+import { lookbookOutputOptions } from './utils/imageOutput';
+import { createHistoryArchive, readHistoryArchive } from './services/historyArchive';
+import { clearHistory, compareHistoryEntries, createHistoryEntry, importHistoryEntries, isQuotaError, loadAllHistoryEntries, loadFavoriteEntries, loadHistoryEntry, loadHistoryPage, saveHistoryEntry, setHistoryFavorite, type EvictedHistoryEntry, type HistoryCursor, type HistoryFilter } from './services/historyStore';
+import { claimUnownedRecords } from './services/db';
+import { createVideoJobManager, getVideoMaxWaitMs, type VideoJob, type VideoJobManager } from './services/videoJobs';
+import { fetchUsage, onUsageChange } from './services/usageService';
+import { catalogueToTransformations, fetchCatalogue } from './services/catalogueService';
+import { loadPresets, presetToTransformation, presetTranslations, savePresets } from './services/presetStore';
 
 type ActiveTool = 'mask' | 'none';
 
-const formatBankText = (text: string): string => {
-    return text
-      .toUpperCase()
-      .normalize("NFD")
-      .replace(/[\u0300-\u036f]/g, "")
-      .replace(/Đ/g, "D");
+const HISTORY_PAGE_SIZE = 12;
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+/**
+ * Describes a finished generation for its history entry.
+ * @param startedAt The `performance.now()` timestamp taken before the first API call.
+ */
+const buildMetadata = (
+    transformationKey: string,
+    modelKind: 'imageEdit' | 'textToImage' | 'video',
+    startedAt: number,
+    details: Pick<GenerationMetadata, 'prompt' | 'inputs'> & Partial<GenerationMetadata>
+): GenerationMetadata => ({
+    transformationKey,
+    provider: getProviderId(),
+    model: getModelName(modelKind),
+    durationMs: Math.round(performance.now() - startedAt),
+    ...details,
+});
+
+const EMPTY_MOODBOARD: MoodboardSettings = { title: '', keywords: '', colors: [], referenceUrls: [] };
+
+/**
+ * Puts effects in the order the user last dragged them into. Effects the saved order
+ * does not know yet (e.g. new in the catalogue) go at the end.
+ */
+const applySavedOrder = (available: Transformation[]): Transformation[] => {
+  try {
+    const savedOrder = localStorage.getItem('transformationOrder');
+    if (savedOrder) {
+      const orderedKeys = JSON.parse(savedOrder) as string[];
+      const transformationMap = new Map(available.map(t => [t.key, t]));
+      
+      const orderedTransformations = orderedKeys
+        .map(key => transformationMap.get(key))
+        .filter((t): t is Transformation => !!t);
+
+      const savedKeysSet = new Set(orderedKeys);
+      const newTransformations = available.filter(t => !savedKeysSet.has(t.key));
+      
+      return [...orderedTransformations, ...newTransformations];
+    }
+  } catch (e) {
+    console.error("Failed to load or parse transformation order from localStorage", e);
+  }
+  return available;
 };
 
-const App: React.FC = () => {
-  const { t } = useTranslation();
-  const [transformations, setTransformations] = useState<Transformation[]>(() => {
-    try {
-      const savedOrder = localStorage.getItem('transformationOrder');
-      if (savedOrder) {
-        const orderedKeys = JSON.parse(savedOrder) as string[];
-        const transformationMap = new Map(TRANSFORMATIONS.map(t => [t.key, t]));
-        
-        const orderedTransformations = orderedKeys
-          .map(key => transformationMap.get(key))
-          .filter((t): t is Transformation => !!t);
+// Custom Prompt and the user's presets, which are saved Custom Prompt setups.
+const isCustomPromptEffect = (transformation: Transformation): boolean => {
+  return transformation.key === 'customPrompt' || !!transformation.presetId;
+};
 
-        const savedKeysSet = new Set(orderedKeys);
-        const newTransformations = TRANSFORMATIONS.filter(t => !savedKeysSet.has(t.key));
-        
-        return [...orderedTransformations, ...newTransformations];
-      }
-    } catch (e) {
-      console.error("Failed to load or parse transformation order from localStorage", e);
-    }
-    return TRANSFORMATIONS;
-  });
+interface StudioProps {
+  username: string;
+  isAdmin: boolean;
+  onLogout: () => void;
+}
+
+const Studio: React.FC<StudioProps> = ({ username, isAdmin, onLogout }) => {
+  const { t, language, setExtraTranslations } = useTranslation();
+  const [transformations, setTransformations] = useState<Transformation[]>(() => applySavedOrder(TRANSFORMATIONS));
+  const [catalogue, setCatalogue] = useState<Catalogue | null>(null);
+  const [presets, setPresets] = useState<CustomPreset[]>(() => loadPresets(username));
+  const [editingPreset, setEditingPreset] = useState<{ preset: CustomPreset; isNew: boolean } | null>(null);
 
   const [selectedTransformation, setSelectedTransformation] = useState<Transformation | null>(null);
   const [primaryImageUrl, setPrimaryImageUrl] = useState<string | null>(null);
@@ -66,26 +129,47 @@ const App: React.FC = () => {
   const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
   const [imageAspectRatio, setImageAspectRatio] = useState<'1:1' | '16:9' | '9:16' | '4:3' | '3:4'>('1:1');
   const [activeTool, setActiveTool] = useState<ActiveTool>('none');
-  const [history, setHistory] = useState<GeneratedContent[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyHasMore, setHistoryHasMore] = useState<boolean>(false);
+  const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({});
+  const [isExportingHistory, setIsExportingHistory] = useState<boolean>(false);
+  const [isImportingHistory, setIsImportingHistory] = useState<boolean>(false);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
   const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [isCatalogueAdminOpen, setIsCatalogueAdminOpen] = useState<boolean>(false);
+  const [videoJobs, setVideoJobs] = useState<VideoJob[]>([]);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [isVideoJobStarted, setIsVideoJobStarted] = useState<boolean>(false);
   const [activeCategory, setActiveCategory] = useState<Transformation | null>(null);
   const [imageOptions, setImageOptions] = useState<string[] | null>(null);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [generatedLookbookImages, setGeneratedLookbookImages] = useState<string[]>([]);
+  const [isRerunPending, setIsRerunPending] = useState<boolean>(false);
+  const [editorKey, setEditorKey] = useState<number>(0);
   
-  // State for Chibi QR Code feature
-  const [bankName, setBankName] = useState<string>('');
-  const [accountName, setAccountName] = useState<string>('');
-  const [accountNumber, setAccountNumber] = useState<string>('');
-  const [branch, setBranch] = useState<string>('');
+  // Values of the selected effect's prompt variables, by name
+  const [promptVariableValues, setPromptVariableValues] = useState<Record<string, string>>({});
 
   // State for Lookbook Creator feature
   const [lookbookMode, setLookbookMode] = useState<'moodboard' | 'lookbook'>('lookbook');
   const [askAiPrompt, setAskAiPrompt] = useState<string>('');
   const [lookbookDescription, setLookbookDescription] = useState<string>('');
   const [numImages, setNumImages] = useState<1 | 2 | 3 | 4>(4);
-  const [lookbookAspectRatio, setLookbookAspectRatio] = useState<'3:4' | '1:1' | '16:9'>('3:4');
-  const [outputQuality, setOutputQuality] = useState<'standard' | 'high' | 'ultra'>('ultra');
+  const [lookbookAspectRatio, setLookbookAspectRatio] = useState<LookbookAspectRatio>('3:4');
+  // Anything above standard is reached by upscaling in the browser, which makes large files, so it is opt-in.
+  const [outputQuality, setOutputQuality] = useState<OutputQuality>('standard');
+  const [moodboard, setMoodboard] = useState<MoodboardSettings>(EMPTY_MOODBOARD);
+  // The last answer to "Suggest Outfit".
+  const [fashionAdvice, setFashionAdvice] = useState<FashionAdviceResult | null>(null);
+  const [isAdvising, setIsAdvising] = useState<boolean>(false);
+  const [adviceError, setAdviceError] = useState<string | null>(null);
+  // The last answer to "Suggest Prompt".
+  const [promptSuggestions, setPromptSuggestions] = useState<PromptSuggestion[]>([]);
+  const [isSuggestingPrompt, setIsSuggestingPrompt] = useState<boolean>(false);
+  const [promptSuggestionError, setPromptSuggestionError] = useState<string | null>(null);
   
   useEffect(() => {
     try {
@@ -95,20 +179,192 @@ const App: React.FC = () => {
       console.error("Failed to save transformation order to localStorage", e);
     }
   }, [transformations]);
+
+  useEffect(() => {
+    savePresets(username, presets);
+    setExtraTranslations('presets', presetTranslations(presets));
+  }, [username, presets, setExtraTranslations]);
+
+  const presetTransformations = useMemo(() => presets.map(presetToTransformation), [presets]);
+  // Every effect that history entries and video jobs can refer to.
+  const allTransformations = useMemo(() => [...presetTransformations, ...transformations], [presetTransformations, transformations]);
   
-  // Cleanup blob URLs on unmount or when dependencies change
+  // Every loaded history entry with a video holds an object URL for it. Video results are shared
+  // between `history` and `generatedContent`, so a URL is revoked once neither uses it any
+  // more (the entry was replaced by a reload, evicted or cleared), and the rest on unmount.
+  const videoUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const inUse = new Set([...history.map(item => item.videoUrl), generatedContent?.videoUrl].filter((url): url is string => !!url));
+    videoUrlsRef.current.forEach(url => {
+        if (!inUse.has(url)) {
+            URL.revokeObjectURL(url);
+            videoUrlsRef.current.delete(url);
+        }
+    });
+    inUse.forEach(url => videoUrlsRef.current.add(url));
+  }, [history, generatedContent]);
   useEffect(() => {
+    const videoUrls = videoUrlsRef.current;
     return () => {
-        history.forEach(item => {
-            if (item.videoUrl) {
-                URL.revokeObjectURL(item.videoUrl);
-            }
+        videoUrls.forEach(url => URL.revokeObjectURL(url));
+        videoUrls.clear();
+    };
+  }, []);
+
+  /**
+   * Tells the user which entries were evicted to make room, by effect and date.
+   */
+  const describeEvictedEntries = useCallback((evicted: EvictedHistoryEntry[]): string => {
+    const locale = language === 'vi' ? 'vi-VN' : 'en-US';
+    const names = evicted.map(item => {
+      const transformation = item.transformationKey ? findTransformationByKey(allTransformations, item.transformationKey) : null;
+      const name = transformation ? t(transformation.titleKey) : item.transformationKey ?? t('history.unknownEffect');
+      return `${name} (${new Date(item.createdAt).toLocaleString(locale)})`;
+    });
+    return `${t('history.evicted')}: ${names.join(', ')}`;
+  }, [allTransformations, language, t]);
+
+  // Entries evicted to make room for a new one are dropped from the list, and the user is told.
+  const handleHistoryEvicted = useCallback((evicted: EvictedHistoryEntry[]) => {
+    if (evicted.length === 0) return;
+    const ids = new Set(evicted.map(item => item.id));
+    setHistory(prev => prev.filter(entry => !ids.has(entry.id)));
+    setHistoryNotice(describeEvictedEntries(evicted));
+  }, [describeEvictedEntries]);
+
+  // The video job manager is created once, so it reaches the current handler through a ref.
+  const handleHistoryEvictedRef = useRef(handleHistoryEvicted);
+  handleHistoryEvictedRef.current = handleHistoryEvicted;
+
+  const addToHistory = useCallback((content: GeneratedContent, meta: GenerationMetadata, videoBlob?: Blob) => {
+    const entry = createHistoryEntry({ ...content, meta });
+    setHistory(prev => [entry, ...prev]);
+    saveHistoryEntry(username, entry, videoBlob).then(handleHistoryEvicted, err => {
+        console.error("Failed to save history entry", err);
+        setHistoryError(t(isQuotaError(err) ? 'history.error.quota' : 'history.error.save'));
+    });
+  }, [username, t, handleHistoryEvicted]);
+
+  // History and video jobs saved before they were kept per user go to whoever signs in first.
+  const recordsClaimedRef = useRef<Promise<void> | null>(null);
+  const whenRecordsClaimed = useCallback((): Promise<void> => {
+    recordsClaimedRef.current ??= claimUnownedRecords(username).catch(err => console.error("Failed to claim saved history", err));
+    return recordsClaimedRef.current;
+  }, [username]);
+
+  // Responses to superseded requests (e.g. the filter changed meanwhile) are dropped.
+  const historyRequestRef = useRef(0);
+  // The running generation, so it can be cancelled and its late results ignored.
+  const generationRef = useRef<AbortController | null>(null);
+  // The running "Suggest Outfit" request, which is separate from generations.
+  const adviceRequestRef = useRef<AbortController | null>(null);
+  // The running "Suggest Prompt" request.
+  const promptSuggestionRequestRef = useRef<AbortController | null>(null);
+  const videoJobManagerRef = useRef<VideoJobManager | null>(null);
+
+  // Video jobs outlive the generation that started them: they are polled in the
+  // background, resumed after a reload, and saved to history when they finish.
+  useEffect(() => {
+    const manager = createVideoJobManager({
+      username,
+      maxWaitMs: getVideoMaxWaitMs(),
+      pollIntervalMs: VIDEO_POLL_INTERVAL_MS,
+      onChange: setVideoJobs,
+      onFinished: async (job, videoBlob) => {
+        const entry = createHistoryEntry({
+          imageUrl: null,
+          text: null,
+          originalImageUrl: job.originalImageUrl,
+          meta: job.meta,
         });
-        if (generatedContent?.videoUrl) {
-            URL.revokeObjectURL(generatedContent.videoUrl);
-        }
+        const evicted = await saveHistoryEntry(username, entry, videoBlob);
+        // The URL is only made once the entry is saved, so a failed save leaves none behind.
+        setHistory(prev => [{ ...entry, videoUrl: URL.createObjectURL(videoBlob) }, ...prev]);
+        handleHistoryEvictedRef.current(evicted);
+        return entry.id;
+      },
+    });
+    videoJobManagerRef.current = manager;
+    whenRecordsClaimed()
+      .then(() => manager.resume())
+      .catch(err => console.error("Failed to load video jobs", err));
+    return () => {
+      manager.dispose();
+      videoJobManagerRef.current = null;
     };
-  }, [history, generatedContent]);
+  }, [username, whenRecordsClaimed]);
+
+  const applyCatalogue = useCallback((saved: Catalogue) => {
+    const fromCatalogue = catalogueToTransformations(saved);
+    setCatalogue(saved);
+    setExtraTranslations('catalogue', fromCatalogue.translations);
+    setTransformations(applySavedOrder(fromCatalogue.transformations));
+  }, [setExtraTranslations]);
+
+  // Until an admin saves a catalogue, the built-in effects are used.
+  useEffect(() => {
+    fetchCatalogue()
+      .then(saved => saved && applyCatalogue(saved))
+      .catch(err => console.error("Failed to load the effects catalogue", err));
+  }, [applyCatalogue]);
+
+  // The proxy reports usage with every metered call; load it once for the initial meter.
+  useEffect(() => {
+    const unsubscribe = onUsageChange(setUsage);
+    fetchUsage().catch(err => console.error("Failed to load usage", err));
+    return unsubscribe;
+  }, []);
+
+  /**
+   * Loads history matching a filter. The first page (`before` is null) replaces the
+   * list and also brings in every matching favourite; later pages are appended.
+   */
+  const loadHistory = useCallback(async (before: HistoryCursor | null, filter: HistoryFilter) => {
+    const requestId = ++historyRequestRef.current;
+    setIsHistoryLoading(true);
+    setHistoryError(null);
+    try {
+        await whenRecordsClaimed();
+        const [page, favorites] = await Promise.all([
+            loadHistoryPage(username, before, HISTORY_PAGE_SIZE, filter),
+            before === null ? loadFavoriteEntries(username, filter) : Promise.resolve([]),
+        ]);
+        const loaded = [...favorites, ...page.entries];
+        if (requestId !== historyRequestRef.current) {
+            loaded.forEach(item => item.videoUrl && URL.revokeObjectURL(item.videoUrl));
+            return;
+        }
+        if (before === null) {
+            setHistory(loaded.sort(compareHistoryEntries));
+        } else {
+            setHistory(prev => {
+                // Entries created in this session may already be in state.
+                const knownIds = new Set(prev.map(item => item.id));
+                const newEntries = loaded.filter(item => !knownIds.has(item.id));
+                loaded.forEach(item => {
+                    if (knownIds.has(item.id) && item.videoUrl) URL.revokeObjectURL(item.videoUrl);
+                });
+                return [...prev, ...newEntries].sort(compareHistoryEntries);
+            });
+        }
+        setHistoryHasMore(page.hasMore);
+    } catch (err) {
+        if (requestId !== historyRequestRef.current) return;
+        console.error("Failed to load history", err);
+        setHistoryError(t('history.error.load'));
+    } finally {
+        if (requestId === historyRequestRef.current) setIsHistoryLoading(false);
+    }
+  }, [username, whenRecordsClaimed, t]);
+
+  // History is loaded lazily when the panel is open, and reloaded whenever the filter changes.
+  const loadedHistoryFilterRef = useRef<HistoryFilter | null>(null);
+  useEffect(() => {
+    if (isHistoryPanelOpen && loadedHistoryFilterRef.current !== historyFilter) {
+        loadedHistoryFilterRef.current = historyFilter;
+        loadHistory(null, historyFilter);
+    }
+  }, [isHistoryPanelOpen, historyFilter, loadHistory]);
 
   const handleSelectTransformation = (transformation: Transformation) => {
     setSelectedTransformation(transformation);
@@ -120,6 +376,12 @@ const App: React.FC = () => {
     if (transformation.prompt !== 'CUSTOM') {
       setCustomPrompt('');
     }
+    setPromptVariableValues(getDefaultValues(transformation.variables ?? []));
+    const preset = transformation.presetId ? presets.find(item => item.id === transformation.presetId) : null;
+    if (preset) {
+      setCustomPrompt(preset.prompt);
+      setImageAspectRatio(preset.aspectRatio);
+    }
     // If switching to a multi-image effect and a primary image exists from a previous step,
     // automatically use it as the first image in the uploader.
     if (transformation.maxImages && primaryImageUrl && multiImageUrls.length === 0) {
@@ -127,6 +389,43 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSaveAsPreset = () => {
+    const current = selectedTransformation?.presetId ? presets.find(item => item.id === selectedTransformation.presetId) : null;
+    const now = Date.now();
+    setEditingPreset({
+      isNew: true,
+      preset: {
+        id: crypto.randomUUID(),
+        title: '',
+        emoji: current?.emoji ?? '⭐',
+        prompt: customPrompt,
+        secondaryImageRole: current?.secondaryImageRole ?? (secondaryImageUrl ? t('transformations.effects.customPrompt.uploader2Title') : undefined),
+        aspectRatio: imageAspectRatio,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+  };
+
+  const handleEditPreset = (presetId: string) => {
+    const preset = presets.find(item => item.id === presetId);
+    if (preset) setEditingPreset({ preset, isNew: false });
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    if (!window.confirm(t('presets.deleteConfirm'))) return;
+    setPresets(prev => prev.filter(item => item.id !== presetId));
+    if (selectedTransformation?.presetId === presetId) setSelectedTransformation(null);
+  };
+
+  const handleSavePreset = (preset: CustomPreset) => {
+    setPresets(prev => prev.some(item => item.id === preset.id)
+      ? prev.map(item => item.id === preset.id ? preset : item)
+      : [...prev, preset]);
+    setEditingPreset(null);
+    if (selectedTransformation?.presetId === preset.id) setSelectedTransformation(presetToTransformation(preset));
+  };
+
   const handlePrimaryImageSelect = useCallback((file: File, dataUrl: string) => {
     setPrimaryFile(file);
     setPrimaryImageUrl(dataUrl);
@@ -164,49 +463,105 @@ const App: React.FC = () => {
     setSecondaryFile(null);
   };
   
+  /**
+   * Starts a new cancellable generation, aborting the previous one if it is still running.
+   * @returns The controller whose signal the generation must pass to every request.
+   */
+  const beginGeneration = useCallback((): AbortController => {
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setIsLoading(true);
+    setIsVideoJobStarted(false);
+    return controller;
+  }, []);
+
+  /**
+   * Clears the loading state, unless a newer generation has started since (or this one was cancelled).
+   */
+  const finishGeneration = useCallback((controller: AbortController) => {
+    if (generationRef.current !== controller) return;
+    generationRef.current = null;
+    setIsLoading(false);
+    setLoadingMessage('');
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setIsLoading(false);
+    setLoadingMessage('');
+  }, []);
+
+  /**
+   * Builds request options that carry the generation's abort signal and mirror the
+   * scheduler's progress in the loading message.
+   * @param signal The signal of the current generation.
+   * @param runningMessage Shown once the request is actually sent; omit to leave the message
+   * to the request's own progress reporting (e.g. video polling).
+   */
+  const withScheduleProgress = useCallback((signal: AbortSignal, runningMessage?: string): ScheduleOptions => ({
+    signal,
+    onProgress: progress => {
+      if (progress.state === 'queued') {
+        setLoadingMessage(`${t('app.loading.queued')}: ${progress.position}`);
+      } else if (progress.state === 'retrying') {
+        setLoadingMessage(`${t('app.loading.retrying')} ${Math.ceil(progress.delayMs / 1000)}s`);
+      } else if (runningMessage !== undefined) {
+        setLoadingMessage(runningMessage);
+      }
+    },
+  }), [t]);
+
   const handleGenerateDynamicVideo = useCallback(async () => {
     if (!selectedTransformation || !selectedTransformation.videoPrompt || !selectedOption) {
       setError(t('app.error.selectOneToAnimate'));
       return;
     }
 
-    setIsLoading(true);
+    const controller = beginGeneration();
+    const { signal } = controller;
     setError(null);
     setGeneratedContent(null);
     setImageOptions(null);
+    const startedAt = performance.now();
 
     try {
         const mimeType = selectedOption.split(';')[0].split(':')[1] ?? 'image/png';
         const base64 = selectedOption.split(',')[1];
         const imagePayload = { base64, mimeType };
 
-        const videoDownloadUrl = await generateVideo(
+        setLoadingMessage(t('app.loading.videoInit'));
+        const job = await startVideoJob(
             selectedTransformation.videoPrompt,
             imagePayload,
             '9:16', // Changed from '1:1' as it's not supported for video
-            (message) => setLoadingMessage(message)
+            withScheduleProgress(signal, t('app.loading.videoInit'))
         );
 
-        setLoadingMessage(t('app.loading.videoFetching'));
-        const response = await fetch(videoDownloadUrl);
-        if (!response.ok) throw new Error(`Failed to download video file. Status: ${response.statusText}`);
-        
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-
-        const result: GeneratedContent = { imageUrl: null, text: null, videoUrl: objectUrl, originalImageUrl: selectedOption };
-        setGeneratedContent(result);
-        setHistory(prev => [result, ...prev]);
+        // The video renders in the background from here on; the jobs tray follows it.
+        signal.throwIfAborted();
+        videoJobManagerRef.current?.add({
+            ...job,
+            originalImageUrl: selectedOption,
+            meta: buildMetadata(selectedTransformation.key, 'video', startedAt, {
+                prompt: selectedTransformation.videoPrompt,
+                inputs: { primaryImageUrl: selectedOption },
+                aspectRatio: '9:16',
+            }),
+        });
+        setIsVideoJobStarted(true);
 
     } catch (err) {
+        // A cancelled generation ends silently; its result is never shown or saved.
+        if (signal.aborted || isAbortError(err)) return;
         console.error(err);
         setError(err instanceof Error ? err.message : t('app.error.unknown'));
     } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+        finishGeneration(controller);
         setSelectedOption(null);
     }
-  }, [selectedTransformation, selectedOption, t]);
+  }, [selectedTransformation, selectedOption, t, beginGeneration, finishGeneration, withScheduleProgress]);
 
 
   const handleGenerateVideo = useCallback(async () => {
@@ -218,9 +573,11 @@ const App: React.FC = () => {
         return;
     }
 
-    setIsLoading(true);
+    const controller = beginGeneration();
+    const { signal } = controller;
     setError(null);
     setGeneratedContent(null);
+    const startedAt = performance.now();
 
     try {
         let imagePayload = null;
@@ -230,39 +587,36 @@ const App: React.FC = () => {
             imagePayload = { base64: primaryBase64, mimeType: primaryMimeType };
         }
 
-        const videoDownloadUrl = await generateVideo(
+        setLoadingMessage(t('app.loading.videoInit'));
+        const job = await startVideoJob(
             promptToUse,
             imagePayload,
             aspectRatio,
-            (message) => setLoadingMessage(message) // Progress callback
+            withScheduleProgress(signal, t('app.loading.videoInit'))
         );
 
-        setLoadingMessage(t('app.loading.videoFetching'));
-        const response = await fetch(videoDownloadUrl);
-        if (!response.ok) {
-            throw new Error(`Failed to download video file. Status: ${response.statusText}`);
-        }
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-
-        const result: GeneratedContent = {
-            imageUrl: null,
-            text: null,
-            videoUrl: objectUrl,
+        signal.throwIfAborted();
+        videoJobManagerRef.current?.add({
+            ...job,
             originalImageUrl: primaryImageUrl,
-        };
-
-        setGeneratedContent(result);
-        setHistory(prev => [result, ...prev]);
+            meta: buildMetadata(selectedTransformation.key, 'video', startedAt, {
+                prompt: promptToUse,
+                customPrompt: promptToUse,
+                inputs: { primaryImageUrl },
+                aspectRatio,
+            }),
+        });
+        setIsVideoJobStarted(true);
 
     } catch (err) {
+        // A cancelled generation ends silently; its result is never shown or saved.
+        if (signal.aborted || isAbortError(err)) return;
         console.error(err);
         setError(err instanceof Error ? err.message : t('app.error.unknown'));
     } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+        finishGeneration(controller);
     }
-  }, [selectedTransformation, customPrompt, primaryImageUrl, aspectRatio, t]);
+  }, [selectedTransformation, customPrompt, primaryImageUrl, aspectRatio, t, beginGeneration, finishGeneration, withScheduleProgress]);
   
   const applyWatermarks = useCallback(async (imageUrl: string | null) => {
     if (!imageUrl) return null;
@@ -277,20 +631,58 @@ const App: React.FC = () => {
   }, []);
 
   const handleGenerateImage = useCallback(async () => {
-    const promptToUse = selectedTransformation?.prompt === 'CUSTOM' ? customPrompt : selectedTransformation?.prompt;
+    const basePrompt = selectedTransformation?.prompt === 'CUSTOM' ? customPrompt : selectedTransformation?.prompt;
 
     if (!selectedTransformation) {
         setError(t('app.error.uploadAndSelect'));
         return;
     }
 
-    setIsLoading(true);
+    const variables = selectedTransformation.variables ?? [];
+    if (validateVariables(variables, promptVariableValues).length > 0) {
+        setError(t('app.error.fillVariables'));
+        return;
+    }
+    const promptToUse = basePrompt && variables.length > 0 ? fillPromptTemplate(basePrompt, variables, promptVariableValues) : basePrompt;
+    // The values are kept with the result, so it can be restored and re-run.
+    const variablesMeta = variables.length > 0 ? { promptVariables: promptVariableValues } : {};
+
+    const controller = beginGeneration();
+    const { signal } = controller;
     setError(null);
     setGeneratedContent(null);
     setGeneratedLookbookImages([]);
     setLoadingMessage('');
+    const startedAt = performance.now();
 
     try {
+        if (selectedTransformation.key === 'outfitStylist' && lookbookMode === 'moodboard') {
+            if (moodboard.referenceUrls.length === 0) {
+                setError(t('app.error.uploadOne'));
+                setIsLoading(false);
+                return;
+            }
+            const imageParts = moodboard.referenceUrls.map(url => ({
+                base64: url.split(',')[1],
+                mimeType: url.split(';')[0].split(':')[1] ?? 'image/png'
+            }));
+            const prompts = buildMoodboardTilePrompts(moodboard, numImages);
+            setLoadingMessage(t('app.loading.moodboardTiles'));
+            const tiles = await generateImagesForPrompts(prompts, imageParts, withScheduleProgress(signal, t('app.loading.moodboardTiles')));
+            setLoadingMessage(t('app.loading.moodboardCompose'));
+            const imageUrl = await applyWatermarks(await composeMoodboard(moodboard, tiles, lookbookAspectRatio));
+            signal.throwIfAborted();
+            const result: GeneratedContent = { imageUrl, text: null };
+            setGeneratedContent(result);
+            addToHistory(result, buildMetadata(selectedTransformation.key, 'imageEdit', startedAt, {
+                prompt: prompts.join('\n\n'),
+                moodboard: { title: moodboard.title, keywords: moodboard.keywords, colors: moodboard.colors, tileCount: numImages },
+                inputs: { multiImageUrls: moodboard.referenceUrls },
+                aspectRatio: lookbookAspectRatio,
+            }));
+            return;
+        }
+
         if (selectedTransformation.key === 'outfitStylist') {
             if (!primaryImageUrl) {
                 setError(t('app.error.uploadAndSelect'));
@@ -308,49 +700,20 @@ const App: React.FC = () => {
             };
             
             // Construct a more detailed prompt for lookbook generation
-            let finalPrompt = `Create a fashion lookbook image based on the following description: "${lookbookDescription}". The main character should resemble the person in the provided image.`;
-            if (outputQuality === 'high') finalPrompt += ` Generate a high-resolution, 4K image.`;
-            if (outputQuality === 'ultra') finalPrompt += ` Generate an ultra-realistic, 8K, highly detailed image.`;
+            const finalPrompt = `Create a fashion lookbook image based on the following description: "${lookbookDescription}". The main character should resemble the person in the provided image.`;
 
             setLoadingMessage(t('app.loading.default'));
-            const results = await generateLookbook(finalPrompt, imagePart, numImages);
+            const results = await generateLookbook(finalPrompt, imagePart, numImages, {
+                ...withScheduleProgress(signal, t('app.loading.default')),
+                output: lookbookOutputOptions(lookbookAspectRatio, outputQuality),
+            });
             const watermarkedResults = await Promise.all(results.map(url => applyWatermarks(url)));
+            signal.throwIfAborted();
             setGeneratedLookbookImages(watermarkedResults.filter((url): url is string => !!url));
             // Note: Not adding lookbook grids to history for now to keep history simple.
             return;
         }
 
-        if (selectedTransformation.key === 'chibiQrCode') {
-            if (!primaryImageUrl || !secondaryImageUrl || !bankName.trim() || !accountName.trim() || !accountNumber.trim() || !branch.trim()) {
-                setError(t('app.error.fillAllFields'));
-                setIsLoading(false);
-                return;
-            }
-            
-            const formattedBankName = formatBankText(bankName);
-            const formattedAccountName = formatBankText(accountName);
-            const formattedBranch = formatBankText(branch);
-
-            let prompt = selectedTransformation.prompt!;
-            prompt = prompt.replace('{{bankName}}', formattedBankName)
-                           .replace('{{accountName}}', formattedAccountName)
-                           .replace('{{accountNumber}}', accountNumber)
-                           .replace('{{branch}}', formattedBranch);
-
-            const imageParts = [
-                { base64: primaryImageUrl.split(',')[1], mimeType: primaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png' },
-                { base64: secondaryImageUrl.split(',')[1], mimeType: secondaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png' }
-            ];
-            
-            setLoadingMessage(t('app.loading.default'));
-            const result = await editImage(prompt, imageParts, null);
-            result.imageUrl = await applyWatermarks(result.imageUrl);
-            const finalResult = { ...result, originalImageUrl: primaryImageUrl };
-            setGeneratedContent(finalResult);
-            setHistory(prev => [finalResult, ...prev]);
-            return;
-        }
-
         if (selectedTransformation.isMultiStepVideo) {
              if (multiImageUrls.length === 0) {
                 setError(t('app.error.uploadOne'));
@@ -362,19 +725,27 @@ const App: React.FC = () => {
                 base64: url.split(',')[1],
                 mimeType: url.split(';')[0].split(':')[1] ?? 'image/png'
             }));
-            const results = await generateImageEditsBatch(promptToUse, imageParts);
+            const results = await generateImageEditsBatch(promptToUse, imageParts, withScheduleProgress(signal, t('app.loading.generatingOptions')));
             const watermarkedResults = await Promise.all(results.map(url => applyWatermarks(url)));
+            signal.throwIfAborted();
             setImageOptions(watermarkedResults.filter((url): url is string => !!url));
             setSelectedOption(null);
             return;
         }
 
         // Text-to-image for custom prompt when no images are provided
-        if (selectedTransformation.key === 'customPrompt' && !primaryImageUrl) {
-            const result = await generateImageFromText(promptToUse, imageAspectRatio);
+        if (isCustomPromptEffect(selectedTransformation) && !primaryImageUrl) {
+            const result = await generateImageFromText(promptToUse, imageAspectRatio, withScheduleProgress(signal, t('app.loading.default')));
             result.imageUrl = await applyWatermarks(result.imageUrl);
+            signal.throwIfAborted();
             setGeneratedContent(result);
-            setHistory(prev => [result, ...prev]);
+            addToHistory(result, buildMetadata(selectedTransformation.key, 'textToImage', startedAt, {
+                prompt: promptToUse,
+                ...variablesMeta,
+                customPrompt,
+                inputs: {},
+                aspectRatio: imageAspectRatio,
+            }));
             return; 
         }
 
@@ -390,11 +761,16 @@ const App: React.FC = () => {
                 base64: url.split(',')[1],
                 mimeType: url.split(';')[0].split(':')[1] ?? 'image/png'
             }));
-            const result = await editImage(promptToUse, imageParts, null);
+            const result = await editImage(promptToUse, imageParts, null, withScheduleProgress(signal, t('app.loading.default')));
             result.imageUrl = await applyWatermarks(result.imageUrl);
             const finalResult = { ...result, originalImageUrl: multiImageUrls[0] };
+            signal.throwIfAborted();
             setGeneratedContent(finalResult);
-            setHistory(prev => [finalResult, ...prev]);
+            addToHistory(finalResult, buildMetadata(selectedTransformation.key, 'imageEdit', startedAt, {
+                prompt: promptToUse,
+                ...variablesMeta,
+                inputs: { multiImageUrls },
+            }));
 
         } else if (selectedTransformation.isTwoStep) {
             if (!primaryImageUrl || !secondaryImageUrl) {
@@ -404,7 +780,7 @@ const App: React.FC = () => {
             }
             setLoadingMessage(t('app.loading.step1'));
             const primaryPart = [{ base64: primaryImageUrl.split(',')[1], mimeType: primaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png' }];
-            const stepOneResult = await editImage(promptToUse, primaryPart, null);
+            const stepOneResult = await editImage(promptToUse, primaryPart, null, withScheduleProgress(signal, t('app.loading.step1')));
 
             if (!stepOneResult.imageUrl) throw new Error("Step 1 (line art) failed to generate an image.");
             
@@ -422,13 +798,19 @@ const App: React.FC = () => {
                 { base64: resizedSecondaryImageUrl.split(',')[1], mimeType: resizedSecondaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png' }
             ];
             
-            const stepTwoResult = await editImage(selectedTransformation.stepTwoPrompt!, stepTwoParts, null);
+            const stepTwoResult = await editImage(selectedTransformation.stepTwoPrompt!, stepTwoParts, null, withScheduleProgress(signal, t('app.loading.step2')));
             
             stepTwoResult.imageUrl = await applyWatermarks(stepTwoResult.imageUrl);
 
             const finalResult = { ...stepTwoResult, secondaryImageUrl: stepOneResult.imageUrl, originalImageUrl: primaryImageUrl };
+            signal.throwIfAborted();
             setGeneratedContent(finalResult);
-            setHistory(prev => [finalResult, ...prev]);
+            addToHistory(finalResult, buildMetadata(selectedTransformation.key, 'imageEdit', startedAt, {
+                prompt: promptToUse,
+                ...variablesMeta,
+                stepTwoPrompt: selectedTransformation.stepTwoPrompt,
+                inputs: { primaryImageUrl, secondaryImageUrl },
+            }));
 
         } else {
              if (!primaryImageUrl) {
@@ -446,31 +828,97 @@ const App: React.FC = () => {
                 base64: primaryImageUrl.split(',')[1], 
                 mimeType: primaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png'
             }];
-            if (selectedTransformation.isMultiImage && secondaryImageUrl) {
+            // A generated VietQR code takes the place of an uploaded second image.
+            const secondaryUrl = selectedTransformation.usesVietQr
+                ? await createVietQrImage(promptVariableValues)
+                : selectedTransformation.isMultiImage ? secondaryImageUrl : null;
+            if (secondaryUrl) {
                 imageParts.push({
-                    base64: secondaryImageUrl.split(',')[1],
-                    mimeType: secondaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png'
+                    base64: secondaryUrl.split(',')[1],
+                    mimeType: secondaryUrl.split(';')[0].split(':')[1] ?? 'image/png'
                 });
             }
 
-            setLoadingMessage(t('app.loading.default'));
-            const result = await editImage(promptToUse, imageParts, maskBase64);
+            const runEdit = async (message: string): Promise<GeneratedContent> => {
+                setLoadingMessage(message);
+                const edited = await editImage(promptToUse, imageParts, maskBase64, withScheduleProgress(signal, message));
+                edited.imageUrl = await applyWatermarks(edited.imageUrl);
+                return edited;
+            };
 
-            result.imageUrl = await applyWatermarks(result.imageUrl);
+            let result = await runEdit(t('app.loading.default'));
+            if (selectedTransformation.usesVietQr && secondaryUrl && result.imageUrl) {
+                // A payment QR code that scans wrongly is worse than none, so the painted
+                // code is checked and the edit retried a few times if it does not match.
+                result.qrCheck = await verifyQrCode(secondaryUrl, result.imageUrl);
+                for (let attempt = 2; result.qrCheck !== 'match' && attempt <= QR_MAX_ATTEMPTS; attempt++) {
+                    signal.throwIfAborted();
+                    let retry: GeneratedContent;
+                    try {
+                        retry = await runEdit(`${t('app.loading.qrRetry')} (${attempt}/${QR_MAX_ATTEMPTS})`);
+                    } catch (err) {
+                        // Keep the result we have (with its warning) when a retry fails, e.g. over quota.
+                        if (signal.aborted || isAbortError(err)) throw err;
+                        console.error("QR retry failed", err);
+                        break;
+                    }
+                    if (!retry.imageUrl) break;
+                    retry.qrCheck = await verifyQrCode(secondaryUrl, retry.imageUrl);
+                    result = retry;
+                }
+            }
             const finalResult = { ...result, originalImageUrl: primaryImageUrl };
 
+            signal.throwIfAborted();
+
             setGeneratedContent(finalResult);
-            setHistory(prev => [finalResult, ...prev]);
+            addToHistory(finalResult, buildMetadata(selectedTransformation.key, 'imageEdit', startedAt, {
+                prompt: promptToUse,
+                ...variablesMeta,
+                ...(selectedTransformation.prompt === 'CUSTOM' && { customPrompt }),
+                inputs: {
+                    primaryImageUrl,
+                    secondaryImageUrl: secondaryUrl,
+                    maskUrl: maskDataUrl,
+                },
+            }));
         }
     } catch (err) {
+      // A cancelled generation ends silently; its result is never shown or saved.
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
       setError(err instanceof Error ? err.message : t('app.error.unknown'));
     } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+      finishGeneration(controller);
     }
-  }, [primaryImageUrl, secondaryImageUrl, selectedTransformation, maskDataUrl, customPrompt, multiImageUrls, t, imageAspectRatio, applyWatermarks, bankName, accountName, accountNumber, branch, lookbookDescription, numImages, lookbookAspectRatio, outputQuality]);
+  }, [primaryImageUrl, secondaryImageUrl, selectedTransformation, maskDataUrl, customPrompt, multiImageUrls, t, imageAspectRatio, applyWatermarks, promptVariableValues, lookbookDescription, lookbookMode, moodboard, numImages, lookbookAspectRatio, outputQuality, addToHistory, beginGeneration, finishGeneration, withScheduleProgress]);
   
+  /**
+   * Applies a single-image transformation to one photo of a batch. Results are
+   * watermarked and saved to history like any other generation.
+   */
+  const handleProcessBatchItem = useCallback(async (transformation: Transformation, imageUrl: string, signal: AbortSignal): Promise<GeneratedContent> => {
+    // Batches only offer effects with a fixed prompt: no Custom Prompt, and no variables to fill in.
+    const { prompt } = transformation;
+    if (!prompt || !isBatchable(transformation)) {
+        throw new Error(`The effect "${transformation.key}" cannot be applied to a batch.`);
+    }
+    const startedAt = performance.now();
+    const imagePart = {
+        base64: imageUrl.split(',')[1],
+        mimeType: imageUrl.split(';')[0].split(':')[1] ?? 'image/png'
+    };
+    const result = await editImage(prompt, [imagePart], null, { signal });
+    result.imageUrl = await applyWatermarks(result.imageUrl);
+    signal.throwIfAborted();
+    const finalResult = { ...result, originalImageUrl: imageUrl };
+    addToHistory(finalResult, buildMetadata(transformation.key, 'imageEdit', startedAt, {
+        prompt,
+        inputs: { primaryImageUrl: imageUrl },
+    }));
+    return finalResult;
+  }, [applyWatermarks, addToHistory]);
+
   const handleGenerate = useCallback(() => {
     if (selectedTransformation?.isVideo) {
       handleGenerateVideo();
@@ -499,29 +947,214 @@ const App: React.FC = () => {
       setImageOptions(null);
       setSelectedOption(null);
       setGeneratedLookbookImages([]);
-      setBankName('');
-      setAccountName('');
-      setAccountNumber('');
-      setBranch('');
+      setPromptVariableValues({});
     } catch (err) {
       console.error("Failed to use image as input:", err);
       setError(t('app.error.useAsInputFailed'));
     }
   }, [t]);
   
-  const toggleHistoryPanel = () => setIsHistoryPanelOpen(prev => !prev);
+  const toggleHistoryPanel = () => {
+      setIsHistoryPanelOpen(prev => !prev);
+  };
+
+  // A notice stays until the user has seen it: it is cleared when the panel closes, not when it opens.
+  useEffect(() => {
+    if (!isHistoryPanelOpen) setHistoryNotice(null);
+  }, [isHistoryPanelOpen]);
   
   const handleUseHistoryImageAsInput = (imageUrl: string) => {
       handleUseImageAsInput(imageUrl);
       setIsHistoryPanelOpen(false);
   };
   
+  /**
+   * Restores the recipe of a history entry into the editor.
+   * @param runImmediately When true the generation is re-run as soon as the state is applied;
+   * otherwise the inputs are left open for tweaking.
+   */
+  const handleRestoreFromHistory = (entry: HistoryEntry, runImmediately: boolean) => {
+      const meta = entry.meta;
+      const transformation = meta ? findTransformationByKey(allTransformations, meta.transformationKey) : null;
+      if (!meta || !transformation) {
+          setError(t('app.error.restoreFailed'));
+          setIsHistoryPanelOpen(false);
+          return;
+      }
+      const { inputs } = meta;
+
+      setSelectedTransformation(transformation);
+      setActiveCategory(null);
+      setPrimaryFile(null);
+      setPrimaryImageUrl(inputs.primaryImageUrl ?? null);
+      setSecondaryFile(null);
+      setSecondaryImageUrl(inputs.secondaryImageUrl ?? null);
+      setMultiImageUrls(inputs.multiImageUrls ?? []);
+      setMaskDataUrl(inputs.maskUrl ?? null);
+      setActiveTool('none');
+      setCustomPrompt(meta.customPrompt ?? '');
+      setPromptVariableValues({ ...getDefaultValues(transformation.variables ?? []), ...meta.promptVariables });
+      if (meta.moodboard) {
+          const { tileCount, ...settings } = meta.moodboard;
+          setLookbookMode('moodboard');
+          setMoodboard({ ...settings, referenceUrls: inputs.multiImageUrls ?? [] });
+          setNumImages(Math.min(Math.max(tileCount, 1), 4) as typeof numImages);
+          if (isLookbookAspectRatio(meta.aspectRatio)) {
+              setLookbookAspectRatio(meta.aspectRatio);
+          }
+      } else if (transformation.isVideo && (meta.aspectRatio === '16:9' || meta.aspectRatio === '9:16')) {
+          setAspectRatio(meta.aspectRatio);
+      } else if (meta.aspectRatio && !transformation.isMultiStepVideo) {
+          setImageAspectRatio(meta.aspectRatio as typeof imageAspectRatio);
+      }
+      // A multi-step video entry was animated from one chosen shot; offer that shot again.
+      setImageOptions(transformation.isMultiStepVideo && inputs.primaryImageUrl ? [inputs.primaryImageUrl] : null);
+      setSelectedOption(transformation.isMultiStepVideo ? inputs.primaryImageUrl ?? null : null);
+      setGeneratedContent(null);
+      setGeneratedLookbookImages([]);
+      setError(null);
+      setEditorKey(prev => prev + 1); // Remount the canvas so it picks up the restored mask
+      setIsHistoryPanelOpen(false);
+      setIsRerunPending(runImmediately);
+  };
+
+  // Re-runs are deferred until the restored state has been committed, so that the
+  // generate handlers see the restored inputs.
+  useEffect(() => {
+    if (!isRerunPending) return;
+    setIsRerunPending(false);
+    if (selectedTransformation?.isMultiStepVideo) {
+        handleGenerateDynamicVideo();
+    } else {
+        handleGenerate();
+    }
+  }, [isRerunPending, selectedTransformation, handleGenerate, handleGenerateDynamicVideo]);
+
+  /**
+   * Shows the video of a finished job, opening the effect it was made with.
+   */
+  const handleViewVideoJob = async (job: VideoJob) => {
+      if (!job.historyEntryId) return;
+      try {
+          const entry = history.find(item => item.id === job.historyEntryId) ?? await loadHistoryEntry(job.historyEntryId);
+          if (!entry) {
+              setError(t('videoJobs.error.missing'));
+              return;
+          }
+          setSelectedTransformation(findTransformationByKey(allTransformations, job.meta.transformationKey) ?? selectedTransformation);
+          setActiveCategory(null);
+          setImageOptions(null);
+          setSelectedOption(null);
+          setGeneratedLookbookImages([]);
+          setIsVideoJobStarted(false);
+          setError(null);
+          setGeneratedContent(entry);
+      } catch (err) {
+          console.error("Failed to open video", err);
+          setError(t('videoJobs.error.missing'));
+      }
+  };
+
   const handleDownloadFromHistory = (url: string, type: string) => {
       const fileExtension = type.includes('video') ? 'mp4' : (url.split(';')[0].split('/')[1] || 'png');
       const filename = `${type}-${Date.now()}.${fileExtension}`;
       downloadImage(url, filename);
   };
 
+  /**
+   * Downloads history as a ZIP archive.
+   * @param selectedIds The entries to export; when empty, every entry matching the current filter is exported.
+   */
+  const handleExportHistory = async (selectedIds: string[]) => {
+      setIsExportingHistory(true);
+      setHistoryError(null);
+      // Entries loaded just for the export own fresh object URLs that must be released afterwards.
+      let loadedEntries: HistoryEntry[] = [];
+      try {
+          let entries: HistoryEntry[];
+          if (selectedIds.length > 0) {
+              const ids = new Set(selectedIds);
+              entries = history.filter(item => ids.has(item.id));
+          } else {
+              loadedEntries = await loadAllHistoryEntries(username, historyFilter);
+              entries = loadedEntries;
+          }
+          if (entries.length === 0) return;
+
+          const archive = await createHistoryArchive(entries, key => {
+              const transformation = findTransformationByKey(allTransformations, key);
+              return transformation ? t(transformation.titleKey) : null;
+          });
+          const archiveUrl = URL.createObjectURL(archive);
+          downloadImage(archiveUrl, `x-studio-history-${new Date().toISOString().slice(0, 10)}.zip`);
+          // Give the browser a moment to start the download before releasing the Blob.
+          setTimeout(() => URL.revokeObjectURL(archiveUrl), 1000);
+      } catch (err) {
+          console.error("Failed to export history", err);
+          setHistoryError(t('history.error.export'));
+      } finally {
+          loadedEntries.forEach(item => item.videoUrl && URL.revokeObjectURL(item.videoUrl));
+          setIsExportingHistory(false);
+      }
+  };
+
+  /**
+   * Merges a history archive (ZIP or JSON) into history. Entries already present are
+   * skipped, and corrupt ones are listed in the error banner.
+   */
+  const handleImportHistory = async (file: File) => {
+      setIsImportingHistory(true);
+      setHistoryError(null);
+      setHistoryNotice(null);
+      try {
+          const { items, rejected } = await readHistoryArchive(file);
+          const { added, duplicates, evicted } = await importHistoryEntries(username, items);
+          await loadHistory(null, historyFilter);
+          const evictedNotice = evicted.length > 0 ? ` · ${describeEvictedEntries(evicted)}` : '';
+          setHistoryNotice(`${t('history.import.added')}: ${added} · ${t('history.import.duplicates')}: ${duplicates}${evictedNotice}`);
+          if (rejected.length > 0) {
+              setHistoryError(`${t('history.error.importRejected')}\n${rejected.join('\n')}`);
+          }
+      } catch (err) {
+          console.error("Failed to import history", err);
+          setHistoryError(`${t('history.error.import')} ${err instanceof Error ? err.message : ''}`.trim());
+      } finally {
+          setIsImportingHistory(false);
+      }
+  };
+
+  const handleClearHistory = async () => {
+      if (!window.confirm(t('history.clearConfirm'))) return;
+      try {
+          await clearHistory(username);
+          setHistory([]);
+          setHistoryHasMore(false);
+          setHistoryError(null);
+      } catch (err) {
+          console.error("Failed to clear history", err);
+          setHistoryError(t('history.error.clear'));
+      }
+  };
+
+  const handleLoadMoreHistory = () => {
+      // Favourites are loaded in full up front, so paging continues from the oldest regular entry.
+      const oldest = history.filter(item => !item.isFavorite).pop();
+      loadHistory(oldest ? { createdAt: oldest.createdAt, id: oldest.id } : null, historyFilter);
+  };
+
+  const handleToggleHistoryFavorite = async (entry: HistoryEntry) => {
+      const isFavorite = !entry.isFavorite;
+      const update = (value: boolean) => setHistory(prev => prev.map(item => item.id === entry.id ? { ...item, isFavorite: value } : item));
+      update(isFavorite);
+      try {
+          await setHistoryFavorite(entry.id, isFavorite);
+      } catch (err) {
+          console.error("Failed to update favourite", err);
+          update(!isFavorite);
+          setHistoryError(t('history.error.favorite'));
+      }
+  };
+
   const handleBackToSelection = () => {
     setSelectedTransformation(null);
     setImageOptions(null);
@@ -529,6 +1162,81 @@ const App: React.FC = () => {
     setGeneratedLookbookImages([]);
   };
 
+  const handleSuggestOutfit = useCallback(async () => {
+    if (!primaryImageUrl) {
+      setAdviceError(t('lookbook.advice.needImage'));
+      return;
+    }
+    adviceRequestRef.current?.abort();
+    const controller = new AbortController();
+    adviceRequestRef.current = controller;
+    setIsAdvising(true);
+    setAdviceError(null);
+    try {
+      const imagePart = {
+        base64: primaryImageUrl.split(',')[1],
+        mimeType: primaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png',
+      };
+      const result = await getFashionAdvice(buildFashionAdvicePrompt(askAiPrompt, language), imagePart, { signal: controller.signal });
+      controller.signal.throwIfAborted();
+      setFashionAdvice(result);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error("Failed to get outfit advice", err);
+      setAdviceError(err instanceof Error ? err.message : t('app.error.unknown'));
+    } finally {
+      if (adviceRequestRef.current === controller) {
+        adviceRequestRef.current = null;
+        setIsAdvising(false);
+      }
+    }
+  }, [primaryImageUrl, askAiPrompt, language, t]);
+
+  const handleSuggestPrompt = useCallback(async () => {
+    if (!primaryImageUrl) {
+      setPromptSuggestionError(t('lookbook.advice.needImage'));
+      return;
+    }
+    promptSuggestionRequestRef.current?.abort();
+    const controller = new AbortController();
+    promptSuggestionRequestRef.current = controller;
+    setIsSuggestingPrompt(true);
+    setPromptSuggestionError(null);
+    try {
+      const imagePart = {
+        base64: primaryImageUrl.split(',')[1],
+        mimeType: primaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png',
+      };
+      const prompt = buildLookbookPromptRequest({
+        question: askAiPrompt,
+        advice: fashionAdvice,
+        draft: lookbookDescription,
+        aspectRatio: lookbookAspectRatio,
+        quality: outputQuality,
+        language,
+      });
+      const suggestions = await suggestLookbookPrompts(prompt, imagePart, { signal: controller.signal });
+      controller.signal.throwIfAborted();
+      if (suggestions.length === 0) throw new Error(t('lookbook.promptSuggestions.empty'));
+      setPromptSuggestions(suggestions);
+      setLookbookDescription(suggestions[0].prompt);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error("Failed to suggest lookbook prompts", err);
+      setPromptSuggestionError(err instanceof Error ? err.message : t('app.error.unknown'));
+    } finally {
+      if (promptSuggestionRequestRef.current === controller) {
+        promptSuggestionRequestRef.current = null;
+        setIsSuggestingPrompt(false);
+      }
+    }
+  }, [primaryImageUrl, askAiPrompt, fashionAdvice, lookbookDescription, lookbookAspectRatio, outputQuality, language, t]);
+
+  const handleInsertFashionItems = useCallback((items: FashionItem[]) => {
+    const lines = items.map(describeFashionItem).join('\n');
+    setLookbookDescription(prev => prev.trim() ? `${prev.trimEnd()}\n${lines}` : lines);
+  }, []);
+
   const handleResetApp = () => {
     setSelectedTransformation(null);
     setPrimaryImageUrl(null);
@@ -539,24 +1247,33 @@ const App: React.FC = () => {
     setGeneratedContent(null);
     setGeneratedLookbookImages([]);
     setError(null);
-    setIsLoading(false);
+    handleCancelGeneration();
+    setIsVideoJobStarted(false);
     setMaskDataUrl(null);
     setCustomPrompt('');
     setActiveTool('none');
     setActiveCategory(null);
     setImageOptions(null);
     setSelectedOption(null);
-    setBankName('');
-    setAccountName('');
-    setAccountNumber('');
-    setBranch('');
+    setPromptVariableValues({});
     // Reset lookbook state
     setLookbookMode('lookbook');
     setAskAiPrompt('');
+    adviceRequestRef.current?.abort();
+    adviceRequestRef.current = null;
+    setFashionAdvice(null);
+    setIsAdvising(false);
+    setAdviceError(null);
+    promptSuggestionRequestRef.current?.abort();
+    promptSuggestionRequestRef.current = null;
+    setPromptSuggestions([]);
+    setIsSuggestingPrompt(false);
+    setPromptSuggestionError(null);
     setLookbookDescription('');
+    setMoodboard(EMPTY_MOODBOARD);
     setNumImages(4);
     setLookbookAspectRatio('3:4');
-    setOutputQuality('ultra');
+    setOutputQuality('standard');
   };
 
   const handleOpenPreview = (url: string) => setPreviewImageUrl(url);
@@ -567,15 +1284,16 @@ const App: React.FC = () => {
   };
   
   const isCustomPromptEmpty = selectedTransformation?.prompt === 'CUSTOM' && !customPrompt.trim();
+  const promptVariableErrors = validateVariables(selectedTransformation?.variables ?? [], promptVariableValues);
   
   let isGenerateDisabled = true;
     if (selectedTransformation) {
-        if (selectedTransformation.key === 'customPrompt') {
+        if (isCustomPromptEffect(selectedTransformation)) {
             isGenerateDisabled = isLoading || isCustomPromptEmpty;
-        } else if (selectedTransformation.key === 'chibiQrCode') {
-            isGenerateDisabled = isLoading || !primaryImageUrl || !secondaryImageUrl || !bankName.trim() || !accountName.trim() || !accountNumber.trim() || !branch.trim();
         } else if (selectedTransformation.key === 'outfitStylist') {
-            isGenerateDisabled = isLoading || !primaryImageUrl || !lookbookDescription.trim();
+            isGenerateDisabled = isLoading || (lookbookMode === 'moodboard'
+                ? moodboard.referenceUrls.length === 0
+                : !primaryImageUrl || !lookbookDescription.trim());
         } else if (selectedTransformation.isVideo) {
             isGenerateDisabled = isLoading || !customPrompt.trim();
         } else if (selectedTransformation.maxImages) {
@@ -593,6 +1311,9 @@ const App: React.FC = () => {
             }
             isGenerateDisabled = isLoading || isCustomPromptEmpty || !imagesReady;
         }
+        if (promptVariableErrors.length > 0) {
+            isGenerateDisabled = true;
+        }
     }
 
   const renderLookbookUI = () => {
@@ -627,54 +1348,79 @@ const App: React.FC = () => {
           </button>
         </div>
         
-        <div className="bg-gray-800/50 p-4 rounded-lg flex flex-col gap-4">
-            <div>
-                <h3 className="font-semibold mb-2">{t('lookbook.characterImage')}</h3>
-                <ImageEditorCanvas
-                    onImageSelect={handlePrimaryImageSelect}
-                    initialImageUrl={primaryImageUrl}
-                    onMaskChange={() => {}}
-                    onClearImage={handleClearPrimaryImage}
-                    isMaskToolActive={false}
+        {lookbookMode === 'moodboard' ? (
+            <MoodboardInputs settings={moodboard} onChange={setMoodboard} />
+        ) : (
+          <>
+            <div className="bg-gray-800/50 p-4 rounded-lg flex flex-col gap-4">
+                <div>
+                    <h3 className="font-semibold mb-2">{t('lookbook.characterImage')}</h3>
+                    <ImageEditorCanvas
+                        onImageSelect={handlePrimaryImageSelect}
+                        initialImageUrl={primaryImageUrl}
+                        onMaskChange={() => {}}
+                        onClearImage={handleClearPrimaryImage}
+                        isMaskToolActive={false}
+                    />
+                </div>
+                <div>
+                    <h3 className="font-semibold mb-2">{t('lookbook.askAi')}</h3>
+                    <textarea
+                        value={askAiPrompt}
+                        onChange={(e) => setAskAiPrompt(e.target.value)}
+                        placeholder={t('lookbook.askAiPlaceholder')}
+                        rows={3}
+                        className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-1 focus:ring-yellow-400 focus:border-yellow-400 transition-colors placeholder-gray-500 text-xs"
+                    />
+                    <button
+                        onClick={handleSuggestOutfit}
+                        disabled={isAdvising || !primaryImageUrl}
+                        className="w-full mt-2 py-2 px-3 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('lookbook.suggestOutfit')}
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-gray-800/50 p-4 rounded-lg min-h-[100px]">
+                <h3 className="font-semibold mb-2">{t('lookbook.accessories')}</h3>
+                <FashionAdvicePanel
+                    advice={fashionAdvice?.advice ?? null}
+                    text={fashionAdvice?.text ?? null}
+                    isLoading={isAdvising}
+                    error={adviceError}
+                    onInsert={handleInsertFashionItems}
                 />
             </div>
-            <div>
-                <h3 className="font-semibold mb-2">{t('lookbook.askAi')}</h3>
+        
+             <div className="bg-gray-800/50 p-4 rounded-lg flex flex-col gap-2">
+                <div className="flex justify-between items-center">
+                     <h3 className="font-semibold">{t('lookbook.lookbookDescription')}</h3>
+                     <button
+                        onClick={handleSuggestPrompt}
+                        disabled={isSuggestingPrompt || !primaryImageUrl}
+                        className="py-1 px-2 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                        <span className="text-yellow-400">✦</span>
+                        {t('lookbook.suggestPrompt')}
+                    </button>
+                </div>
                 <textarea
-                    value={askAiPrompt}
-                    onChange={(e) => setAskAiPrompt(e.target.value)}
-                    placeholder={t('lookbook.askAiPlaceholder')}
-                    rows={3}
+                    value={lookbookDescription}
+                    onChange={(e) => setLookbookDescription(e.target.value)}
+                    rows={4}
                     className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-1 focus:ring-yellow-400 focus:border-yellow-400 transition-colors placeholder-gray-500 text-xs"
                 />
-                <button className="w-full mt-2 py-2 px-3 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">
-                    {t('lookbook.suggestOutfit')}
-                </button>
-            </div>
-        </div>
-
-        <div className="bg-gray-800/50 p-4 rounded-lg min-h-[100px]">
-            <h3 className="font-semibold mb-2">{t('lookbook.accessories')}</h3>
-            <div className="w-full h-full flex items-center justify-center text-gray-500 text-xs">
-                {/* This area is for future suggested accessories */}
-            </div>
-        </div>
-        
-         <div className="bg-gray-800/50 p-4 rounded-lg flex flex-col gap-2">
-            <div className="flex justify-between items-center">
-                 <h3 className="font-semibold">{t('lookbook.lookbookDescription')}</h3>
-                 <button className="py-1 px-2 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-1">
-                    <span className="text-yellow-400">✦</span>
-                    {t('lookbook.suggestPrompt')}
-                </button>
+                <PromptSuggestionList
+                    suggestions={promptSuggestions}
+                    isLoading={isSuggestingPrompt}
+                    error={promptSuggestionError}
+                    currentPrompt={lookbookDescription}
+                    onPick={setLookbookDescription}
+                />
             </div>
-            <textarea
-                value={lookbookDescription}
-                onChange={(e) => setLookbookDescription(e.target.value)}
-                rows={4}
-                className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-1 focus:ring-yellow-400 focus:border-yellow-400 transition-colors placeholder-gray-500 text-xs"
-            />
-        </div>
+          </>
+        )}
         
         <div className="grid grid-cols-3 gap-4">
             <div>
@@ -688,7 +1434,7 @@ const App: React.FC = () => {
             <div className="col-span-2">
                 <h4 className="text-xs font-semibold mb-2">{t('lookbook.aspectRatio')}</h4>
                  <div className="grid grid-cols-3 gap-1">
-                    {(['3:4', '1:1', '16:9'] as const).map(ratio => (
+                    {LOOKBOOK_ASPECT_RATIOS.map(ratio => (
                         <button key={ratio} onClick={() => setLookbookAspectRatio(ratio)} className={optionButtonClasses(lookbookAspectRatio === ratio)}>{ratio}</button>
                     ))}
                 </div>
@@ -702,6 +1448,9 @@ const App: React.FC = () => {
                 <button onClick={() => setOutputQuality('high')} className={qualityButtonClasses(outputQuality === 'high', 'high')}>{t('lookbook.qualityHigh')}</button>
                 <button onClick={() => setOutputQuality('ultra')} className={qualityButtonClasses(outputQuality === 'ultra', 'ultra')}>{t('lookbook.qualityUltra')}</button>
             </div>
+            {outputQuality !== 'standard' && (
+                <p className="text-[10px] text-gray-500 mt-1">{t('lookbook.upscaleHint')}</p>
+            )}
         </div>
 
         <div className="grid grid-cols-2 gap-2 mt-2">
@@ -730,46 +1479,6 @@ const App: React.FC = () => {
         return renderLookbookUI();
     }
     
-    if (selectedTransformation.key === 'chibiQrCode') {
-        const textInputClasses = "w-full p-2 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-1 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]";
-        const labelClasses = "block text-xs font-medium text-[var(--text-secondary)] mb-1";
-  
-        return (
-          <div className="flex flex-col gap-4">
-            <MultiImageUploader
-              onPrimarySelect={handlePrimaryImageSelect}
-              onSecondarySelect={handleSecondaryImageSelect}
-              primaryImageUrl={primaryImageUrl}
-              secondaryImageUrl={secondaryImageUrl}
-              onClearPrimary={handleClearPrimaryImage}
-              onClearSecondary={handleClearSecondaryImage}
-              primaryTitle={t(selectedTransformation.primaryUploaderTitle!)}
-              primaryDescription={t(selectedTransformation.primaryUploaderDescription!)}
-              secondaryTitle={t(selectedTransformation.secondaryUploaderTitle!)}
-              secondaryDescription={t(selectedTransformation.secondaryUploaderDescription!)}
-            />
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3 mt-2">
-              <div>
-                <label htmlFor="bankName" className={labelClasses}>{t('transformations.effects.chibiQrCode.bankName')}</label>
-                <input id="bankName" type="text" value={bankName} onChange={e => setBankName(e.target.value)} placeholder="e.g., Vietcombank" className={textInputClasses} />
-              </div>
-              <div>
-                <label htmlFor="accountName" className={labelClasses}>{t('transformations.effects.chibiQrCode.accountName')}</label>
-                <input id="accountName" type="text" value={accountName} onChange={e => setAccountName(e.target.value)} placeholder="e.g., NGUYEN VAN A" className={textInputClasses} />
-              </div>
-              <div>
-                <label htmlFor="accountNumber" className={labelClasses}>{t('transformations.effects.chibiQrCode.accountNumber')}</label>
-                <input id="accountNumber" type="text" value={accountNumber} onChange={e => setAccountNumber(e.target.value)} placeholder="e.g., 0123456789" className={textInputClasses} />
-              </div>
-              <div>
-                <label htmlFor="branch" className={labelClasses}>{t('transformations.effects.chibiQrCode.branch')}</label>
-                <input id="branch" type="text" value={branch} onChange={e => setBranch(e.target.value)} placeholder="e.g., PGD BINH TAN" className={textInputClasses} />
-              </div>
-            </div>
-          </div>
-        );
-    }
-    
     if (selectedTransformation.maxImages) {
         return (
             <MultiImageGridUploader
@@ -840,8 +1549,10 @@ const App: React.FC = () => {
     return (
       <>
         <ImageEditorCanvas
+          key={editorKey}
           onImageSelect={handlePrimaryImageSelect}
           initialImageUrl={primaryImageUrl}
+          initialMaskUrl={maskDataUrl}
           onMaskChange={setMaskDataUrl}
           onClearImage={handleClearPrimaryImage}
           isMaskToolActive={activeTool === 'mask'}
@@ -882,6 +1593,24 @@ const App: React.FC = () => {
                     <span>{t('transformations.effects.outfitStylist.title')}</span>
                 </button>
              }
+            <UsageMeter usage={usage} />
+            <VideoJobsTray
+              jobs={videoJobs}
+              transformations={allTransformations}
+              onView={handleViewVideoJob}
+              onDismiss={id => videoJobManagerRef.current?.dismiss(id)}
+              onClearFinished={() => videoJobManagerRef.current?.clearFinished()}
+            />
+            <button
+              onClick={() => setIsBatchOpen(true)}
+              className="flex items-center gap-2 py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+              aria-label={t('batch.title')}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" />
+              </svg>
+              <span className="hidden sm:inline">{t('app.batch')}</span>
+            </button>
             <button
               onClick={toggleHistoryPanel}
               className="flex items-center gap-2 py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
@@ -892,8 +1621,31 @@ const App: React.FC = () => {
               </svg>
               <span className="hidden sm:inline">{t('app.history')}</span>
             </button>
+            {isAdmin && (
+              <button
+                onClick={() => setIsCatalogueAdminOpen(true)}
+                className="flex items-center gap-2 py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+                aria-label={t('catalogueAdmin.title')}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
+                </svg>
+                <span className="hidden sm:inline">{t('catalogueAdmin.button')}</span>
+              </button>
+            )}
             <LanguageSwitcher />
             <ThemeSwitcher />
+            <button
+              onClick={onLogout}
+              className="flex items-center gap-2 py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+              aria-label={t('app.logout')}
+              title={`${t('app.signedInAs')} ${username}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M3 3a1 1 0 00-1 1v12a1 1 0 102 0V4a1 1 0 00-1-1zm10.293 9.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L14.586 9H7a1 1 0 100 2h7.586l-1.293 1.293z" clipRule="evenodd" />
+              </svg>
+              <span className="hidden sm:inline">{t('app.logout')}</span>
+            </button>
           </div>
         </div>
       </header>
@@ -907,6 +1659,9 @@ const App: React.FC = () => {
             onOrderChange={setTransformations}
             activeCategory={activeCategory}
             setActiveCategory={setActiveCategory}
+            presets={presetTransformations}
+            onEditPreset={handleEditPreset}
+            onDeletePreset={handleDeletePreset}
           />
         ) : (
           <div className="container mx-auto p-2 sm:p-4 md:p-8 animate-fade-in">
@@ -949,6 +1704,15 @@ const App: React.FC = () => {
                                     rows={3}
                                     className="w-full -mt-2 mb-4 p-3 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]"
                                 />
+                                <div className="flex justify-end -mt-2 mb-4">
+                                    <button
+                                        onClick={handleSaveAsPreset}
+                                        disabled={!customPrompt.trim()}
+                                        className="py-1 px-3 text-xs font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        ⭐ {t('presets.saveAsPreset')}
+                                    </button>
+                                </div>
                                 {!primaryImageUrl && (
                                     <div className="mb-4 animate-fade-in-fast">
                                         <h3 className="text-sm font-semibold text-[var(--text-primary)] mb-2">{t('app.aspectRatio')}</h3>
@@ -971,6 +1735,18 @@ const App: React.FC = () => {
                         )}
                         
                         {renderInputUI()}
+                        {selectedTransformation.variables && (
+                            <PromptVariablesForm
+                                key={selectedTransformation.key}
+                                variables={selectedTransformation.variables}
+                                values={promptVariableValues}
+                                errors={promptVariableErrors}
+                                onChange={(name, value) => setPromptVariableValues(prev => ({ ...prev, [name]: value }))}
+                            />
+                        )}
+                        {selectedTransformation.usesVietQr && (
+                            <VietQrPreview values={promptVariableValues} isValid={promptVariableErrors.length === 0} />
+                        )}
                         
                         <button
                             onClick={handleGenerate}
@@ -1002,7 +1778,7 @@ const App: React.FC = () => {
               {/* Output Column */}
               <div className="flex flex-col p-6 bg-[rgba(31,31,31,0.7)] backdrop-blur-lg rounded-xl border border-gray-800 shadow-2xl shadow-black/20">
                 <h2 className="text-xl font-bold mb-4 text-white self-start">{t('app.result')}</h2>
-                {isLoading && <div className="flex-grow flex items-center justify-center"><LoadingSpinner message={loadingMessage} /></div>}
+                {isLoading && <div className="flex-grow flex items-center justify-center"><LoadingSpinner message={loadingMessage} onCancel={handleCancelGeneration} /></div>}
                 {error && <div className="flex-grow flex items-center justify-center w-full"><ErrorMessage message={error} /></div>}
                 
                 {!isLoading && !error && generatedLookbookImages.length > 0 && (
@@ -1066,7 +1842,7 @@ const App: React.FC = () => {
                     <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                     </svg>
-                    <p className="mt-2 text-sm">{t('app.yourImageWillAppear')}</p>
+                    <p className="mt-2 text-sm">{t(isVideoJobStarted ? 'videoJobs.started' : 'app.yourImageWillAppear')}</p>
                   </div>
                 )}
               </div>
@@ -1075,17 +1851,94 @@ const App: React.FC = () => {
         )}
       </main>
       <ImagePreviewModal imageUrl={previewImageUrl} onClose={handleClosePreview} />
+      <PresetEditor
+        preset={editingPreset?.preset ?? null}
+        isNew={editingPreset?.isNew ?? false}
+        onSave={handleSavePreset}
+        onClose={() => setEditingPreset(null)}
+      />
+      <BatchProcessor
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        transformations={transformations}
+        onProcess={handleProcessBatchItem}
+        onDownload={handleDownloadFromHistory}
+      />
+      {isAdmin && (
+        <CatalogueAdmin
+          isOpen={isCatalogueAdminOpen}
+          onClose={() => setIsCatalogueAdminOpen(false)}
+          catalogue={catalogue}
+          onSaved={applyCatalogue}
+        />
+      )}
       <HistoryPanel
         isOpen={isHistoryPanelOpen}
         onClose={toggleHistoryPanel}
         history={history}
+        transformations={allTransformations}
+        hasMore={historyHasMore}
+        isLoading={isHistoryLoading}
+        error={historyError}
+        onLoadMore={handleLoadMoreHistory}
+        filter={historyFilter}
+        onFilterChange={setHistoryFilter}
+        onToggleFavorite={handleToggleHistoryFavorite}
+        isExporting={isExportingHistory}
+        onExport={handleExportHistory}
+        isImporting={isImportingHistory}
+        onImport={handleImportHistory}
+        notice={historyNotice}
+        onDismissNotice={() => setHistoryNotice(null)}
+        onClearHistory={handleClearHistory}
         onUseImage={handleUseHistoryImageAsInput}
         onDownload={handleDownloadFromHistory}
+        onRegenerate={entry => handleRestoreFromHistory(entry, true)}
+        onEditAndRegenerate={entry => handleRestoreFromHistory(entry, false)}
       />
     </div>
   );
 };
 
+/**
+ * Renders the sign-in screen until the server confirms a session, then the studio.
+ */
+const App: React.FC = () => {
+  const { t } = useTranslation();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState<boolean>(true);
+
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch(err => console.error("Failed to check the session", err))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  useEffect(() => onSessionExpired(() => setSession(null)), []);
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error("Failed to sign out", err);
+    }
+    setSession(null);
+  };
+
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen bg-[var(--bg-primary)] flex items-center justify-center">
+        <LoadingSpinner message={t('login.checking')} />
+      </div>
+    );
+  }
+  if (!session) {
+    return <Login onLoginSuccess={setSession} />;
+  }
+  return <Studio username={session.username} isAdmin={session.isAdmin} onLogout={handleLogout} />;
+};
+
 // Add fade-in animation for view transitions
 const style = document.createElement('style');
 style.innerHTML = `
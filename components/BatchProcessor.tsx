@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { GeneratedContent, Transformation } from '../types';
+import { useTranslation } from '../i18n/context';
+import { createBatchQueue, type BatchItem, type BatchItemStatus, type BatchQueue, type BatchQueueState } from '../services/batchQueue';
+import { flattenTransformations, isBatchable } from '../utils/transformationUtils';
+
+export interface BatchInput {
+  fileName: string;
+  imageUrl: string;
+}
+
+type BatchEntry = BatchItem<BatchInput, GeneratedContent>;
+
+interface BatchProcessorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transformations: Transformation[];
+  onProcess: (transformation: Transformation, imageUrl: string, signal: AbortSignal) => Promise<GeneratedContent>;
+  onDownload: (url: string, type: string) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_CONCURRENCY = 2;
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-[rgba(107,114,128,0.2)] text-[var(--text-secondary)]',
+  running: 'bg-[var(--accent-primary)] text-[var(--text-on-accent)] animate-pulse',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-[var(--bg-error)] text-[var(--text-error)]',
+  cancelled: 'bg-[rgba(107,114,128,0.2)] text-[var(--text-tertiary)]',
+};
+
+const controlButtonClasses = "py-2 px-3 text-sm font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] disabled:cursor-not-allowed disabled:text-[var(--text-disabled)] transition-colors";
+const primaryButtonClasses = "py-2 px-4 text-sm font-semibold rounded-md bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors";
+
+const readAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ isOpen, onClose, transformations, onProcess, onDownload }) => {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<BatchEntry[]>([]);
+  const [queueState, setQueueState] = useState<BatchQueueState>('idle');
+  const [transformationKey, setTransformationKey] = useState<string>('');
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const batchableTransformations = flattenTransformations(transformations).filter(isBatchable);
+  const selectedTransformation = batchableTransformations.find(item => item.key === transformationKey) ?? null;
+
+  // The queue lives for the lifetime of the component and reads the latest props through refs,
+  // so it keeps running while the panel is closed.
+  const processRef = useRef(onProcess);
+  processRef.current = onProcess;
+  const transformationRef = useRef(selectedTransformation);
+  transformationRef.current = selectedTransformation;
+
+  const queueRef = useRef<BatchQueue<BatchInput> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue<BatchInput, GeneratedContent>({
+      concurrency: DEFAULT_CONCURRENCY,
+      process: (input, signal) => {
+        const transformation = transformationRef.current;
+        if (!transformation) return Promise.reject(new Error("No effect selected."));
+        return processRef.current(transformation, input.imageUrl, signal);
+      },
+      onChange: (nextItems, nextState) => {
+        setItems(nextItems);
+        setQueueState(nextState);
+      },
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => () => queue.clear(), [queue]);
+
+  const handleFiles = useCallback(async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    const inputs = await Promise.all(files.map(async file => ({ fileName: file.name, imageUrl: await readAsDataUrl(file) })));
+    queue.add(inputs);
+  }, [queue]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 } as Record<BatchItemStatus, number>);
+  const finished = counts.done + counts.failed + counts.cancelled;
+  const progress = items.length > 0 ? Math.round((finished / items.length) * 100) : 0;
+  const isActive = queueState !== 'idle';
+
+  return (
+    <div className={`fixed inset-0 z-40 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="absolute inset-4 md:inset-10 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-[var(--border-primary)] flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-[var(--accent-primary)]">{t('batch.title')}</h2>
+            <p className="text-xs text-[var(--text-secondary)]">{t('batch.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-[var(--text-secondary)] hover:bg-[rgba(107,114,128,0.2)] hover:text-[var(--text-primary)] transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-[var(--border-primary)] flex flex-col gap-3 flex-shrink-0">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs font-semibold text-[var(--text-secondary)] flex-grow min-w-[12rem]">
+              {t('batch.effect')}
+              <select
+                value={transformationKey}
+                onChange={e => setTransformationKey(e.target.value)}
+                disabled={isActive}
+                className="p-2 text-sm bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md text-[var(--text-primary)] disabled:text-[var(--text-disabled)]"
+              >
+                <option value="">{t('batch.chooseEffect')}</option>
+                {batchableTransformations.map(transformation => (
+                  <option key={transformation.key} value={transformation.key}>{transformation.emoji} {t(transformation.titleKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-semibold text-[var(--text-secondary)]">
+              {t('batch.concurrency')}
+              <select
+                value={concurrency}
+                onChange={e => handleConcurrencyChange(Number(e.target.value))}
+                className="p-2 text-sm bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md text-[var(--text-primary)]"
+              >
+                {CONCURRENCY_OPTIONS.map(value => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {queueState === 'idle' && (
+                <button onClick={() => queue.start()} disabled={!selectedTransformation || counts.queued === 0} className={primaryButtonClasses}>
+                  {t('batch.start')}
+                </button>
+              )}
+              {queueState === 'running' && <button onClick={() => queue.pause()} className={controlButtonClasses}>{t('batch.pause')}</button>}
+              {queueState === 'paused' && <button onClick={() => queue.start()} className={primaryButtonClasses}>{t('batch.resume')}</button>}
+              {isActive && <button onClick={() => queue.cancel()} className={controlButtonClasses}>{t('batch.cancel')}</button>}
+              {(counts.failed > 0 || counts.cancelled > 0) && (
+                <button onClick={() => queue.retry()} disabled={!selectedTransformation} className={controlButtonClasses}>{t('batch.retryFailed')}</button>
+              )}
+              {items.length > 0 && !isActive && <button onClick={() => queue.clear()} className={controlButtonClasses}>{t('batch.clear')}</button>}
+            </div>
+          </div>
+
+          {items.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <div className="w-full h-2 rounded-full bg-[var(--bg-secondary)] overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] transition-all duration-300" style={{ width: `${progress}%` }} />
+              </div>
+              <p className="text-xs text-[var(--text-secondary)]">
+                {finished}/{items.length} · {t('batch.status.done')}: {counts.done} · {t('batch.status.failed')}: {counts.failed} · {t('batch.status.running')}: {counts.running}
+                {queueState === 'paused' && ` · ${t('batch.paused')}`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4">
+          <div
+            onDrop={handleDrop}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={e => { e.preventDefault(); setIsDragging(false); }}
+            className={`mb-4 p-6 rounded-lg border-2 border-dashed text-center transition-colors ${isDragging ? 'border-[var(--accent-primary)] bg-[rgba(249,115,22,0.1)]' : 'border-[var(--border-primary)] bg-[var(--bg-secondary)]'}`}
+          >
+            <label className="cursor-pointer flex flex-col items-center gap-2 text-[var(--text-tertiary)]">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="1.5"><path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.158 0h.008v.008h-.008V8.25z" /></svg>
+              <span className="text-sm font-semibold text-[var(--text-secondary)]">{t('batch.dropPhotos')}</span>
+              <input type="file" accept="image/*" multiple className="hidden" onChange={e => { handleFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+            {items.map(item => (
+              <div key={item.id} className="bg-[var(--bg-secondary)] p-2 rounded-lg border border-[var(--border-primary)] flex flex-col gap-2">
+                <div className="relative">
+                  <img src={item.result?.imageUrl ?? item.input.imageUrl} alt={item.input.fileName} className="w-full aspect-square object-contain rounded-md bg-[var(--bg-primary)]" />
+                  <span className={`absolute top-1 left-1 px-1.5 py-0.5 rounded text-[10px] font-semibold ${STATUS_CLASSES[item.status]}`}>
+                    {t(`batch.status.${item.status}`)}
+                  </span>
+                </div>
+                <p className="text-[10px] text-[var(--text-tertiary)] truncate" title={item.input.fileName}>
+                  {item.input.fileName}{item.attempts > 1 && ` · ${t('batch.attempt')} ${item.attempts}`}
+                </p>
+                {item.error && <p className="text-[10px] text-[var(--text-error)] line-clamp-3" title={item.error}>{item.error}</p>}
+                <div className="flex gap-1 mt-auto">
+                  {item.status === 'done' && item.result?.imageUrl && (
+                    <button onClick={() => onDownload(item.result!.imageUrl!, 'batch-result')} className="flex-1 py-1 text-xs font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors">
+                      {t('resultDisplay.actions.download')}
+                    </button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <button onClick={() => queue.retry([item.id])} disabled={!selectedTransformation} className="flex-1 py-1 text-xs font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] disabled:cursor-not-allowed disabled:text-[var(--text-disabled)] transition-colors">
+                      {t('batch.retry')}
+                    </button>
+                  )}
+                  {item.status !== 'running' && (
+                    <button onClick={() => queue.remove(item.id)} className="py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-secondary)] bg-[rgba(107,114,128,0.2)] hover:bg-[var(--bg-error)] hover:text-[var(--text-error)] transition-colors" aria-label={t('batch.remove')} title={t('batch.remove')}>
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProcessor;
@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import type { Catalogue, CatalogueEntry, LocalizedText } from '../types';
+import { TRANSFORMATIONS } from '../constants';
+import { useTranslation } from '../i18n/context';
+import { buildDefaultCatalogueEntries, saveCatalogue } from '../services/catalogueService';
+import { findTransformationByKey } from '../utils/transformationUtils';
+
+interface CatalogueAdminProps {
+  isOpen: boolean;
+  onClose: () => void;
+  catalogue: Catalogue | null; // Null until an admin first saves one
+  onSaved: (catalogue: Catalogue) => void;
+}
+
+type TextField = 'title' | 'description' | 'primaryUploaderTitle' | 'primaryUploaderDescription' | 'secondaryUploaderTitle' | 'secondaryUploaderDescription';
+type FlagField = 'isMultiImage' | 'isSecondaryOptional' | 'isTwoStep' | 'isVideo' | 'isMultiStepVideo' | 'usesVietQr';
+
+const FLAG_FIELDS: FlagField[] = ['isMultiImage', 'isSecondaryOptional', 'isTwoStep', 'isVideo', 'isMultiStepVideo', 'usesVietQr'];
+const UPLOADER_FIELDS: TextField[] = ['primaryUploaderTitle', 'primaryUploaderDescription', 'secondaryUploaderTitle', 'secondaryUploaderDescription'];
+
+const inputClasses = "w-full p-2 text-sm bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors disabled:text-[var(--text-disabled)]";
+const labelClasses = "flex flex-col gap-1 text-xs font-semibold text-[var(--text-secondary)]";
+const smallButtonClasses = "py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Built-in effects have behaviour tied to their keys, so they can be disabled but not deleted.
+const isBuiltIn = (key: string) => !!findTransformationByKey(TRANSFORMATIONS, key);
+
+/**
+ * Finds the neighbour an entry swaps places with when moved: the closest entry in
+ * the given direction that is listed at the same level (the same category, or the top).
+ */
+const findSiblingIndex = (entries: CatalogueEntry[], index: number, direction: -1 | 1): number => {
+  for (let i = index + direction; i >= 0 && i < entries.length; i += direction) {
+    if (entries[i].category === entries[index].category) return i;
+  }
+  return -1;
+};
+
+/**
+ * Edits an effect's prompt variables as JSON. The draft is only applied while it parses
+ * to a list; the server checks the rest when the catalogue is saved.
+ */
+const VariablesField: React.FC<{ variables?: CatalogueEntry['variables']; onChange: (variables: CatalogueEntry['variables']) => void }> = ({ variables, onChange }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(() => variables ? JSON.stringify(variables, null, 2) : '');
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (!value.trim()) {
+      setIsInvalid(false);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) throw new Error('Not a list');
+      setIsInvalid(false);
+      onChange(parsed);
+    } catch {
+      setIsInvalid(true);
+    }
+  };
+
+  return (
+    <label className={labelClasses}>
+      {t('catalogueAdmin.fields.variables')}
+      <textarea rows={4} value={draft} onChange={e => handleChange(e.target.value)} spellCheck={false} className={`${inputClasses} font-mono text-xs`} />
+      <span className={`font-normal ${isInvalid ? 'text-[var(--text-error)]' : 'text-[var(--text-tertiary)]'}`}>
+        {t(isInvalid ? 'catalogueAdmin.error.invalidVariables' : 'catalogueAdmin.variablesHint')}
+      </span>
+    </label>
+  );
+};
+
+const CatalogueAdmin: React.FC<CatalogueAdminProps> = ({ isOpen, onClose, catalogue, onSaved }) => {
+  const { t, language } = useTranslation();
+  const [entries, setEntries] = useState<CatalogueEntry[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [newKeys, setNewKeys] = useState<Set<string>>(new Set()); // Keys may be edited until the first save
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries(catalogue?.entries ?? buildDefaultCatalogueEntries(TRANSFORMATIONS));
+    setSelectedIndex(null);
+    setNewKeys(new Set());
+    setIsDirty(false);
+    setError(null);
+    setNotice(catalogue ? null : t('catalogueAdmin.usingBuiltIn'));
+    // Only reload the draft when the panel opens; edits in progress must survive re-renders.
+  }, [isOpen]);
+
+  const selected = selectedIndex !== null ? entries[selectedIndex] : null;
+  const categories = entries.filter(entry => entry.isCategory);
+
+  const updateEntries = (next: CatalogueEntry[]) => {
+    setEntries(next);
+    setIsDirty(true);
+    setNotice(null);
+  };
+
+  const updateSelected = (changes: Partial<CatalogueEntry>) => {
+    if (selectedIndex === null || !selected) return;
+    const updated = { ...selected, ...changes };
+    updateEntries(entries.map((entry, index) => {
+      if (index === selectedIndex) return updated;
+      // A renamed category keeps its effects.
+      if (changes.key !== undefined && selected.isCategory && entry.category === selected.key) return { ...entry, category: changes.key };
+      return entry;
+    }));
+    if (changes.key !== undefined) {
+      setNewKeys(prev => new Set([...prev].filter(key => key !== selected.key)).add(changes.key!));
+    }
+  };
+
+  const updateText = (field: TextField, lang: keyof LocalizedText, value: string) => {
+    updateSelected({ [field]: { ...selected?.[field], [lang]: value } });
+  };
+
+  const handleAdd = (isCategory: boolean) => {
+    const key = `${isCategory ? 'category' : 'effect'}_${Date.now().toString(36)}`;
+    const title = t(isCategory ? 'catalogueAdmin.newCategory' : 'catalogueAdmin.newEffect');
+    const entry: CatalogueEntry = isCategory
+      ? { key, emoji: '📁', title: { en: title, vi: title }, isCategory: true }
+      : { key, emoji: '✨', title: { en: title, vi: title }, prompt: '' };
+    updateEntries([entry, ...entries]);
+    setNewKeys(prev => new Set(prev).add(key));
+    setSelectedIndex(0);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = findSiblingIndex(entries, index, direction);
+    if (target === -1) return;
+    const next = [...entries];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateEntries(next);
+    if (selectedIndex === index) setSelectedIndex(target);
+    else if (selectedIndex === target) setSelectedIndex(index);
+  };
+
+  const handleDelete = () => {
+    if (selectedIndex === null || !selected) return;
+    if (selected.isCategory && entries.some(entry => entry.category === selected.key)) {
+      setError(t('catalogueAdmin.error.categoryNotEmpty'));
+      return;
+    }
+    updateEntries(entries.filter((_, index) => index !== selectedIndex));
+    setSelectedIndex(null);
+  };
+
+  const handleResetToBuiltIn = () => {
+    if (!window.confirm(t('catalogueAdmin.resetConfirm'))) return;
+    updateEntries(buildDefaultCatalogueEntries(TRANSFORMATIONS));
+    setSelectedIndex(null);
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm(t('catalogueAdmin.discardConfirm'))) return;
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveCatalogue(entries);
+      setEntries(saved.entries);
+      setNewKeys(new Set());
+      setIsDirty(false);
+      setNotice(t('catalogueAdmin.saved'));
+      onSaved(saved);
+    } catch (err) {
+      console.error("Failed to save the catalogue", err);
+      setError(err instanceof Error ? err.message : t('app.error.unknown'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const titleOf = (entry: CatalogueEntry) => entry.title[language] || entry.title.en || entry.title.vi || entry.key;
+
+  const renderRow = (entry: CatalogueEntry) => {
+    const index = entries.indexOf(entry);
+    return (
+      <div
+        key={entry.key}
+        className={`flex items-center gap-2 p-2 rounded-md cursor-pointer ${entry.category ? 'ml-6' : ''} ${index === selectedIndex ? 'bg-[rgba(249,115,22,0.15)] ring-1 ring-[var(--accent-primary)]' : 'hover:bg-[rgba(107,114,128,0.15)]'}`}
+        onClick={() => setSelectedIndex(index)}
+      >
+        <span className="text-lg">{entry.emoji}</span>
+        <span className={`flex-grow text-sm truncate ${entry.disabled ? 'text-[var(--text-tertiary)] line-through' : 'text-[var(--text-primary)]'}`}>{titleOf(entry)}</span>
+        {entry.isCategory && <span className="text-[10px] uppercase font-bold text-[var(--text-secondary)]">{t('catalogueAdmin.category')}</span>}
+        {entry.disabled && <span className="text-[10px] uppercase font-bold text-[var(--text-tertiary)]">{t('catalogueAdmin.disabled')}</span>}
+        <button onClick={e => { e.stopPropagation(); handleMove(index, -1); }} disabled={findSiblingIndex(entries, index, -1) === -1} className={smallButtonClasses} aria-label={t('catalogueAdmin.moveUp')}>↑</button>
+        <button onClick={e => { e.stopPropagation(); handleMove(index, 1); }} disabled={findSiblingIndex(entries, index, 1) === -1} className={smallButtonClasses} aria-label={t('catalogueAdmin.moveDown')}>↓</button>
+      </div>
+    );
+  };
+
+  const renderTextFields = (field: TextField) => (
+    <fieldset key={field} className="flex flex-col gap-2">
+      <legend className="text-xs font-semibold text-[var(--text-secondary)] mb-1">{t(`catalogueAdmin.fields.${field}`)}</legend>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {(['en', 'vi'] as const).map(lang => (
+          <input
+            key={lang}
+            type="text"
+            value={selected?.[field]?.[lang] ?? ''}
+            onChange={e => updateText(field, lang, e.target.value)}
+            placeholder={t(`catalogueAdmin.languages.${lang}`)}
+            aria-label={`${t(`catalogueAdmin.fields.${field}`)} (${t(`catalogueAdmin.languages.${lang}`)})`}
+            className={inputClasses}
+          />
+        ))}
+      </div>
+    </fieldset>
+  );
+
+  return (
+    <div className={`fixed inset-0 z-40 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose} />
+
+      <div className="absolute inset-4 md:inset-10 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-[var(--border-primary)] flex justify-between items-center flex-shrink-0 gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[var(--accent-primary)]">{t('catalogueAdmin.title')}</h2>
+            <p className="text-xs text-[var(--text-secondary)]">{t('catalogueAdmin.description')}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleResetToBuiltIn} disabled={isSaving} className={smallButtonClasses}>{t('catalogueAdmin.resetToBuiltIn')}</button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="py-2 px-4 text-sm font-semibold rounded-md bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? t('catalogueAdmin.saving') : t('catalogueAdmin.save')}
+            </button>
+            <button onClick={handleClose} className="p-1 rounded-full text-[var(--text-secondary)] hover:bg-[rgba(107,114,128,0.2)] hover:text-[var(--text-primary)] transition-colors" aria-label={t('catalogueAdmin.close')}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {(error || notice || isDirty) && (
+          <div className={`px-4 py-2 text-sm flex-shrink-0 ${error ? 'bg-[var(--bg-error)] text-[var(--text-error)]' : 'text-[var(--text-secondary)]'}`}>
+            {error ?? notice ?? t('catalogueAdmin.unsavedChanges')}
+          </div>
+        )}
+
+        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+          <div className="md:w-80 flex-shrink-0 border-b md:border-b-0 md:border-r border-[var(--border-primary)] flex flex-col min-h-0 max-h-64 md:max-h-none">
+            <div className="p-2 flex gap-2 border-b border-[var(--border-primary)]">
+              <button onClick={() => handleAdd(false)} className={smallButtonClasses}>+ {t('catalogueAdmin.newEffect')}</button>
+              <button onClick={() => handleAdd(true)} className={smallButtonClasses}>+ {t('catalogueAdmin.newCategory')}</button>
+            </div>
+            <div className="overflow-y-auto p-2 flex flex-col gap-1">
+              {entries.filter(entry => !entry.category).map(entry => (
+                <React.Fragment key={entry.key}>
+                  {renderRow(entry)}
+                  {entry.isCategory && entries.filter(item => item.category === entry.key).map(renderRow)}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-grow overflow-y-auto p-4">
+            {!selected ? (
+              <p className="text-sm text-[var(--text-secondary)] text-center mt-10">{t('catalogueAdmin.selectEntry')}</p>
+            ) : (
+              <div className="flex flex-col gap-4 max-w-3xl">
+                <div className="grid grid-cols-[1fr_6rem] gap-3">
+                  <label className={labelClasses}>
+                    {t('catalogueAdmin.fields.key')}
+                    <input
+                      type="text"
+                      value={selected.key}
+                      onChange={e => updateSelected({ key: e.target.value })}
+                      disabled={!newKeys.has(selected.key)}
+                      className={inputClasses}
+                    />
+                    <span className="font-normal text-[var(--text-tertiary)]">{t('catalogueAdmin.keyHint')}</span>
+                  </label>
+                  <label className={labelClasses}>
+                    {t('catalogueAdmin.fields.emoji')}
+                    <input type="text" value={selected.emoji} onChange={e => updateSelected({ emoji: e.target.value })} className={`${inputClasses} text-center text-lg`} />
+                  </label>
+                </div>
+
+                {renderTextFields('title')}
+                {!selected.isCategory && renderTextFields('description')}
+
+                <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                  <input type="checkbox" checked={!!selected.disabled} onChange={e => updateSelected({ disabled: e.target.checked || undefined })} />
+                  {t('catalogueAdmin.fields.disabled')}
+                </label>
+
+                {!selected.isCategory && (
+                  <>
+                    <label className={labelClasses}>
+                      {t('catalogueAdmin.fields.category')}
+                      <select
+                        value={selected.category ?? ''}
+                        onChange={e => updateSelected({ category: e.target.value || undefined })}
+                        className={inputClasses}
+                      >
+                        <option value="">{t('catalogueAdmin.noCategory')}</option>
+                        {categories.map(category => (
+                          <option key={category.key} value={category.key}>{category.emoji} {titleOf(category)}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <label className={labelClasses}>
+                      {t('catalogueAdmin.fields.prompt')}
+                      <textarea rows={5} value={selected.prompt ?? ''} onChange={e => updateSelected({ prompt: e.target.value })} className={inputClasses} />
+                    </label>
+
+                    <div className="flex flex-wrap gap-x-6 gap-y-2">
+                      {FLAG_FIELDS.map(field => (
+                        <label key={field} className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+                          <input type="checkbox" checked={!!selected[field]} onChange={e => updateSelected({ [field]: e.target.checked || undefined })} />
+                          {t(`catalogueAdmin.fields.${field}`)}
+                        </label>
+                      ))}
+                    </div>
+
+                    {selected.isTwoStep && (
+                      <label className={labelClasses}>
+                        {t('catalogueAdmin.fields.stepTwoPrompt')}
+                        <textarea rows={3} value={selected.stepTwoPrompt ?? ''} onChange={e => updateSelected({ stepTwoPrompt: e.target.value })} className={inputClasses} />
+                      </label>
+                    )}
+                    {selected.isMultiStepVideo && (
+                      <label className={labelClasses}>
+                        {t('catalogueAdmin.fields.videoPrompt')}
+                        <textarea rows={3} value={selected.videoPrompt ?? ''} onChange={e => updateSelected({ videoPrompt: e.target.value })} className={inputClasses} />
+                      </label>
+                    )}
+
+                    <label className={`${labelClasses} max-w-[12rem]`}>
+                      {t('catalogueAdmin.fields.maxImages')}
+                      <input
+                        type="number"
+                        min={1}
+                        value={selected.maxImages ?? ''}
+                        onChange={e => updateSelected({ maxImages: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined })}
+                        className={inputClasses}
+                      />
+                    </label>
+
+                    {selected.isMultiImage && UPLOADER_FIELDS.map(renderTextFields)}
+
+                    <VariablesField key={selectedIndex} variables={selected.variables} onChange={variables => updateSelected({ variables })} />
+                  </>
+                )}
+
+                {!isBuiltIn(selected.key) && (
+                  <div>
+                    <button onClick={handleDelete} className="py-1 px-3 text-xs font-semibold rounded-md bg-[var(--bg-error)] text-[var(--text-error)] hover:opacity-80 transition-opacity">
+                      {t('catalogueAdmin.delete')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogueAdmin;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import type { FashionAdvice, FashionItem } from '../types';
+import { useTranslation } from '../i18n/context';
+
+interface FashionAdvicePanelProps {
+  advice: FashionAdvice | null;
+  text: string | null; // The raw answer, shown as is when it could not be read as advice
+  isLoading: boolean;
+  error: string | null;
+  onInsert: (items: FashionItem[]) => void;
+}
+
+/**
+ * The outfit stylist's suggestions as chips, grouped into garments and accessories.
+ * Selected chips show their details and can be added to the lookbook description.
+ */
+const FashionAdvicePanel: React.FC<FashionAdvicePanelProps> = ({ advice, text, isLoading, error, onInsert }) => {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [advice]);
+
+  const toggle = (index: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (!next.delete(index)) next.add(index);
+    return next;
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-xs text-center animate-pulse">{t('lookbook.advice.loading')}</p>;
+  }
+  if (error) {
+    return <p className="text-red-400 text-xs text-center" role="alert">{error}</p>;
+  }
+  if (!advice) {
+    return text
+      ? <p className="text-xs text-gray-300 whitespace-pre-line">{text}</p>
+      : <p className="text-gray-500 text-xs text-center">{t('lookbook.advice.empty')}</p>;
+  }
+
+  const indexed = advice.items.map((item, index) => ({ item, index }));
+  const groups = [
+    { titleKey: 'lookbook.advice.outfit', entries: indexed.filter(({ item }) => item.category !== 'accessory') },
+    { titleKey: 'lookbook.advice.accessories', entries: indexed.filter(({ item }) => item.category === 'accessory') },
+  ];
+  const selectedEntries = indexed.filter(({ index }) => selected.has(index));
+
+  return (
+    <div className="flex flex-col gap-3">
+      {advice.summary && <p className="text-xs text-gray-300 italic">{advice.summary}</p>}
+      {groups.map(group => group.entries.length > 0 && (
+        <div key={group.titleKey}>
+          <h4 className="text-xs font-semibold text-gray-400 mb-2">{t(group.titleKey)}</h4>
+          <div className="flex flex-wrap gap-1.5">
+            {group.entries.map(({ item, index }) => (
+              <button
+                key={index}
+                onClick={() => toggle(index)}
+                aria-pressed={selected.has(index)}
+                title={item.reasoning}
+                className={`py-1 px-2.5 rounded-full text-xs border transition-colors ${
+                  selected.has(index) ? 'bg-yellow-400 border-yellow-400 text-black' : 'bg-gray-700 border-gray-600 hover:border-yellow-400'
+                }`}
+              >
+                {item.name}{item.color && <span className="opacity-70"> · {item.color}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {selectedEntries.length > 0 ? (
+        <div className="flex flex-col gap-2">
+          {selectedEntries.map(({ item, index }) => (
+            <div key={index} className="p-2 rounded-lg bg-gray-700/60 text-[11px] text-gray-300">
+              <p className="font-semibold text-gray-100">{item.name}</p>
+              {item.reasoning && <p className="mt-0.5">{item.reasoning}</p>}
+              <div className="flex flex-wrap gap-1 mt-1">
+                {item.occasion && <span className="px-1.5 py-0.5 rounded bg-gray-800 text-yellow-400">{item.occasion}</span>}
+                {item.styleTags.map(tag => (
+                  <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-800">#{tag}</span>
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => onInsert(selectedEntries.map(({ item }) => item))}
+            className="self-end py-1 px-3 text-xs font-semibold rounded-md bg-yellow-400 text-black hover:bg-yellow-300 transition-colors"
+          >
+            {t('lookbook.advice.insert')} ({selectedEntries.length})
+          </button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-500">{t('lookbook.advice.insertHint')}</p>
+      )}
+    </div>
+  );
+};
+
+export default FashionAdvicePanel;
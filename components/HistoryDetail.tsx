@@ -0,0 +1,126 @@
+import React from 'react';
+import type { HistoryEntry, Transformation } from '../types';
+import { useTranslation } from '../i18n/context';
+import { findTransformationByKey } from '../utils/transformationUtils';
+
+interface HistoryDetailProps {
+  entry: HistoryEntry;
+  transformations: Transformation[];
+  onBack: () => void;
+  onRegenerate?: () => void; // Omitted when the entry cannot be re-run
+  onEditAndRegenerate?: () => void;
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-col gap-1">
+    <dt className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">{label}</dt>
+    <dd className="text-sm text-[var(--text-primary)]">{children}</dd>
+  </div>
+);
+
+const Thumbnail: React.FC<{ url: string; label: string }> = ({ url, label }) => (
+  <figure className="flex flex-col gap-1">
+    <img src={url} alt={label} className="rounded-md aspect-square object-contain bg-[var(--bg-primary)] border border-[var(--border-primary)]" />
+    <figcaption className="text-[10px] text-center text-[var(--text-secondary)]">{label}</figcaption>
+  </figure>
+);
+
+const HistoryDetail: React.FC<HistoryDetailProps> = ({ entry, transformations, onBack, onRegenerate, onEditAndRegenerate }) => {
+  const { t, language } = useTranslation();
+  const { meta } = entry;
+  const transformation = meta ? findTransformationByKey(transformations, meta.transformationKey) : null;
+
+  const inputImages: { url: string; label: string }[] = [];
+  if (meta?.inputs.primaryImageUrl) inputImages.push({ url: meta.inputs.primaryImageUrl, label: t('history.detail.primaryImage') });
+  if (meta?.inputs.secondaryImageUrl) inputImages.push({ url: meta.inputs.secondaryImageUrl, label: t('history.detail.secondaryImage') });
+  meta?.inputs.multiImageUrls?.forEach((url, index) => inputImages.push({ url, label: `${t('history.detail.image')} ${index + 1}` }));
+
+  const outputImages: { url: string; label: string }[] = [];
+  if (entry.secondaryImageUrl) outputImages.push({ url: entry.secondaryImageUrl, label: t('history.lineArt') });
+  if (entry.imageUrl) outputImages.push({ url: entry.imageUrl, label: t(entry.secondaryImageUrl ? 'history.finalResult' : 'resultDisplay.labels.generated') });
+
+  return (
+    <div className="flex flex-col gap-4 animate-fade-in-fast">
+      <button
+        onClick={onBack}
+        className="self-start flex items-center gap-1 text-sm text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)] transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+        {t('app.back')}
+      </button>
+
+      <div className="grid grid-cols-2 gap-2">
+        {outputImages.map(image => <Thumbnail key={image.label} url={image.url} label={image.label} />)}
+        {entry.videoUrl && <video src={entry.videoUrl} controls className="col-span-2 rounded-md w-full bg-[var(--bg-primary)]" />}
+      </div>
+
+      {!meta ? (
+        <p className="text-sm text-[var(--text-tertiary)]">{t('history.detail.noMetadata')}</p>
+      ) : (
+        <dl className="flex flex-col gap-3">
+          <DetailRow label={t('history.detail.effect')}>
+            {transformation ? `${transformation.emoji} ${t(transformation.titleKey)}` : meta.transformationKey}
+          </DetailRow>
+          <DetailRow label={t('history.detail.createdAt')}>
+            {new Date(entry.createdAt).toLocaleString(language === 'vi' ? 'vi-VN' : 'en-US')}
+          </DetailRow>
+          <div className="grid grid-cols-2 gap-3">
+            <DetailRow label={t('history.detail.duration')}>{(meta.durationMs / 1000).toFixed(1)} s</DetailRow>
+            <DetailRow label={t('history.detail.model')}>{meta.model} <span className="text-[var(--text-tertiary)]">({meta.provider})</span></DetailRow>
+          </div>
+          {meta.aspectRatio && <DetailRow label={t('history.detail.aspectRatio')}>{meta.aspectRatio}</DetailRow>}
+          <DetailRow label={t('history.detail.prompt')}>
+            <p className="text-xs text-[var(--text-secondary)] bg-[var(--bg-primary)] p-2 rounded-md max-h-40 overflow-y-auto whitespace-pre-wrap">{meta.prompt}</p>
+          </DetailRow>
+          {meta.stepTwoPrompt && (
+            <DetailRow label={t('history.detail.stepTwoPrompt')}>
+              <p className="text-xs text-[var(--text-secondary)] bg-[var(--bg-primary)] p-2 rounded-md max-h-40 overflow-y-auto whitespace-pre-wrap">{meta.stepTwoPrompt}</p>
+            </DetailRow>
+          )}
+          {meta.promptVariables && Object.keys(meta.promptVariables).length > 0 && (
+            <DetailRow label={t('history.detail.variables')}>
+              <ul className="text-xs text-[var(--text-secondary)]">
+                {Object.entries(meta.promptVariables).map(([name, value]) => (
+                  <li key={name}><span className="font-mono text-[var(--text-tertiary)]">{name}</span>: {value}</li>
+                ))}
+              </ul>
+            </DetailRow>
+          )}
+          {inputImages.length > 0 && (
+            <DetailRow label={t('history.detail.inputs')}>
+              <div className="grid grid-cols-3 gap-2">
+                {inputImages.map(image => <Thumbnail key={image.label} url={image.url} label={image.label} />)}
+              </div>
+            </DetailRow>
+          )}
+          {meta.inputs.maskUrl && (
+            <DetailRow label={t('history.detail.mask')}>
+              <div className="grid grid-cols-3 gap-2">
+                <Thumbnail url={meta.inputs.maskUrl} label={t('history.detail.mask')} />
+              </div>
+            </DetailRow>
+          )}
+        </dl>
+      )}
+
+      {onRegenerate && onEditAndRegenerate && (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onEditAndRegenerate}
+            className="py-2 px-3 text-sm font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors"
+          >
+            {t('history.editAndRegenerate')}
+          </button>
+          <button
+            onClick={onRegenerate}
+            className="py-2 px-3 text-sm font-semibold rounded-md bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] transition-colors"
+          >
+            {t('history.regenerate')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryDetail;
@@ -1,15 +1,127 @@
-import React from 'react';
-import type { GeneratedContent } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import type { GeneratedContent, HistoryEntry, Transformation } from '../types';
 import { useTranslation } from '../i18n/context';
+import HistoryDetail from './HistoryDetail';
+import { findTransformationByKey, flattenTransformations } from '../utils/transformationUtils';
+import { matchesHistoryFilter, type HistoryFilter, type HistoryMediaType } from '../services/historyStore';
 
 interface HistoryPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  history: GeneratedContent[];
+  history: HistoryEntry[];
+  transformations: Transformation[];
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  filter: HistoryFilter;
+  onFilterChange: (filter: HistoryFilter) => void;
+  onToggleFavorite: (entry: HistoryEntry) => void;
+  isExporting: boolean;
+  onExport: (selectedIds: string[]) => void; // An empty list exports everything matching the filter
+  isImporting: boolean;
+  onImport: (file: File) => void;
+  notice: string | null;
+  onDismissNotice: () => void;
+  onClearHistory: () => void;
   onUseImage: (imageUrl: string) => void;
   onDownload: (url: string, type: string) => void;
+  onRegenerate: (entry: HistoryEntry) => void;
+  onEditAndRegenerate: (entry: HistoryEntry) => void;
 }
 
+const overlayButtonClasses = "p-1 rounded-full bg-black/50 backdrop-blur-sm text-white hover:bg-[var(--accent-primary)] transition-colors";
+const filterControlClasses = "w-full p-1.5 text-xs bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors";
+
+const MEDIA_TYPES: HistoryMediaType[] = ['image', 'twoStep', 'video'];
+const SEARCH_DEBOUNCE_MS = 300;
+
+// <input type="date"> works with local calendar days, the filter with inclusive timestamps.
+const toDateInputValue = (timestamp?: number): string => {
+    if (timestamp === undefined) return '';
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInputValue = (value: string, endOfDay: boolean): number | undefined => {
+    if (!value) return undefined;
+    return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+};
+
+const isFilterActive = (filter: HistoryFilter) => Object.values(filter).some(value => value !== undefined && value !== '');
+
+const HistoryFilterBar: React.FC<{ filter: HistoryFilter; transformations: Transformation[]; onChange: (filter: HistoryFilter) => void; }> = ({ filter, transformations, onChange }) => {
+    const { t } = useTranslation();
+    const [query, setQuery] = useState(filter.query ?? '');
+
+    // Keep the input in sync when the filter is reset from outside.
+    useEffect(() => {
+        setQuery(filter.query ?? '');
+    }, [filter.query]);
+
+    useEffect(() => {
+        if (query === (filter.query ?? '')) return;
+        const timer = setTimeout(() => onChange({ ...filter, query: query || undefined }), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [query, filter, onChange]);
+
+    return (
+        <div className="px-4 pt-4 flex flex-col gap-2 flex-shrink-0">
+            <input
+                type="search"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder={t('history.filter.search')}
+                className={filterControlClasses}
+            />
+            <div className="grid grid-cols-2 gap-2">
+                <select
+                    value={filter.transformationKey ?? ''}
+                    onChange={e => onChange({ ...filter, transformationKey: e.target.value || undefined })}
+                    className={filterControlClasses}
+                >
+                    <option value="">{t('history.filter.allEffects')}</option>
+                    {flattenTransformations(transformations).map(transformation => (
+                        <option key={transformation.key} value={transformation.key}>{transformation.emoji} {t(transformation.titleKey)}</option>
+                    ))}
+                </select>
+                <select
+                    value={filter.mediaType ?? ''}
+                    onChange={e => onChange({ ...filter, mediaType: (e.target.value || undefined) as HistoryMediaType | undefined })}
+                    className={filterControlClasses}
+                >
+                    <option value="">{t('history.filter.allTypes')}</option>
+                    {MEDIA_TYPES.map(type => <option key={type} value={type}>{t(`history.filter.${type}`)}</option>)}
+                </select>
+                <label className="flex flex-col gap-0.5 text-[10px] text-[var(--text-tertiary)]">
+                    {t('history.filter.from')}
+                    <input
+                        type="date"
+                        value={toDateInputValue(filter.from)}
+                        onChange={e => onChange({ ...filter, from: fromDateInputValue(e.target.value, false) })}
+                        className={filterControlClasses}
+                    />
+                </label>
+                <label className="flex flex-col gap-0.5 text-[10px] text-[var(--text-tertiary)]">
+                    {t('history.filter.to')}
+                    <input
+                        type="date"
+                        value={toDateInputValue(filter.to)}
+                        onChange={e => onChange({ ...filter, to: fromDateInputValue(e.target.value, true) })}
+                        className={filterControlClasses}
+                    />
+                </label>
+            </div>
+            {isFilterActive(filter) && (
+                <button onClick={() => onChange({})} className="self-end text-xs text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)] transition-colors">
+                    {t('history.filter.reset')}
+                </button>
+            )}
+        </div>
+    );
+};
+
 const HistoryItem: React.FC<{ item: GeneratedContent; onUseImage: (url: string) => void; onDownload: (url: string, type: string) => void; }> = ({ item, onUseImage, onDownload }) => {
     const { t } = useTranslation();
     const ActionButton: React.FC<{ onClick: () => void; children: React.ReactNode; isPrimary?: boolean; }> = ({ onClick, children, isPrimary }) => (
@@ -111,8 +223,56 @@ const HistoryItem: React.FC<{ item: GeneratedContent; onUseImage: (url: string)
     );
 };
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, onUseImage, onDownload }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, transformations, hasMore, isLoading, error, onLoadMore, filter, onFilterChange, onToggleFavorite, isExporting, onExport, isImporting, onImport, notice, onDismissNotice, onClearHistory, onUseImage, onDownload, onRegenerate, onEditAndRegenerate }) => {
   const { t } = useTranslation();
+  const [detailEntry, setDetailEntry] = useState<HistoryEntry | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change.
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  useEffect(() => {
+    if (!isOpen) {
+      setIsSelecting(false);
+      setSelectedIds(new Set());
+    }
+  }, [isOpen]);
+
+  const toggleSelecting = () => {
+    setIsSelecting(prev => !prev);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  // Leave the detail view when the panel closes or the entry disappears (e.g. history cleared).
+  useEffect(() => {
+    if (!isOpen || (detailEntry && !history.includes(detailEntry))) {
+      setDetailEntry(null);
+    }
+  }, [isOpen, history, detailEntry]);
+
+  // Only entries with a recorded recipe for a still-existing effect can be re-run.
+  const canRerun = (entry: HistoryEntry) => !!entry.meta && !!findTransformationByKey(transformations, entry.meta.transformationKey);
+
+  // Results created in this session are added to `history` regardless of the filter,
+  // so the filter is applied again here. Favourites are pinned to the top.
+  const visibleHistory = history
+    .filter(item => matchesHistoryFilter(item, !!item.videoUrl, filter))
+    .sort((a, b) => Number(!!b.isFavorite) - Number(!!a.isFavorite));
+
   return (
     <div className={`fixed inset-0 z-40 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
       <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
@@ -120,24 +280,134 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, o
       <div className={`absolute top-0 right-0 h-full w-full max-w-md bg-[var(--bg-card)] border-l border-[var(--border-primary)] shadow-2xl flex flex-col transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
         <div className="p-4 border-b border-[var(--border-primary)] flex justify-between items-center flex-shrink-0">
           <h2 className="text-xl font-semibold text-[var(--accent-primary)]">{t('history.title')}</h2>
-          <button onClick={onClose} className="p-1 rounded-full text-[var(--text-secondary)] hover:bg-[rgba(107,114,128,0.2)] hover:text-[var(--text-primary)] transition-colors">
-             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-2">
+            <input ref={importInputRef} type="file" accept=".zip,.json,application/zip,application/json" onChange={handleImportFileChange} className="hidden" />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              className="py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-secondary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] hover:text-[var(--text-primary)] disabled:cursor-not-allowed disabled:text-[var(--text-disabled)] transition-colors"
+            >
+              {isImporting ? t('history.importing') : t('history.importArchive')}
+            </button>
+            {history.length > 0 && (
+              <>
+                <button
+                  onClick={toggleSelecting}
+                  className="py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-secondary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] hover:text-[var(--text-primary)] transition-colors"
+                >
+                  {t(isSelecting ? 'history.cancelSelection' : 'history.select')}
+                </button>
+                <button
+                  onClick={() => onExport([...selectedIds])}
+                  disabled={isExporting || (isSelecting && selectedIds.size === 0)}
+                  className="py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-secondary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] hover:text-[var(--text-primary)] disabled:cursor-not-allowed disabled:text-[var(--text-disabled)] transition-colors"
+                >
+                  {isExporting ? t('history.exporting') : isSelecting ? `${t('history.export')} (${selectedIds.size})` : t('history.export')}
+                </button>
+                <button
+                  onClick={onClearHistory}
+                  className="py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-secondary)] bg-[rgba(107,114,128,0.2)] hover:bg-[var(--bg-error)] hover:text-[var(--text-error)] transition-colors"
+                >
+                  {t('history.clear')}
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-1 rounded-full text-[var(--text-secondary)] hover:bg-[rgba(107,114,128,0.2)] hover:text-[var(--text-primary)] transition-colors">
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
         </div>
 
+        {!detailEntry && <HistoryFilterBar filter={filter} transformations={transformations} onChange={onFilterChange} />}
+
+        {notice && (
+          <div className="mx-4 mt-4 p-2 bg-[var(--bg-secondary)] border border-[var(--border-primary)] text-[var(--text-secondary)] rounded-lg text-xs flex-shrink-0 flex items-start gap-2 max-h-32 overflow-y-auto" role="status">
+            <span className="flex-grow text-center">{notice}</span>
+            <button onClick={onDismissNotice} aria-label={t('history.dismissNotice')} className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mx-4 mt-4 p-2 bg-[var(--bg-error)] border border-[var(--border-error)] text-[var(--text-error)] rounded-lg text-center text-xs flex-shrink-0 max-h-32 overflow-y-auto whitespace-pre-line" role="alert">
+            {error}
+          </div>
+        )}
+
         <div className="flex-grow overflow-y-auto p-4">
-          {history.length === 0 ? (
+          {detailEntry ? (
+            <HistoryDetail
+              entry={detailEntry}
+              transformations={transformations}
+              onBack={() => setDetailEntry(null)}
+              onRegenerate={canRerun(detailEntry) ? () => onRegenerate(detailEntry) : undefined}
+              onEditAndRegenerate={canRerun(detailEntry) ? () => onEditAndRegenerate(detailEntry) : undefined}
+            />
+          ) : visibleHistory.length === 0 && isLoading ? (
+            <p className="text-center text-[var(--text-tertiary)] pt-10">{t('history.loading')}</p>
+          ) : visibleHistory.length === 0 && isFilterActive(filter) ? (
+            <p className="text-center text-[var(--text-tertiary)] pt-10">{t('history.noMatches')}</p>
+          ) : visibleHistory.length === 0 ? (
             <div className="text-center text-[var(--text-tertiary)] pt-10 flex flex-col items-center gap-4">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="1.5"><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                 <p>{t('history.empty')}</p>
             </div>
           ) : (
              <div className="space-y-4">
-                {history.map((item, index) => (
-                    <HistoryItem key={index} item={item} onUseImage={onUseImage} onDownload={onDownload} />
+                {visibleHistory.map(item => (
+                    <div key={item.id} className="relative">
+                        <HistoryItem item={item} onUseImage={onUseImage} onDownload={onDownload} />
+                        {isSelecting && (
+                            <label className="absolute top-1.5 left-1.5 p-1 rounded-full bg-black/50 backdrop-blur-sm flex cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.has(item.id)}
+                                    onChange={() => toggleSelected(item.id)}
+                                    aria-label={t('history.selectItem')}
+                                    className="h-4 w-4 accent-[var(--accent-primary)] cursor-pointer"
+                                />
+                            </label>
+                        )}
+                        <div className="absolute top-1.5 right-1.5 flex gap-1">
+                            <button
+                                onClick={() => onToggleFavorite(item)}
+                                className={`${overlayButtonClasses} ${item.isFavorite ? 'text-yellow-400' : ''}`}
+                                aria-label={t(item.isFavorite ? 'history.unfavorite' : 'history.favorite')}
+                                aria-pressed={!!item.isFavorite}
+                                title={t(item.isFavorite ? 'history.unfavorite' : 'history.favorite')}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill={item.isFavorite ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={item.isFavorite ? 0 : 1.5}><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                            </button>
+                            {canRerun(item) && (
+                                <>
+                                    <button onClick={() => onRegenerate(item)} className={overlayButtonClasses} aria-label={t('history.regenerate')} title={t('history.regenerate')}>
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" /></svg>
+                                    </button>
+                                    <button onClick={() => onEditAndRegenerate(item)} className={overlayButtonClasses} aria-label={t('history.editAndRegenerate')} title={t('history.editAndRegenerate')}>
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
+                                    </button>
+                                </>
+                            )}
+                            <button onClick={() => setDetailEntry(item)} className={overlayButtonClasses} aria-label={t('history.details')} title={t('history.details')}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" /></svg>
+                            </button>
+                        </div>
+                    </div>
                 ))}
+                {hasMore && (
+                    <button
+                        onClick={onLoadMore}
+                        disabled={isLoading}
+                        className="w-full py-2 text-sm font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] disabled:cursor-not-allowed disabled:text-[var(--text-disabled)] transition-colors"
+                    >
+                        {isLoading ? t('history.loading') : t('history.loadMore')}
+                    </button>
+                )}
             </div>
           )}
         </div>
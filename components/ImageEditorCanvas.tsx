@@ -7,9 +7,10 @@ interface ImageEditorCanvasProps {
   onMaskChange: (dataUrl: string | null) => void;
   onClearImage: () => void;
   isMaskToolActive: boolean;
+  initialMaskUrl?: string | null; // A previously drawn mask to restore once the image loads
 }
 
-const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, initialImageUrl, onMaskChange, onClearImage, isMaskToolActive }) => {
+const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, initialImageUrl, onMaskChange, onClearImage, isMaskToolActive, initialMaskUrl }) => {
   const { t } = useTranslation();
   const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const maskCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -24,6 +25,13 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
 
   const [isDragging, setIsDragging] = useState(false); // For file drop
 
+  // Read through refs so that a mask change alone does not reload the image.
+  const initialMaskUrlRef = useRef(initialMaskUrl);
+  initialMaskUrlRef.current = initialMaskUrl;
+  const onMaskChangeRef = useRef(onMaskChange);
+  onMaskChangeRef.current = onMaskChange;
+  const pendingMaskUrlRef = useRef<string | null>(null);
+
   const getCanvasContexts = useCallback(() => {
     const imageCanvas = imageCanvasRef.current;
     const maskCanvas = maskCanvasRef.current;
@@ -70,8 +78,9 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
     img.onload = () => {
         setImage(img);
         setHistory([]);
+        pendingMaskUrlRef.current = initialMaskUrlRef.current ?? null;
         const { maskCtx, maskCanvas } = getCanvasContexts();
-        if (maskCtx && maskCanvas) {
+        if (maskCtx && maskCanvas && !pendingMaskUrlRef.current) {
             maskCtx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
             onMaskChange(null);
         }
@@ -85,10 +94,23 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
 
   useEffect(() => {
     draw();
+    // Drawing resizes the canvases, so a restored mask can only be painted afterwards.
+    const maskUrl = pendingMaskUrlRef.current;
+    if (image && maskUrl) {
+        pendingMaskUrlRef.current = null;
+        const maskImage = new Image();
+        maskImage.onload = () => {
+            const { maskCtx, maskCanvas } = getCanvasContexts();
+            if (!maskCtx || !maskCanvas) return;
+            maskCtx.drawImage(maskImage, 0, 0, maskCanvas.width, maskCanvas.height);
+            onMaskChangeRef.current(maskCanvas.toDataURL());
+        };
+        maskImage.src = maskUrl;
+    }
     const handleResize = () => draw();
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, [draw, image]);
+  }, [draw, image, getCanvasContexts]);
 
   const saveToHistory = useCallback(() => {
     const { maskCtx, maskCanvas } = getCanvasContexts();
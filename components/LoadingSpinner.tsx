@@ -3,9 +3,10 @@ import { useTranslation } from '../i18n/context';
 
 interface LoadingSpinnerProps {
     message?: string;
+    onCancel?: () => void; // Shows a Cancel button when provided
 }
 
-const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message, onCancel }) => {
   const { t } = useTranslation();
   return (
     <div className="flex flex-col items-center justify-center gap-4 text-[var(--text-primary)]">
@@ -15,6 +16,14 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
         </svg>
         <p className="text-lg font-medium">{message || t('app.loading.default')}</p>
         <p className="text-sm text-[var(--text-secondary)]">{t('app.loading.wait')}</p>
+        {onCancel && (
+            <button
+                onClick={onCancel}
+                className="py-2 px-4 text-sm font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors"
+            >
+                {t('app.loading.cancel')}
+            </button>
+        )}
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import React from 'react';
+import type { MoodboardSettings } from '../types';
+import { useTranslation } from '../i18n/context';
+import MultiImageGridUploader from './MultiImageGridUploader';
+import { MOODBOARD_MAX_COLORS, MOODBOARD_MAX_REFERENCES } from '../utils/moodboard';
+
+interface MoodboardInputsProps {
+  settings: MoodboardSettings;
+  onChange: (settings: MoodboardSettings) => void;
+}
+
+const DEFAULT_NEW_COLOR = '#C8A27A';
+
+const inputClasses = "w-full p-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-1 focus:ring-yellow-400 focus:border-yellow-400 transition-colors placeholder-gray-500 text-xs";
+
+/**
+ * The reference images, palette and keywords a moodboard is made from.
+ */
+const MoodboardInputs: React.FC<MoodboardInputsProps> = ({ settings, onChange }) => {
+  const { t } = useTranslation();
+  const update = (changes: Partial<MoodboardSettings>) => onChange({ ...settings, ...changes });
+
+  const setColor = (index: number, color: string) => {
+    update({ colors: settings.colors.map((current, i) => i === index ? color : current) });
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg flex flex-col gap-4">
+      <div>
+        <h3 className="font-semibold mb-1">{t('lookbook.moodboard.references')}</h3>
+        <p className="text-xs text-gray-400 mb-2">{t('lookbook.moodboard.referencesHint')}</p>
+        <MultiImageGridUploader
+          imageUrls={settings.referenceUrls}
+          onImagesChange={referenceUrls => update({ referenceUrls })}
+          maxImages={MOODBOARD_MAX_REFERENCES}
+        />
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">{t('lookbook.moodboard.palette')}</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {settings.colors.map((color, index) => (
+            <div key={index} className="relative group">
+              <input
+                type="color"
+                value={color}
+                onChange={e => setColor(index, e.target.value)}
+                className="h-9 w-9 p-0.5 bg-gray-700 border border-gray-600 rounded-full cursor-pointer"
+                aria-label={`${t('lookbook.moodboard.color')} ${index + 1}`}
+              />
+              <button
+                onClick={() => update({ colors: settings.colors.filter((_, i) => i !== index) })}
+                className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-gray-900 text-gray-300 text-[10px] leading-4 opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={t('lookbook.moodboard.removeColor')}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {settings.colors.length < MOODBOARD_MAX_COLORS && (
+            <button
+              onClick={() => update({ colors: [...settings.colors, DEFAULT_NEW_COLOR] })}
+              className="h-9 px-3 rounded-full border border-dashed border-gray-500 text-xs text-gray-300 hover:border-yellow-400 transition-colors"
+            >
+              + {t('lookbook.moodboard.addColor')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-xs font-semibold">
+          {t('lookbook.moodboard.title')}
+          <input
+            type="text"
+            value={settings.title}
+            onChange={e => update({ title: e.target.value })}
+            placeholder={t('lookbook.moodboard.titlePlaceholder')}
+            className={inputClasses}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold">
+          {t('lookbook.moodboard.keywords')}
+          <input
+            type="text"
+            value={settings.keywords}
+            onChange={e => update({ keywords: e.target.value })}
+            placeholder={t('lookbook.moodboard.keywordsPlaceholder')}
+            className={inputClasses}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MoodboardInputs;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import type { CustomPreset, ImageAspectRatio } from '../types';
+import { useTranslation } from '../i18n/context';
+
+interface PresetEditorProps {
+  preset: CustomPreset | null; // Null while closed
+  isNew: boolean;
+  onSave: (preset: CustomPreset) => void;
+  onClose: () => void;
+}
+
+const ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+const inputClasses = "w-full p-2 text-sm bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md text-[var(--text-primary)] focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]";
+const labelClasses = "flex flex-col gap-1 text-xs font-semibold text-[var(--text-secondary)]";
+
+const PresetEditor: React.FC<PresetEditorProps> = ({ preset, isNew, onSave, onClose }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<CustomPreset | null>(preset);
+
+  useEffect(() => {
+    setDraft(preset);
+  }, [preset]);
+
+  if (!draft) return null;
+
+  const update = (changes: Partial<CustomPreset>) => setDraft({ ...draft, ...changes });
+  const isValid = !!draft.title.trim() && !!draft.prompt.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    const role = draft.secondaryImageRole?.trim();
+    onSave({
+      ...draft,
+      title: draft.title.trim(),
+      emoji: draft.emoji.trim() || '⭐',
+      prompt: draft.prompt.trim(),
+      secondaryImageRole: role || undefined,
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in-fast" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg bg-[var(--bg-card)] border border-[var(--border-primary)] rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+      >
+        <h2 className="text-xl font-semibold text-[var(--accent-primary)]">{t(isNew ? 'presets.editor.titleNew' : 'presets.editor.titleEdit')}</h2>
+
+        <div className="grid grid-cols-[5rem_1fr] gap-3">
+          <label className={labelClasses}>
+            {t('presets.editor.emoji')}
+            <input type="text" value={draft.emoji} onChange={e => update({ emoji: e.target.value })} className={`${inputClasses} text-center text-lg`} />
+          </label>
+          <label className={labelClasses}>
+            {t('presets.editor.name')}
+            <input
+              type="text"
+              value={draft.title}
+              onChange={e => update({ title: e.target.value })}
+              placeholder={t('presets.editor.namePlaceholder')}
+              className={inputClasses}
+              autoFocus
+            />
+          </label>
+        </div>
+
+        <label className={labelClasses}>
+          {t('presets.editor.prompt')}
+          <textarea rows={4} value={draft.prompt} onChange={e => update({ prompt: e.target.value })} className={inputClasses} />
+        </label>
+
+        <label className={labelClasses}>
+          {t('presets.editor.secondaryImageRole')}
+          <input
+            type="text"
+            value={draft.secondaryImageRole ?? ''}
+            onChange={e => update({ secondaryImageRole: e.target.value })}
+            placeholder={t('presets.editor.secondaryImageRolePlaceholder')}
+            className={inputClasses}
+          />
+          <span className="font-normal text-[var(--text-tertiary)]">{t('presets.editor.secondaryImageRoleHint')}</span>
+        </label>
+
+        <div className={labelClasses}>
+          {t('presets.editor.aspectRatio')}
+          <div className="grid grid-cols-5 gap-2">
+            {ASPECT_RATIOS.map(ratio => (
+              <button
+                key={ratio}
+                type="button"
+                onClick={() => update({ aspectRatio: ratio })}
+                className={`py-2 px-3 text-xs font-semibold rounded-md transition-colors duration-200 ${
+                  draft.aspectRatio === ratio ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]' : 'text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)]'
+                }`}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button type="button" onClick={onClose} className="py-2 px-4 text-sm font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors">
+            {t('presets.editor.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="py-2 px-4 text-sm font-semibold rounded-md bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('presets.editor.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PresetEditor;
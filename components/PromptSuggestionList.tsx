@@ -0,0 +1,53 @@
+import React from 'react';
+import type { PromptSuggestion } from '../types';
+import { useTranslation } from '../i18n/context';
+
+interface PromptSuggestionListProps {
+  suggestions: PromptSuggestion[];
+  isLoading: boolean;
+  error: string | null;
+  currentPrompt: string; // The lookbook description, to mark the suggestion it came from
+  onPick: (prompt: string) => void;
+}
+
+/**
+ * The lookbook descriptions written by Suggest Prompt. Picking one replaces the
+ * description, which stays editable.
+ */
+const PromptSuggestionList: React.FC<PromptSuggestionListProps> = ({ suggestions, isLoading, error, currentPrompt, onPick }) => {
+  const { t } = useTranslation();
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-xs text-center animate-pulse">{t('lookbook.promptSuggestions.loading')}</p>;
+  }
+  if (error) {
+    return <p className="text-red-400 text-xs text-center" role="alert">{error}</p>;
+  }
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-[10px] text-gray-500">{t('lookbook.promptSuggestions.hint')}</p>
+      {suggestions.map((suggestion, index) => {
+        const isPicked = suggestion.prompt === currentPrompt;
+        return (
+          <button
+            key={index}
+            onClick={() => onPick(suggestion.prompt)}
+            aria-pressed={isPicked}
+            className={`text-left p-2 rounded-lg border text-[11px] transition-colors ${
+              isPicked ? 'bg-gray-700 border-yellow-400' : 'bg-gray-700/60 border-gray-600 hover:border-yellow-400'
+            }`}
+          >
+            <span className="block font-semibold text-gray-100 mb-0.5">
+              {suggestion.title || `${t('lookbook.promptSuggestions.untitled')} ${index + 1}`}
+            </span>
+            <span className="block text-gray-300 line-clamp-3">{suggestion.prompt}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptSuggestionList;
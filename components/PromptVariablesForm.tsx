@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { PromptVariable } from '../types';
+import { useTranslation } from '../i18n/context';
+import type { PromptVariableError } from '../utils/promptTemplate';
+
+interface PromptVariablesFormProps {
+  variables: PromptVariable[];
+  values: Record<string, string>;
+  errors: PromptVariableError[];
+  onChange: (name: string, value: string) => void;
+}
+
+const textInputClasses = "w-full p-2 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-1 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]";
+const labelClasses = "block text-xs font-medium text-[var(--text-secondary)] mb-1";
+
+/**
+ * The inputs for a transformation's prompt variables, one per variable type.
+ * Errors are shown once the user has left a field.
+ */
+const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({ variables, values, errors, onChange }) => {
+  const { t } = useTranslation();
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+
+  const markTouched = (name: string) => setTouched(prev => new Set(prev).add(name));
+
+  const renderInput = (variable: PromptVariable) => {
+    const id = `prompt-variable-${variable.name}`;
+    const value = values[variable.name] ?? '';
+    const common = {
+      id,
+      onBlur: () => markTouched(variable.name),
+      'aria-required': variable.required,
+    };
+
+    switch (variable.type) {
+      case 'select':
+        return (
+          <select {...common} value={value} onChange={e => onChange(variable.name, e.target.value)} className={textInputClasses}>
+            {!variable.required && <option value="">—</option>}
+            {variable.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.labelKey ? t(option.labelKey) : option.value}</option>
+            ))}
+          </select>
+        );
+      case 'color':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={/^#[0-9a-fA-F]{6}$/.test(value) ? value : '#000000'}
+              onChange={e => onChange(variable.name, e.target.value)}
+              className="h-10 w-12 p-1 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg cursor-pointer"
+              aria-label={t(variable.labelKey)}
+            />
+            <input {...common} type="text" value={value} onChange={e => onChange(variable.name, e.target.value)} placeholder="#RRGGBB" className={textInputClasses} />
+          </div>
+        );
+      case 'number':
+        return (
+          <input
+            {...common}
+            type="number"
+            value={value}
+            min={variable.min}
+            max={variable.max}
+            step={variable.integer ? 1 : 'any'}
+            onChange={e => onChange(variable.name, e.target.value)}
+            placeholder={variable.placeholder}
+            className={textInputClasses}
+          />
+        );
+      case 'text':
+        return (
+          <input
+            {...common}
+            type="text"
+            value={value}
+            maxLength={variable.maxLength}
+            onChange={e => onChange(variable.name, e.target.value)}
+            placeholder={variable.placeholder}
+            className={textInputClasses}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3 mt-2">
+      {variables.map(variable => {
+        const error = touched.has(variable.name) ? errors.find(item => item.name === variable.name) : undefined;
+        return (
+          <div key={variable.name}>
+            <label htmlFor={`prompt-variable-${variable.name}`} className={labelClasses}>
+              {t(variable.labelKey)}{variable.required && <span className="text-[var(--accent-primary)]"> *</span>}
+            </label>
+            {renderInput(variable)}
+            {error && (
+              <p className="mt-1 text-xs text-[var(--text-error)]">
+                {t(error.messageKey)}{error.limit !== undefined && ` ${error.limit}`}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptVariablesForm;
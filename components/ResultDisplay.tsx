@@ -355,6 +355,15 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
         )}
       </div>
 
+      {content.qrCheck && (
+        <p
+          className={`w-full text-center text-sm p-3 rounded-md mt-4 ${content.qrCheck === 'match' ? 'text-[var(--text-secondary)] bg-[var(--bg-secondary)]' : 'text-[var(--text-error)] bg-[var(--bg-error)] border border-[var(--border-error)]'}`}
+          role={content.qrCheck === 'match' ? undefined : 'alert'}
+        >
+          {t(`resultDisplay.qrCheck.${content.qrCheck}`)}
+        </p>
+      )}
+
       {content.text && (
         <p className="w-full text-center text-[var(--text-secondary)] bg-[var(--bg-secondary)] p-3 rounded-md italic mt-4">
           "{content.text}"
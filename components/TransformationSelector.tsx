@@ -9,6 +9,9 @@ interface TransformationSelectorProps {
   onOrderChange: (newOrder: Transformation[]) => void;
   activeCategory: Transformation | null;
   setActiveCategory: (category: Transformation | null) => void;
+  presets: Transformation[]; // The user's own presets, listed under "My presets"
+  onEditPreset: (presetId: string) => void;
+  onDeletePreset: (presetId: string) => void;
 }
 
 const TransformationSelector: React.FC<TransformationSelectorProps> = ({ 
@@ -17,7 +20,10 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
   hasPreviousResult, 
   onOrderChange, 
   activeCategory, 
-  setActiveCategory 
+  setActiveCategory,
+  presets,
+  onEditPreset,
+  onDeletePreset
 }) => {
   const { t } = useTranslation();
   const dragItemIndex = useRef<number | null>(null);
@@ -86,6 +92,39 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
     </div>
   );
 
+  const presetActionClasses = "p-1.5 rounded-md bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border border-[var(--border-primary)] transition-colors";
+
+  const renderPresets = () => (
+    <section className="mb-10">
+      <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-4">{t('presets.sectionTitle')}</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        {presets.map(preset => (
+          <div key={preset.key} className="relative group">
+            <button
+              onClick={() => onSelect(preset)}
+              className="w-full flex flex-col items-center justify-center text-center p-4 aspect-square bg-[var(--bg-card)] rounded-xl border border-dashed border-[var(--accent-primary)] hover:border-solid transition-all duration-200 ease-in-out transform hover:-translate-y-1 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[var(--bg-primary)] focus:ring-[var(--accent-primary)]"
+            >
+              <span className="text-4xl mb-2 transition-transform duration-200 group-hover:scale-110">{preset.emoji}</span>
+              <span className="font-semibold text-sm text-[var(--text-primary)]">{t(preset.titleKey)}</span>
+            </button>
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button onClick={() => onEditPreset(preset.presetId!)} className={presetActionClasses} aria-label={t('presets.edit')} title={t('presets.edit')}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                </svg>
+              </button>
+              <button onClick={() => onDeletePreset(preset.presetId!)} className={presetActionClasses} aria-label={t('presets.delete')} title={t('presets.delete')}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+
   return (
     <div className="container mx-auto p-4 md:p-8 animate-fade-in">
       {!activeCategory ? (
@@ -97,6 +136,7 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
               : t('transformationSelector.description')
             }
           </p>
+          {presets.length > 0 && renderPresets()}
           {renderGrid(transformations)}
         </>
       ) : (
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { UsageKind, UsageSnapshot } from '../types';
+import { useTranslation } from '../i18n/context';
+
+interface UsageMeterProps {
+  usage: UsageSnapshot | null;
+}
+
+const KINDS: UsageKind[] = ['imageEdits', 'textToImage', 'videoSeconds'];
+
+// Share of the daily limit after which a meter turns red.
+const WARNING_RATIO = 0.8;
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ usage }) => {
+  const { t } = useTranslation();
+
+  if (!usage) return null;
+
+  const describe = (kind: UsageKind) => {
+    const limit = usage.limits[kind];
+    return `${t(`usage.${kind}`)}: ${usage.used[kind]} / ${limit ?? t('usage.unlimited')}`;
+  };
+  const title = [t('usage.title'), ...KINDS.map(describe), t('usage.resets')].join('\n');
+
+  return (
+    <div className="hidden md:flex items-center gap-3 py-1 px-3 rounded-md bg-[rgba(107,114,128,0.2)]" title={title} aria-label={title}>
+      {KINDS.map(kind => {
+        const used = usage.used[kind];
+        const limit = usage.limits[kind];
+        const ratio = limit === undefined ? 0 : limit === 0 ? 1 : Math.min(1, used / limit);
+        return (
+          <div key={kind} className="flex flex-col gap-1 min-w-[4.5rem]">
+            <div className="flex items-baseline justify-between gap-2 text-xs">
+              <span className="text-[var(--text-secondary)]">{t(`usage.${kind}`)}</span>
+              <span className="font-semibold text-[var(--text-primary)]">
+                {used}{limit !== undefined && <span className="font-normal text-[var(--text-secondary)]">/{limit}</span>}
+              </span>
+            </div>
+            {limit !== undefined && (
+              <div className="h-1 w-full rounded-full bg-[rgba(107,114,128,0.3)] overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${ratio >= WARNING_RATIO ? 'bg-red-500' : 'bg-[var(--accent-primary)]'}`}
+                  style={{ width: `${ratio * 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Transformation } from '../types';
+import { useTranslation } from '../i18n/context';
+import type { VideoJob, VideoJobStatus } from '../services/videoJobs';
+import { findTransformationByKey } from '../utils/transformationUtils';
+
+interface VideoJobsTrayProps {
+  jobs: VideoJob[];
+  transformations: Transformation[];
+  onView: (job: VideoJob) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_CLASSES: Record<VideoJobStatus, string> = {
+  running: 'bg-[var(--accent-primary)] text-[var(--text-on-accent)] animate-pulse',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-[var(--bg-error)] text-[var(--text-error)]',
+};
+
+const smallButtonClasses = "py-1 px-2 text-xs font-semibold rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] transition-colors";
+
+const VideoJobsTray: React.FC<VideoJobsTrayProps> = ({ jobs, transformations, onView, onDismiss, onClearFinished }) => {
+  const { t, language } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const runningCount = jobs.filter(job => job.status === 'running').length;
+  const hasFinished = jobs.some(job => job.status !== 'running');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  // Keeps the elapsed times of running jobs current while the tray is open.
+  useEffect(() => {
+    if (!isOpen || runningCount === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, [isOpen, runningCount]);
+
+  if (jobs.length === 0) return null;
+
+  const getTitle = (job: VideoJob) => {
+    const transformation = findTransformationByKey(transformations, job.meta.transformationKey);
+    return transformation ? t(transformation.titleKey) : job.meta.transformationKey;
+  };
+
+  const formatMinutes = (ms: number) => `${Math.max(1, Math.round(ms / 60000))} ${t('videoJobs.minutes')}`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="relative flex items-center gap-2 py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+        aria-label={t('videoJobs.title')}
+        aria-expanded={isOpen}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 ${runningCount > 0 ? 'animate-pulse' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+          <path d="M2 6a2 2 0 012-2h6a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V6zM14.553 7.106A1 1 0 0014 8v4a1 1 0 00.553.894l2 1A1 1 0 0018 13V7a1 1 0 00-1.447-.894l-2 1z" />
+        </svg>
+        <span className="hidden sm:inline">{t('videoJobs.title')}</span>
+        {runningCount > 0 && (
+          <span className="min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-bold rounded-full bg-[var(--accent-primary)] text-[var(--text-on-accent)]">{runningCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] flex flex-col bg-[var(--bg-card)] border border-[var(--border-primary)] rounded-xl shadow-2xl z-30">
+          <div className="flex items-center justify-between p-3 border-b border-[var(--border-primary)]">
+            <h3 className="text-sm font-bold text-[var(--accent-primary)]">{t('videoJobs.title')}</h3>
+            {hasFinished && (
+              <button onClick={onClearFinished} className="text-xs font-semibold text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
+                {t('videoJobs.clearFinished')}
+              </button>
+            )}
+          </div>
+          <ul className="overflow-y-auto divide-y divide-[var(--border-primary)]">
+            {jobs.map(job => (
+              <li key={job.id} className="flex gap-3 p-3">
+                {job.originalImageUrl ? (
+                  <img src={job.originalImageUrl} alt="" className="w-12 h-12 object-cover rounded-md flex-shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 flex items-center justify-center rounded-md bg-[var(--bg-secondary)] text-xl flex-shrink-0">🎬</div>
+                )}
+                <div className="flex-grow min-w-0 flex flex-col gap-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-[var(--text-primary)] truncate" title={job.meta.prompt}>{getTitle(job)}</p>
+                    <span className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded-full flex-shrink-0 ${STATUS_CLASSES[job.status]}`}>
+                      {t(`videoJobs.status.${job.status}`)}
+                    </span>
+                  </div>
+                  <p className="text-[10px] text-[var(--text-tertiary)]">
+                    {new Date(job.createdAt).toLocaleTimeString(language === 'vi' ? 'vi-VN' : 'en-US', { hour: '2-digit', minute: '2-digit' })}
+                    {' · '}
+                    {formatMinutes((job.finishedAt ?? now) - job.createdAt)}
+                  </p>
+                  {job.error && <p className="text-[10px] text-[var(--text-error)] line-clamp-3" title={job.error}>{job.error}</p>}
+                  <div className="flex gap-1">
+                    {job.status === 'done' && job.historyEntryId && (
+                      <button onClick={() => { onView(job); setIsOpen(false); }} className={smallButtonClasses}>
+                        {t('videoJobs.view')}
+                      </button>
+                    )}
+                    <button onClick={() => onDismiss(job.id)} className={smallButtonClasses} title={job.status === 'running' ? t('videoJobs.stopTrackingHint') : undefined}>
+                      {t(job.status === 'running' ? 'videoJobs.stopTracking' : 'videoJobs.dismiss')}
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="p-3 text-[10px] text-[var(--text-tertiary)] border-t border-[var(--border-primary)]">{t('videoJobs.hint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoJobsTray;
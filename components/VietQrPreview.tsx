@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from '../i18n/context';
+import { createVietQrImage } from '../utils/vietQr';
+
+interface VietQrPreviewProps {
+  values: Record<string, string>; // The effect's bank variables
+  isValid: boolean; // Nothing is rendered until the variables pass validation
+}
+
+/**
+ * Shows the VietQR code that will be placed in the picture, so it can be scanned and
+ * checked before generating.
+ */
+const VietQrPreview: React.FC<VietQrPreviewProps> = ({ values, isValid }) => {
+  const { t } = useTranslation();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isValid) {
+      setImageUrl(null);
+      setError(null);
+      return;
+    }
+    let isCurrent = true;
+    createVietQrImage(values)
+      .then(url => {
+        if (!isCurrent) return;
+        setImageUrl(url);
+        setError(null);
+      })
+      .catch(err => {
+        if (!isCurrent) return;
+        setImageUrl(null);
+        setError(err instanceof Error ? err.message : t('app.error.unknown'));
+      });
+    return () => { isCurrent = false; };
+  }, [values, isValid]);
+
+  if (error) {
+    return <p className="mt-3 text-xs text-[var(--text-error)]">{error}</p>;
+  }
+  if (!imageUrl) return null;
+
+  return (
+    <div className="mt-4 flex items-center gap-4">
+      <img src={imageUrl} alt={t('vietQr.previewAlt')} className="w-28 h-28 rounded-lg bg-white p-1 border border-[var(--border-primary)]" />
+      <p className="text-xs text-[var(--text-secondary)]">{t('vietQr.previewHint')}</p>
+    </div>
+  );
+};
+
+export default VietQrPreview;
@@ -1,4 +1,5 @@
 import type { Transformation } from './types';
+import { VIET_QR_BANKS } from './utils/vietQr';
 
 export const TRANSFORMATIONS: Transformation[] = [
   // Prioritized items as requested by the user
@@ -8,11 +9,18 @@ export const TRANSFORMATIONS: Transformation[] = [
     prompt: "Create a fun and playful, high-detail 3D chibi character in a Pixar animation style, based on the person in the first image. The character should have a joyful expression and be holding a large, prominent white square sign. Perfectly place the QR code from the second image onto this sign, making sure it's large and clear. The scene should have soft, professional studio lighting against a warm, vertical wooden plank background. In the bottom-left corner, display the following information directly on the image in a clean, white, sans-serif font. Add a very subtle drop shadow to the text for readability. Each item should be on a new line:\nBank: {{bankName}}\nName: {{accountName}}\nAccount: {{accountNumber}}\nBranch: {{branch}}",
     emoji: "💳",
     descriptionKey: "transformations.effects.chibiQrCode.description",
-    isMultiImage: true,
-    primaryUploaderTitle: "transformations.effects.chibiQrCode.uploader1Title",
-    primaryUploaderDescription: "transformations.effects.chibiQrCode.uploader1Desc",
-    secondaryUploaderTitle: "transformations.effects.chibiQrCode.uploader2Title",
-    secondaryUploaderDescription: "transformations.effects.chibiQrCode.uploader2Desc",
+    usesVietQr: true,
+    variables: [
+      {
+        name: "bankName", type: "select", labelKey: "transformations.effects.chibiQrCode.bankName", required: true, format: "uppercaseAscii",
+        options: VIET_QR_BANKS.map(bank => ({ value: bank.name })),
+      },
+      { name: "accountName", type: "text", labelKey: "transformations.effects.chibiQrCode.accountName", placeholder: "e.g., NGUYEN VAN A", required: true, maxLength: 60, format: "uppercaseAscii" },
+      { name: "accountNumber", type: "text", labelKey: "transformations.effects.chibiQrCode.accountNumber", placeholder: "e.g., 0123456789", required: true, pattern: "[0-9A-Za-z]{4,19}" },
+      { name: "branch", type: "text", labelKey: "transformations.effects.chibiQrCode.branch", placeholder: "e.g., PGD BINH TAN", required: true, maxLength: 60, format: "uppercaseAscii" },
+      { name: "amount", type: "number", labelKey: "transformations.effects.chibiQrCode.amount", placeholder: "e.g., 50000", min: 1000, max: 9999999999999, integer: true },
+      { name: "memo", type: "text", labelKey: "transformations.effects.chibiQrCode.memo", placeholder: "e.g., Coffee", maxLength: 50 },
+    ],
   },
   {
     key: "outfitStylist",
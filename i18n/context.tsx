@@ -1,17 +1,42 @@
-import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
 import en from './en';
 import vi from './zh';
 
-type Language = 'en' | 'vi';
+export type Language = 'en' | 'vi';
 
 const translations = { en, vi };
 
+/**
+ * Translations loaded at runtime (e.g. for effects from the catalogue or user presets), by language.
+ */
+export type ExtraTranslations = Partial<Record<Language, Record<string, unknown>>>;
+
 interface LanguageContextType {
   language: Language;
   changeLanguage: (lang: Language) => void;
   t: (key: string) => string;
+  /**
+   * Replaces the runtime translations from one source (e.g. 'catalogue'). They are
+   * looked up before the built-in ones.
+   */
+  setExtraTranslations: (source: string, extra: ExtraTranslations) => void;
 }
 
+const lookup = (tree: unknown, keys: string[]): string | undefined => {
+  let result: any = tree;
+  for (const k of keys) {
+    result = result?.[k];
+    if (result === undefined) return undefined;
+  }
+  return typeof result === 'string' && result ? result : undefined;
+};
+
+/**
+ * Resolves a dotted key in a translation tree.
+ * @returns The text, or undefined when the key is missing or empty.
+ */
+export const lookupTranslation = (tree: unknown, key: string): string | undefined => lookup(tree, key.split('.'));
+
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -32,29 +57,29 @@ export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   }, [language]);
 
+  const [extraSources, setExtraSources] = useState<Record<string, ExtraTranslations>>({});
+
+  const setExtraTranslations = useCallback((source: string, extra: ExtraTranslations) => {
+    setExtraSources(prev => ({ ...prev, [source]: extra }));
+  }, []);
+
   const changeLanguage = (lang: Language) => {
     setLanguage(lang);
   };
 
   const t = (key: string): string => {
     const keys = key.split('.');
-    let result: any = translations[language];
-    for (const k of keys) {
-      result = result?.[k];
-      if (result === undefined) {
-        // Fallback to English if key not found in current language
-        let fallbackResult: any = translations['en'];
-        for (const fk of keys) {
-            fallbackResult = fallbackResult?.[fk];
-        }
-        return fallbackResult || key;
-      }
-    }
-    return result || key;
+    const lookupExtra = (lang: Language) => Object.values(extraSources).reduce<string | undefined>((found, extra) => found ?? lookup(extra[lang], keys), undefined);
+    // Fallback to English if key not found in current language
+    return lookupExtra(language)
+      ?? lookup(translations[language], keys)
+      ?? lookupExtra('en')
+      ?? lookup(translations.en, keys)
+      ?? key;
   };
 
   return (
-    <LanguageContext.Provider value={{ language, changeLanguage, t }}>
+    <LanguageContext.Provider value={{ language, changeLanguage, t, setExtraTranslations }}>
       {children}
     </LanguageContext.Provider>
   );
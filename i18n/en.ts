@@ -2,6 +2,9 @@ export default {
   app: {
     title: "X Studio - Future Photo Lab",
     history: "History",
+    logout: "Sign out",
+    signedInAs: "Signed in as",
+    batch: "Batch",
     back: "Back",
     chooseAnotherEffect: "Choose Another Effect",
     generateImage: "Generate",
@@ -16,11 +19,12 @@ export default {
       uploadAndSelect: "Please upload an image and select an effect.",
       uploadOne: "Please upload at least one image.",
       uploadBoth: "Please upload both required images.",
-      fillAllFields: "Please upload both images and fill in all bank details.",
+      fillVariables: "Please fill in every field correctly before generating.",
       enterPrompt: "Please enter a prompt describing the change you want to see.",
       unknown: "An unknown error occurred.",
       useAsInputFailed: "Could not use the generated image as a new input.",
       selectOneToAnimate: "Please select an image to animate.",
+      restoreFailed: "This history item cannot be restored because its effect is no longer available.",
     },
     loading: {
       step1: "Step 1: Creating line art...",
@@ -29,14 +33,30 @@ export default {
       wait: "This can sometimes take a moment.",
       videoInit: "Initializing video generation...",
       videoPolling: "Processing video, this may take a few minutes...",
-      videoFetching: "Finalizing and fetching your video...",
       generatingOptions: "Generating image options...",
+      moodboardTiles: "Generating moodboard tiles...",
+      moodboardCompose: "Composing your moodboard...",
+      queued: "Waiting for a free slot, position in queue",
+      retrying: "The service is busy, retrying in",
+      qrRetry: "The QR code in the result did not scan correctly, retrying",
+      cancel: "Cancel",
     },
     theme: {
         switchToLight: "Switch to light theme",
         switchToDark: "Switch to dark theme"
     }
   },
+  login: {
+    subtitle: "Sign in to continue",
+    usernameLabel: "Username",
+    usernamePlaceholder: "Your username",
+    passwordLabel: "Password",
+    passwordPlaceholder: "Your password",
+    button: "Sign in",
+    signingIn: "Signing in...",
+    checking: "Checking your session...",
+    error: "Incorrect username or password.",
+  },
   lookbook: {
     title: "Outfit Coordination Tool",
     moodboardTab: "Create Moodboard",
@@ -46,17 +66,45 @@ export default {
     askAi: "Ask AI: 'What to wear today?'",
     askAiPlaceholder: "Example: I'm going to a wedding this weekend...",
     suggestOutfit: "Suggest Outfit",
-    accessories: "Outfits & Accessories (AI suggestions will appear here)",
+    accessories: "Outfits & Accessories",
     lookbookDescription: "Describe the lookbook you want to create in detail...",
     suggestPrompt: "Suggest Prompt",
     numImages: "Number of images",
     aspectRatio: "Aspect ratio",
     quality: "Output quality",
     qualityStandard: "Standard",
-    qualityHigh: "2K - 4K (High)",
-    qualityUltra: "8K (Ultra)",
+    qualityHigh: "2K (High)",
+    qualityUltra: "4K (Ultra)",
+    upscaleHint: "Above Standard, the images are upscaled in your browser into large PNG files; this adds size, not new detail.",
     createImage: "Create image",
-    reset: "Reset"
+    reset: "Reset",
+    moodboard: {
+      references: "Reference images",
+      referencesHint: "Outfits, places, textures: anything that sets the mood. They also appear on the moodboard.",
+      palette: "Colour palette",
+      color: "Colour",
+      addColor: "Add colour",
+      removeColor: "Remove colour",
+      title: "Title",
+      titlePlaceholder: "e.g. Summer in Hoi An",
+      keywords: "Keywords",
+      keywordsPlaceholder: "e.g. linen, sunset, relaxed",
+    },
+    advice: {
+      loading: "The stylist is looking at your photo...",
+      empty: "Upload a character image and click Suggest Outfit to get ideas here.",
+      needImage: "Please upload a character image first.",
+      outfit: "Outfit",
+      accessories: "Accessories",
+      insert: "Add to the lookbook description",
+      insertHint: "Select items to see why they were suggested and add them to the lookbook description.",
+    },
+    promptSuggestions: {
+      loading: "Writing prompt ideas from your photo and settings...",
+      hint: "Pick a suggestion to use it as the description, then edit it as you like.",
+      untitled: "Suggestion",
+      empty: "No prompt ideas came back. Please try again.",
+    },
   },
   transformationSelector: {
     title: "Let's Get Creative!",
@@ -95,7 +143,158 @@ export default {
     },
     sliderPicker: {
       vs: "vs"
-    }
+    },
+    qrCheck: {
+      match: "✓ The QR code in this image was scanned and matches your account.",
+      unreadable: "⚠ The QR code in this image cannot be scanned. Do not print or share it; try generating again.",
+      mismatch: "⚠ The QR code in this image scans to different payment details than yours. Do not print or share it; try generating again.",
+    },
+  },
+  batch: {
+    title: "Batch Processing",
+    description: "Apply one effect to many photos at once. Results are also saved to history.",
+    effect: "Effect",
+    chooseEffect: "Choose an effect...",
+    concurrency: "Parallel requests",
+    start: "Start",
+    pause: "Pause",
+    resume: "Resume",
+    cancel: "Cancel",
+    paused: "Paused",
+    retry: "Retry",
+    retryFailed: "Retry failed",
+    clear: "Clear",
+    remove: "Remove",
+    attempt: "attempt",
+    dropPhotos: "Drop photos here or click to choose",
+    status: {
+      queued: "Queued",
+      running: "Processing",
+      done: "Done",
+      failed: "Failed",
+      cancelled: "Cancelled",
+    },
+  },
+  videoJobs: {
+    title: "Videos",
+    started: "Your video is rendering in the background. Keep editing; it will appear under Videos and in your history when it is ready.",
+    minutes: "min",
+    view: "View",
+    dismiss: "Dismiss",
+    stopTracking: "Stop tracking",
+    stopTrackingHint: "Stops following this job. The video is not saved when it finishes.",
+    clearFinished: "Clear finished",
+    hint: "Videos keep rendering while you edit, and resume tracking after a reload.",
+    status: {
+      running: "Rendering",
+      done: "Ready",
+      failed: "Failed",
+    },
+    error: {
+      missing: "This video is no longer in your history.",
+    },
+  },
+  presets: {
+    sectionTitle: "My presets",
+    saveAsPreset: "Save as preset",
+    edit: "Edit preset",
+    delete: "Delete preset",
+    deleteConfirm: "Delete this preset? This cannot be undone.",
+    editor: {
+      titleNew: "Save as preset",
+      titleEdit: "Edit preset",
+      emoji: "Emoji",
+      name: "Name",
+      namePlaceholder: "e.g. Summer lookbook cover",
+      prompt: "Prompt",
+      secondaryImageRole: "Second image role (optional)",
+      secondaryImageRolePlaceholder: "e.g. Logo, Product, Background",
+      secondaryImageRoleHint: "Shown as the title of the second uploader. Leave empty for a single-image preset.",
+      aspectRatio: "Aspect ratio (when no image is uploaded)",
+      save: "Save preset",
+      cancel: "Cancel",
+    },
+  },
+  catalogueAdmin: {
+    title: "Effects Catalogue",
+    description: "Add, edit, hide and reorder effects for everyone. Changes apply as soon as you save.",
+    button: "Catalogue",
+    usingBuiltIn: "No catalogue has been saved yet; you are editing the built-in effects.",
+    newEffect: "New effect",
+    newCategory: "New category",
+    category: "Category",
+    noCategory: "None (top level)",
+    disabled: "Hidden",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    delete: "Delete",
+    save: "Save catalogue",
+    saving: "Saving...",
+    saved: "Catalogue saved.",
+    close: "Close",
+    selectEntry: "Select an effect or category to edit it.",
+    unsavedChanges: "You have unsaved changes.",
+    discardConfirm: "Discard your unsaved catalogue changes?",
+    resetToBuiltIn: "Reset to built-in",
+    resetConfirm: "Replace the draft with the built-in effects? Nothing is saved until you click Save.",
+    keyHint: "Letters, digits, - and _. Cannot be changed after saving.",
+    variablesHint: 'A list like [{"name": "bankName", "type": "text", "label": {"en": "Bank", "vi": "Ngân hàng"}, "required": true}]. Use them in the prompt as {{bankName}}.',
+    languages: {
+      en: "English",
+      vi: "Vietnamese",
+    },
+    fields: {
+      key: "Key",
+      emoji: "Emoji",
+      title: "Title",
+      description: "Description",
+      category: "Category",
+      prompt: "Prompt",
+      stepTwoPrompt: "Step 2 prompt",
+      videoPrompt: "Video prompt",
+      maxImages: "Max. images (multi-photo upload)",
+      disabled: "Hide this entry from the app",
+      isMultiImage: "Two input images",
+      isSecondaryOptional: "Second image optional",
+      isTwoStep: "Two-step generation",
+      isVideo: "Video",
+      isMultiStepVideo: "Image, then video",
+      usesVietQr: "VietQR code from the bank variables as second image",
+      primaryUploaderTitle: "First image title",
+      primaryUploaderDescription: "First image hint",
+      secondaryUploaderTitle: "Second image title",
+      secondaryUploaderDescription: "Second image hint",
+      variables: "Prompt variables (JSON)",
+    },
+    error: {
+      categoryNotEmpty: "Move or delete the effects in this category first.",
+      invalidVariables: "This is not a valid JSON list yet; the last valid version is kept.",
+    },
+  },
+  usage: {
+    title: "Today's usage",
+    imageEdits: "Edits",
+    textToImage: "Images",
+    videoSeconds: "Video (s)",
+    unlimited: "no limit",
+    resets: "Limits reset at midnight.",
+  },
+  promptVariables: {
+    error: {
+      required: "This field is required.",
+      number: "Please enter a number.",
+      integer: "Please enter a whole number.",
+      min: "Must be at least",
+      max: "Must be at most",
+      option: "Please choose one of the options.",
+      color: "Please enter a colour like #FF8800.",
+      maxLength: "Too long, the limit is",
+      pattern: "This value is not in the expected format.",
+    },
+  },
+  vietQr: {
+    previewAlt: "VietQR code for your account",
+    previewHint: "This QR code is made from the details above and placed in the picture. Scan it with your banking app to check it before generating.",
   },
   history: {
     title: "Generation History",
@@ -105,6 +304,67 @@ export default {
     lineArt: "Line Art",
     finalResult: "Final Result",
     outfitAdvice: "Outfit Advice",
+    clear: "Clear",
+    clearConfirm: "Delete all saved history? This cannot be undone.",
+    loadMore: "Load more",
+    regenerate: "Regenerate",
+    editAndRegenerate: "Edit & regenerate",
+    details: "Details",
+    loading: "Loading history...",
+    favorite: "Add to favourites",
+    unfavorite: "Remove from favourites",
+    noMatches: "No history matches these filters.",
+    select: "Select",
+    cancelSelection: "Cancel",
+    selectItem: "Select for export",
+    export: "Export",
+    exporting: "Exporting...",
+    importArchive: "Import",
+    importing: "Importing...",
+    evicted: "Browser storage was full, so the oldest entries (not favourites) were removed to make room",
+    unknownEffect: "Unknown effect",
+    dismissNotice: "Dismiss",
+    import: {
+      added: "Imported",
+      duplicates: "Already in history",
+    },
+    filter: {
+      search: "Search prompts...",
+      allEffects: "All effects",
+      allTypes: "All types",
+      image: "Image",
+      video: "Video",
+      twoStep: "Two-step",
+      from: "From",
+      to: "To",
+      reset: "Reset filters",
+    },
+    error: {
+      quota: "Browser storage is full, so this result could not be saved to history. Favourites are never removed automatically: clear some history or unstar favourites to free up space.",
+      save: "This result could not be saved to history.",
+      load: "Could not load saved history.",
+      clear: "Could not clear history.",
+      favorite: "Could not update favourites.",
+      export: "Could not export history.",
+      import: "Could not import the archive.",
+      importRejected: "Some entries were corrupt and were skipped:",
+    },
+    detail: {
+      effect: "Effect",
+      createdAt: "Created",
+      duration: "Duration",
+      model: "Model",
+      aspectRatio: "Aspect ratio",
+      prompt: "Prompt",
+      stepTwoPrompt: "Step 2 prompt",
+      variables: "Details entered",
+      inputs: "Input images",
+      mask: "Mask",
+      primaryImage: "Primary",
+      secondaryImage: "Secondary",
+      image: "Image",
+      noMetadata: "This item was created before generation details were recorded.",
+    },
   },
   error: {
     title: "An Error Occurred"
@@ -128,15 +388,13 @@ export default {
     effects: {
       chibiQrCode: {
         title: "Chibi Bank QR Code",
-        description: "Create a cute chibi character holding your bank QR code. Upload your portrait and QR code, then fill in your details.",
-        uploader1Title: "Portrait Photo",
-        uploader1Desc: "Your face or character",
-        uploader2Title: "Bank QR Code",
-        uploader2Desc: "Your QR payment code",
+        description: "Create a cute chibi character holding a QR code for your bank account. Upload your portrait and fill in your details; the QR code is made for you.",
         bankName: "Bank Name",
         accountName: "Account Name",
         accountNumber: "Account Number",
         branch: "Branch",
+        amount: "Amount (VND, optional)",
+        memo: "Transfer note (optional)",
       },
       outfitStylist: {
         title: "Outfit Coordination",
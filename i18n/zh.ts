@@ -2,6 +2,9 @@ export default {
   app: {
     title: "X Studio - Tiệm ảnh tương lai",
     history: "Lịch sử",
+    logout: "Đăng xuất",
+    signedInAs: "Đã đăng nhập với tên",
+    batch: "Hàng loạt",
     back: "Quay lại",
     chooseAnotherEffect: "Chọn hiệu ứng khác",
     generateImage: "Tạo",
@@ -16,11 +19,12 @@ export default {
       uploadAndSelect: "Vui lòng tải ảnh lên và chọn một hiệu ứng.",
       uploadOne: "Vui lòng tải lên ít nhất một ảnh.",
       uploadBoth: "Vui lòng tải lên cả hai ảnh được yêu cầu.",
-      fillAllFields: "Vui lòng tải lên cả hai ảnh và điền đầy đủ thông tin ngân hàng.",
+      fillVariables: "Vui lòng điền đúng tất cả các trường trước khi tạo.",
       enterPrompt: "Vui lòng nhập lời nhắc mô tả thay đổi bạn muốn thấy.",
       unknown: "Đã xảy ra lỗi không xác định.",
       useAsInputFailed: "Không thể sử dụng ảnh đã tạo làm đầu vào mới.",
       selectOneToAnimate: "Vui lòng chọn một ảnh để tạo hoạt ảnh.",
+      restoreFailed: "Không thể khôi phục mục lịch sử này vì hiệu ứng của nó không còn nữa.",
     },
     loading: {
         step1: "Bước 1: Tạo bản vẽ đường nét...",
@@ -29,14 +33,30 @@ export default {
         wait: "Đôi khi việc này có thể mất một chút thời gian.",
         videoInit: "Đang khởi tạo quá trình tạo video...",
         videoPolling: "Đang xử lý video, có thể mất vài phút...",
-        videoFetching: "Đang hoàn tất và lấy video của bạn...",
         generatingOptions: "Đang tạo các tùy chọn hình ảnh...",
+        moodboardTiles: "Đang tạo các ô ảnh cho moodboard...",
+        moodboardCompose: "Đang ghép moodboard của bạn...",
+        queued: "Đang chờ lượt, vị trí trong hàng đợi",
+        retrying: "Dịch vụ đang bận, thử lại sau",
+        qrRetry: "Mã QR trong kết quả không quét đúng, đang thử lại",
+        cancel: "Hủy",
     },
     theme: {
         switchToLight: "Chuyển sang giao diện sáng",
         switchToDark: "Chuyển sang giao diện tối"
     }
   },
+  login: {
+    subtitle: "Đăng nhập để tiếp tục",
+    usernameLabel: "Tên đăng nhập",
+    usernamePlaceholder: "Tên đăng nhập của bạn",
+    passwordLabel: "Mật khẩu",
+    passwordPlaceholder: "Mật khẩu của bạn",
+    button: "Đăng nhập",
+    signingIn: "Đang đăng nhập...",
+    checking: "Đang kiểm tra phiên đăng nhập...",
+    error: "Sai tên đăng nhập hoặc mật khẩu.",
+  },
   lookbook: {
     title: "Công cụ phối đồ",
     moodboardTab: "Tạo Moodboard",
@@ -46,17 +66,45 @@ export default {
     askAi: "Hỏi AI: 'Hôm nay mặc gì?'",
     askAiPlaceholder: "Ví dụ: Tôi đi đám cưới cuối tuần...",
     suggestOutfit: "Gợi ý trang phục",
-    accessories: "Trang phục & Phụ kiện (ảnh do AI gợi ý sẽ hiện ở đây)",
+    accessories: "Trang phục & Phụ kiện",
     lookbookDescription: "Mô tả chi tiết lookbook bạn muốn tạo...",
     suggestPrompt: "Gợi ý Prompt",
     numImages: "Số lượng ảnh",
     aspectRatio: "Tỷ lệ khung hình",
     quality: "Chất lượng đầu ra",
     qualityStandard: "Standard",
-    qualityHigh: "2K - 4K (High)",
-    qualityUltra: "8K (Ultra)",
+    qualityHigh: "2K (High)",
+    qualityUltra: "4K (Ultra)",
+    upscaleHint: "Trên mức Standard, ảnh được phóng to trong trình duyệt thành tệp PNG lớn; ảnh lớn hơn nhưng không thêm chi tiết mới.",
     createImage: "Tạo ảnh",
-    reset: "Làm lại"
+    reset: "Làm lại",
+    moodboard: {
+      references: "Ảnh tham khảo",
+      referencesHint: "Trang phục, địa điểm, chất liệu: bất cứ thứ gì tạo nên cảm hứng. Chúng cũng được đặt lên moodboard.",
+      palette: "Bảng màu",
+      color: "Màu",
+      addColor: "Thêm màu",
+      removeColor: "Xóa màu",
+      title: "Tiêu đề",
+      titlePlaceholder: "VD: Mùa hè ở Hội An",
+      keywords: "Từ khóa",
+      keywordsPlaceholder: "VD: vải lanh, hoàng hôn, thư thái",
+    },
+    advice: {
+      loading: "Nhà tạo mẫu đang xem ảnh của bạn...",
+      empty: "Tải lên ảnh nhân vật và nhấn Gợi ý trang phục để nhận ý tưởng tại đây.",
+      needImage: "Vui lòng tải lên ảnh nhân vật trước.",
+      outfit: "Trang phục",
+      accessories: "Phụ kiện",
+      insert: "Thêm vào mô tả lookbook",
+      insertHint: "Chọn các món để xem lý do được gợi ý và thêm chúng vào mô tả lookbook.",
+    },
+    promptSuggestions: {
+      loading: "Đang viết gợi ý mô tả từ ảnh và cài đặt của bạn...",
+      hint: "Chọn một gợi ý để dùng làm mô tả, sau đó chỉnh sửa tùy ý.",
+      untitled: "Gợi ý",
+      empty: "Không nhận được gợi ý mô tả nào. Vui lòng thử lại.",
+    },
   },
   transformationSelector: {
     title: "Sáng tạo nào!",
@@ -95,7 +143,158 @@ export default {
     },
     sliderPicker: {
       vs: "so với"
-    }
+    },
+    qrCheck: {
+      match: "✓ Mã QR trong ảnh này đã được quét và khớp với tài khoản của bạn.",
+      unreadable: "⚠ Không thể quét mã QR trong ảnh này. Đừng in hoặc chia sẻ; hãy thử tạo lại.",
+      mismatch: "⚠ Mã QR trong ảnh này dẫn đến thông tin thanh toán khác với của bạn. Đừng in hoặc chia sẻ; hãy thử tạo lại.",
+    },
+  },
+  batch: {
+    title: "Xử lý hàng loạt",
+    description: "Áp dụng một hiệu ứng cho nhiều ảnh cùng lúc. Kết quả cũng được lưu vào lịch sử.",
+    effect: "Hiệu ứng",
+    chooseEffect: "Chọn một hiệu ứng...",
+    concurrency: "Số yêu cầu song song",
+    start: "Bắt đầu",
+    pause: "Tạm dừng",
+    resume: "Tiếp tục",
+    cancel: "Hủy",
+    paused: "Đã tạm dừng",
+    retry: "Thử lại",
+    retryFailed: "Thử lại mục lỗi",
+    clear: "Xóa",
+    remove: "Gỡ bỏ",
+    attempt: "lần thử",
+    dropPhotos: "Thả ảnh vào đây hoặc bấm để chọn",
+    status: {
+      queued: "Đang chờ",
+      running: "Đang xử lý",
+      done: "Xong",
+      failed: "Lỗi",
+      cancelled: "Đã hủy",
+    },
+  },
+  videoJobs: {
+    title: "Video",
+    started: "Video của bạn đang được tạo trong nền. Bạn có thể tiếp tục chỉnh sửa; video sẽ xuất hiện trong mục Video và lịch sử khi hoàn tất.",
+    minutes: "phút",
+    view: "Xem",
+    dismiss: "Ẩn",
+    stopTracking: "Ngừng theo dõi",
+    stopTrackingHint: "Ngừng theo dõi tác vụ này. Video sẽ không được lưu khi hoàn tất.",
+    clearFinished: "Xóa mục đã xong",
+    hint: "Video tiếp tục được tạo khi bạn chỉnh sửa và được theo dõi lại sau khi tải lại trang.",
+    status: {
+      running: "Đang tạo",
+      done: "Sẵn sàng",
+      failed: "Thất bại",
+    },
+    error: {
+      missing: "Video này không còn trong lịch sử của bạn.",
+    },
+  },
+  presets: {
+    sectionTitle: "Mẫu của tôi",
+    saveAsPreset: "Lưu thành mẫu",
+    edit: "Sửa mẫu",
+    delete: "Xóa mẫu",
+    deleteConfirm: "Xóa mẫu này? Không thể hoàn tác.",
+    editor: {
+      titleNew: "Lưu thành mẫu",
+      titleEdit: "Sửa mẫu",
+      emoji: "Biểu tượng",
+      name: "Tên",
+      namePlaceholder: "VD: Ảnh bìa lookbook mùa hè",
+      prompt: "Câu lệnh",
+      secondaryImageRole: "Vai trò ảnh thứ hai (không bắt buộc)",
+      secondaryImageRolePlaceholder: "VD: Logo, Sản phẩm, Phông nền",
+      secondaryImageRoleHint: "Hiển thị làm tiêu đề ô tải ảnh thứ hai. Để trống nếu mẫu chỉ dùng một ảnh.",
+      aspectRatio: "Tỷ lệ khung hình (khi không tải ảnh lên)",
+      save: "Lưu mẫu",
+      cancel: "Hủy",
+    },
+  },
+  catalogueAdmin: {
+    title: "Danh mục hiệu ứng",
+    description: "Thêm, sửa, ẩn và sắp xếp hiệu ứng cho mọi người. Thay đổi có hiệu lực ngay khi lưu.",
+    button: "Danh mục",
+    usingBuiltIn: "Chưa có danh mục nào được lưu; bạn đang chỉnh sửa các hiệu ứng có sẵn.",
+    newEffect: "Hiệu ứng mới",
+    newCategory: "Nhóm mới",
+    category: "Nhóm",
+    noCategory: "Không (cấp trên cùng)",
+    disabled: "Đã ẩn",
+    moveUp: "Lên trên",
+    moveDown: "Xuống dưới",
+    delete: "Xóa",
+    save: "Lưu danh mục",
+    saving: "Đang lưu...",
+    saved: "Đã lưu danh mục.",
+    close: "Đóng",
+    selectEntry: "Chọn một hiệu ứng hoặc nhóm để chỉnh sửa.",
+    unsavedChanges: "Bạn có thay đổi chưa được lưu.",
+    discardConfirm: "Bỏ các thay đổi danh mục chưa lưu?",
+    resetToBuiltIn: "Khôi phục mặc định",
+    resetConfirm: "Thay bản nháp bằng các hiệu ứng có sẵn? Chưa có gì được lưu cho đến khi bạn bấm Lưu.",
+    keyHint: "Chữ cái, chữ số, - và _. Không thể đổi sau khi lưu.",
+    variablesHint: 'Một danh sách như [{"name": "bankName", "type": "text", "label": {"en": "Bank", "vi": "Ngân hàng"}, "required": true}]. Dùng trong lời nhắc dưới dạng {{bankName}}.',
+    languages: {
+      en: "Tiếng Anh",
+      vi: "Tiếng Việt",
+    },
+    fields: {
+      key: "Mã",
+      emoji: "Biểu tượng",
+      title: "Tiêu đề",
+      description: "Mô tả",
+      category: "Nhóm",
+      prompt: "Câu lệnh",
+      stepTwoPrompt: "Câu lệnh bước 2",
+      videoPrompt: "Câu lệnh video",
+      maxImages: "Số ảnh tối đa (tải nhiều ảnh)",
+      disabled: "Ẩn mục này khỏi ứng dụng",
+      isMultiImage: "Hai ảnh đầu vào",
+      isSecondaryOptional: "Ảnh thứ hai không bắt buộc",
+      isTwoStep: "Tạo ảnh hai bước",
+      isVideo: "Video",
+      isMultiStepVideo: "Tạo ảnh rồi video",
+      usesVietQr: "Mã VietQR tạo từ biến ngân hàng làm ảnh thứ hai",
+      primaryUploaderTitle: "Tiêu đề ảnh thứ nhất",
+      primaryUploaderDescription: "Gợi ý ảnh thứ nhất",
+      secondaryUploaderTitle: "Tiêu đề ảnh thứ hai",
+      secondaryUploaderDescription: "Gợi ý ảnh thứ hai",
+      variables: "Biến lời nhắc (JSON)",
+    },
+    error: {
+      categoryNotEmpty: "Hãy chuyển hoặc xóa các hiệu ứng trong nhóm này trước.",
+      invalidVariables: "Đây chưa phải danh sách JSON hợp lệ; phiên bản hợp lệ gần nhất được giữ lại.",
+    },
+  },
+  usage: {
+    title: "Mức sử dụng hôm nay",
+    imageEdits: "Chỉnh sửa",
+    textToImage: "Ảnh",
+    videoSeconds: "Video (giây)",
+    unlimited: "không giới hạn",
+    resets: "Hạn mức được đặt lại lúc nửa đêm.",
+  },
+  promptVariables: {
+    error: {
+      required: "Trường này là bắt buộc.",
+      number: "Vui lòng nhập một số.",
+      integer: "Vui lòng nhập số nguyên.",
+      min: "Phải ít nhất là",
+      max: "Không được vượt quá",
+      option: "Vui lòng chọn một trong các tùy chọn.",
+      color: "Vui lòng nhập màu dạng #FF8800.",
+      maxLength: "Quá dài, giới hạn là",
+      pattern: "Giá trị này không đúng định dạng.",
+    },
+  },
+  vietQr: {
+    previewAlt: "Mã VietQR cho tài khoản của bạn",
+    previewHint: "Mã QR này được tạo từ thông tin ở trên và được đặt vào ảnh. Hãy quét bằng ứng dụng ngân hàng để kiểm tra trước khi tạo.",
   },
   history: {
     title: "Lịch sử tạo ảnh",
@@ -105,6 +304,67 @@ export default {
     lineArt: "Bản vẽ nét",
     finalResult: "Kết quả cuối cùng",
     outfitAdvice: "Tư vấn trang phục",
+    clear: "Xóa",
+    clearConfirm: "Xóa toàn bộ lịch sử đã lưu? Không thể hoàn tác thao tác này.",
+    loadMore: "Tải thêm",
+    regenerate: "Tạo lại",
+    editAndRegenerate: "Chỉnh sửa & tạo lại",
+    details: "Chi tiết",
+    loading: "Đang tải lịch sử...",
+    favorite: "Thêm vào yêu thích",
+    unfavorite: "Bỏ khỏi yêu thích",
+    noMatches: "Không có mục lịch sử nào khớp với bộ lọc.",
+    select: "Chọn",
+    cancelSelection: "Hủy",
+    selectItem: "Chọn để xuất",
+    export: "Xuất",
+    exporting: "Đang xuất...",
+    importArchive: "Nhập",
+    importing: "Đang nhập...",
+    evicted: "Bộ nhớ trình duyệt đã đầy nên các mục cũ nhất (không phải mục yêu thích) đã bị xóa để có chỗ trống",
+    unknownEffect: "Hiệu ứng không xác định",
+    dismissNotice: "Đóng",
+    import: {
+      added: "Đã nhập",
+      duplicates: "Đã có trong lịch sử",
+    },
+    filter: {
+      search: "Tìm theo prompt...",
+      allEffects: "Tất cả hiệu ứng",
+      allTypes: "Tất cả loại",
+      image: "Ảnh",
+      video: "Video",
+      twoStep: "Hai bước",
+      from: "Từ ngày",
+      to: "Đến ngày",
+      reset: "Xóa bộ lọc",
+    },
+    error: {
+      quota: "Bộ nhớ trình duyệt đã đầy nên không thể lưu kết quả này vào lịch sử. Mục yêu thích không bao giờ bị tự động xóa: hãy xóa bớt lịch sử hoặc bỏ yêu thích để giải phóng dung lượng.",
+      save: "Không thể lưu kết quả này vào lịch sử.",
+      load: "Không thể tải lịch sử đã lưu.",
+      clear: "Không thể xóa lịch sử.",
+      favorite: "Không thể cập nhật mục yêu thích.",
+      export: "Không thể xuất lịch sử.",
+      import: "Không thể nhập tệp lưu trữ.",
+      importRejected: "Một số mục bị hỏng và đã bị bỏ qua:",
+    },
+    detail: {
+      effect: "Hiệu ứng",
+      createdAt: "Thời gian tạo",
+      duration: "Thời lượng",
+      model: "Mô hình",
+      aspectRatio: "Tỷ lệ khung hình",
+      prompt: "Lời nhắc",
+      stepTwoPrompt: "Lời nhắc bước 2",
+      variables: "Thông tin đã nhập",
+      inputs: "Ảnh đầu vào",
+      mask: "Vùng chọn",
+      primaryImage: "Ảnh chính",
+      secondaryImage: "Ảnh phụ",
+      image: "Ảnh",
+      noMetadata: "Mục này được tạo trước khi ứng dụng ghi lại chi tiết tạo ảnh.",
+    },
   },
   error: {
     title: "Đã xảy ra lỗi"
@@ -128,15 +388,13 @@ export default {
     effects: {
       chibiQrCode: {
         title: "Tạo ảnh QR Chibi",
-        description: "Tạo nhân vật chibi dễ thương cầm mã QR ngân hàng của bạn. Tải lên ảnh chân dung, mã QR và điền thông tin chi tiết.",
-        uploader1Title: "Ảnh chân dung",
-        uploader1Desc: "Ảnh mặt hoặc nhân vật",
-        uploader2Title: "Mã QR Ngân hàng",
-        uploader2Desc: "Mã QR thanh toán",
+        description: "Tạo nhân vật chibi dễ thương cầm mã QR tài khoản ngân hàng của bạn. Tải lên ảnh chân dung và điền thông tin; mã QR sẽ được tạo tự động.",
         bankName: "Tên Ngân hàng",
         accountName: "Tên Tài khoản",
         accountNumber: "Số Tài khoản",
         branch: "Chi nhánh",
+        amount: "Số tiền (VND, không bắt buộc)",
+        memo: "Nội dung chuyển khoản (không bắt buộc)",
       },
       outfitStylist: {
         title: "Phối đồ thời trang",
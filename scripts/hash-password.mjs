@@ -0,0 +1,12 @@
+// Prints a users-file entry for server/auth.ts: node scripts/hash-password.mjs <username> <password>
+import { randomBytes, scryptSync } from 'node:crypto';
+
+const [username, password] = process.argv.slice(2);
+if (!username || !password) {
+    console.error("Usage: npm run hash-password -- <username> <password>");
+    process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+console.log(JSON.stringify({ username, passwordHash: `scrypt:${salt.toString('hex')}:${key.toString('hex')}` }, null, 2));
@@ -0,0 +1,44 @@
+import path from 'node:path';
+import type { Connect, Plugin } from 'vite';
+import { createAuth } from './auth';
+import { createCatalogueApi } from './catalogue';
+import { createGeminiProxy } from './geminiProxy';
+import { createUsageTracker, parseLimit } from './usage';
+import { createVideoOwnerRegistry } from './videoOwners';
+
+/**
+ * Mounts the API server (sign-in, the effects catalogue and the Gemini proxy) on the
+ * Vite dev server and on `vite preview`, so both run in Node next to the app.
+ * @param env Variables loaded from the `.env` files.
+ */
+export const apiServerPlugin = (env: Record<string, string>): Plugin => {
+    const auth = createAuth({
+        usersFile: path.resolve(env.AUTH_USERS_FILE || 'users.json'),
+        secret: env.AUTH_SECRET,
+    });
+    const usage = createUsageTracker({
+        file: path.resolve(env.USAGE_FILE || 'usage.json'),
+        limits: {
+            imageEdits: parseLimit(env.QUOTA_IMAGE_EDITS_PER_DAY),
+            textToImage: parseLimit(env.QUOTA_TEXT_TO_IMAGE_PER_DAY),
+            videoSeconds: parseLimit(env.QUOTA_VIDEO_SECONDS_PER_DAY),
+        },
+    });
+    const videoOwners = createVideoOwnerRegistry(path.resolve(env.VIDEO_OWNERS_FILE || 'videos.json'));
+    const proxy = createGeminiProxy(env.GEMINI_API_KEY, auth.authenticate, usage, videoOwners);
+    const catalogue = createCatalogueApi({
+        file: path.resolve(env.CATALOGUE_FILE || 'catalogue.json'),
+        authenticate: auth.authenticate,
+        isAdmin: auth.isAdmin,
+    });
+    const mount = (middlewares: Connect.Server) => {
+        middlewares.use(auth.middleware);
+        middlewares.use(catalogue);
+        middlewares.use(proxy);
+    };
+    return {
+        name: 'api-server',
+        configureServer: server => mount(server.middlewares),
+        configurePreviewServer: server => mount(server.middlewares),
+    };
+};
@@ -0,0 +1,188 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect } from 'vite';
+import { AUTH_BASE_PATH } from '../services/apiContract';
+import { ApiError } from '../services/apiErrors';
+import { readJsonBody, sendError, sendJson } from './http';
+
+const SESSION_COOKIE = 'xs_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * One entry of the users file. `passwordHash` has the form `scrypt:<salt hex>:<key hex>`,
+ * as printed by `npm run hash-password` (scripts/hash-password.mjs).
+ */
+interface UserRecord {
+    username: string;
+    passwordHash: string;
+    isAdmin?: boolean; // May edit the effects catalogue
+}
+
+interface SessionPayload {
+    sub: string; // Username
+    exp: number; // Epoch milliseconds
+    pwd: string; // Fingerprint of the password hash it was issued for
+}
+
+export interface AuthOptions {
+    usersFile: string;
+    /** Signs session tokens. Without one, a random secret is used and sessions end when the server restarts. */
+    secret?: string;
+}
+
+export interface Auth {
+    middleware: Connect.NextHandleFunction;
+    /**
+     * Checks the session against the users file on every call, so removing a user or
+     * changing their password ends their sessions at once.
+     * @returns The signed-in username, or null if the request carries no valid session.
+     */
+    authenticate: (req: IncomingMessage) => Promise<string | null>;
+    /** Reads the users file on every call, so granting or revoking admin needs no restart. */
+    isAdmin: (username: string) => Promise<boolean>;
+}
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key));
+    });
+};
+
+const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+    const [scheme, saltHex, keyHex] = passwordHash.split(':');
+    if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+    const expected = Buffer.from(keyHex, 'hex');
+    const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const loadUsers = async (usersFile: string): Promise<UserRecord[]> => {
+    let raw: string;
+    try {
+        raw = await readFile(usersFile, 'utf8');
+    } catch {
+        throw new ApiError(`No users are configured. Create ${usersFile} as described in the README.`, { status: 503 });
+    }
+    const parsed = JSON.parse(raw);
+    const users: unknown = Array.isArray(parsed) ? parsed : parsed?.users;
+    if (!Array.isArray(users)) {
+        throw new ApiError(`${usersFile} must contain a list of users.`, { status: 503 });
+    }
+    return users.filter((user): user is UserRecord => typeof user?.username === 'string' && typeof user?.passwordHash === 'string');
+};
+
+const readCookie = (req: IncomingMessage, name: string): string | null => {
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return null;
+};
+
+const setSessionCookie = (res: ServerResponse, token: string, maxAgeMs: number) => {
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${Math.floor(maxAgeMs / 1000)}`);
+};
+
+/**
+ * Creates the login endpoints under `AUTH_BASE_PATH` and a check for other endpoints to
+ * call. Sessions are signed tokens kept in an HttpOnly cookie, so they survive reloads
+ * without page scripts ever seeing them.
+ */
+export const createAuth = (options: AuthOptions): Auth => {
+    const secret = options.secret || randomBytes(32).toString('hex');
+    // Logged-out tokens, until they would have expired anyway.
+    const revoked = new Map<string, number>();
+
+    const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+    // Keyed with the secret, so the token does not reveal anything about the hash.
+    const fingerprint = (passwordHash: string) => sign(`password:${passwordHash}`).slice(0, 22);
+
+    const issueToken = (user: UserRecord): { token: string; expiresAt: number } => {
+        const expiresAt = Date.now() + SESSION_TTL_MS;
+        const session: SessionPayload = { sub: user.username, exp: expiresAt, pwd: fingerprint(user.passwordHash) };
+        const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+        return { token: `${payload}.${sign(payload)}`, expiresAt };
+    };
+
+    const verifyToken = (token: string | null): SessionPayload | null => {
+        if (!token || revoked.has(token)) return null;
+        const [payload, signature] = token.split('.');
+        if (!payload || !signature) return null;
+        const expected = Buffer.from(sign(payload));
+        const actual = Buffer.from(signature);
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+        try {
+            const session: SessionPayload = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+            return typeof session.sub === 'string' && typeof session.pwd === 'string' && session.exp > Date.now() ? session : null;
+        } catch {
+            return null;
+        }
+    };
+
+    /**
+     * @returns The session and its user, or null if the token is invalid, or the user has
+     * been removed or has changed password since it was issued.
+     */
+    const checkSession = async (token: string | null): Promise<{ session: SessionPayload; user: UserRecord } | null> => {
+        const session = verifyToken(token);
+        if (!session) return null;
+        const user = (await loadUsers(options.usersFile)).find(item => item.username === session.sub);
+        return user && fingerprint(user.passwordHash) === session.pwd ? { session, user } : null;
+    };
+
+    const authenticate = async (req: IncomingMessage) => (await checkSession(readCookie(req, SESSION_COOKIE)))?.user.username ?? null;
+
+    const isAdmin = async (username: string) => {
+        const users = await loadUsers(options.usersFile);
+        return users.some(user => user.username === username && user.isAdmin === true);
+    };
+
+    const middleware: Connect.NextHandleFunction = async (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (!url.pathname.startsWith(`${AUTH_BASE_PATH}/`)) return next();
+
+        try {
+            const route = `${req.method} ${url.pathname.slice(AUTH_BASE_PATH.length)}`;
+            switch (route) {
+                case 'POST /login': {
+                    const body = await readJsonBody(req);
+                    const username = typeof body.username === 'string' ? body.username.trim() : '';
+                    const password = typeof body.password === 'string' ? body.password : '';
+                    const user = (await loadUsers(options.usersFile)).find(item => item.username === username);
+                    // Hash even for unknown users, so response times do not reveal which usernames exist.
+                    const isValid = await verifyPassword(password, user?.passwordHash ?? 'scrypt:00:00');
+                    if (!user || !isValid) {
+                        throw new ApiError("Incorrect username or password.", { status: 401 });
+                    }
+                    const { token, expiresAt } = issueToken(user);
+                    setSessionCookie(res, token, SESSION_TTL_MS);
+                    return sendJson(res, 200, { username: user.username, expiresAt, isAdmin: user.isAdmin === true });
+                }
+                case 'GET /session': {
+                    const current = await checkSession(readCookie(req, SESSION_COOKIE));
+                    if (!current) {
+                        throw new ApiError("Not signed in.", { status: 401 });
+                    }
+                    return sendJson(res, 200, { username: current.user.username, expiresAt: current.session.exp, isAdmin: current.user.isAdmin === true });
+                }
+                case 'POST /logout': {
+                    const token = readCookie(req, SESSION_COOKIE);
+                    const session = verifyToken(token);
+                    if (token && session) revoked.set(token, session.exp);
+                    revoked.forEach((expiresAt, key) => expiresAt < Date.now() && revoked.delete(key));
+                    setSessionCookie(res, '', 0);
+                    return sendJson(res, 200, {});
+                }
+                default:
+                    throw new ApiError(`Unknown auth endpoint: ${route}`, { status: 404 });
+            }
+        } catch (error) {
+            sendError(res, error);
+        }
+    };
+
+    return { middleware, authenticate, isAdmin };
+};
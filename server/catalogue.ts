@@ -0,0 +1,204 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { IncomingMessage } from 'node:http';
+import type { Connect } from 'vite';
+import type { Catalogue, CatalogueEntry, CataloguePromptVariable, LocalizedText, PromptVariableType } from '../types';
+import { CATALOGUE_PATH } from '../services/apiContract';
+import { ApiError } from '../services/apiErrors';
+import { badRequest, readJsonBody, sendError, sendJson } from './http';
+
+// Keys end up in translation keys and history entries, so they stay simple.
+const KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const STRING_FIELDS = ['prompt', 'stepTwoPrompt', 'videoPrompt'] as const;
+const BOOLEAN_FIELDS = ['isCategory', 'disabled', 'isMultiImage', 'isSecondaryOptional', 'isTwoStep', 'isVideo', 'isMultiStepVideo', 'usesVietQr'] as const;
+const TEXT_FIELDS = ['description', 'primaryUploaderTitle', 'primaryUploaderDescription', 'secondaryUploaderTitle', 'secondaryUploaderDescription'] as const;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+const VARIABLE_TYPES: PromptVariableType[] = ['text', 'number', 'select', 'color'];
+const VARIABLE_STRING_FIELDS = ['placeholder', 'defaultValue', 'pattern'] as const;
+const VARIABLE_NUMBER_FIELDS = ['min', 'max', 'maxLength'] as const;
+
+export interface CatalogueOptions {
+    file: string;
+    authenticate: (req: IncomingMessage) => Promise<string | null>;
+    isAdmin: (username: string) => Promise<boolean>;
+}
+
+const parseText = (value: unknown, field: string): LocalizedText => {
+    const text = value as Record<string, unknown> | null;
+    if (typeof text !== 'object' || text === null || !['en', 'vi'].every(lang => text[lang] === undefined || typeof text[lang] === 'string')) {
+        throw badRequest(`"${field}" must have English and Vietnamese texts.`);
+    }
+    return {
+        ...(typeof text.en === 'string' && { en: text.en }),
+        ...(typeof text.vi === 'string' && { vi: text.vi }),
+    };
+};
+
+/**
+ * Checks an entry's prompt variables and copies their known fields.
+ */
+const parseVariables = (value: unknown, key: string): CataloguePromptVariable[] => {
+    if (!Array.isArray(value)) throw badRequest(`"${key}.variables" must be a list.`);
+    const names = new Set<string>();
+    return value.map((item, index) => {
+        const raw = item as Record<string, unknown> | null;
+        const at = `${key}.variables[${index}]`;
+        if (typeof raw !== 'object' || raw === null) throw badRequest(`"${at}" is not an object.`);
+        if (typeof raw.name !== 'string' || !VARIABLE_NAME_PATTERN.test(raw.name)) {
+            throw badRequest(`"${at}": the name may only use letters, digits and "_".`);
+        }
+        if (names.has(raw.name)) throw badRequest(`"${key}" has more than one variable named "${raw.name}".`);
+        names.add(raw.name);
+        if (!VARIABLE_TYPES.includes(raw.type as PromptVariableType)) {
+            throw badRequest(`"${at}.type" must be one of ${VARIABLE_TYPES.join(', ')}.`);
+        }
+        const variable: CataloguePromptVariable = {
+            name: raw.name,
+            type: raw.type as PromptVariableType,
+            label: parseText(raw.label, `${at}.label`),
+        };
+        for (const field of VARIABLE_STRING_FIELDS) {
+            if (raw[field] === undefined) continue;
+            if (typeof raw[field] !== 'string') throw badRequest(`"${at}.${field}" must be a string.`);
+            variable[field] = raw[field];
+        }
+        for (const field of VARIABLE_NUMBER_FIELDS) {
+            if (raw[field] === undefined) continue;
+            if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field])) throw badRequest(`"${at}.${field}" must be a number.`);
+            variable[field] = raw[field];
+        }
+        if (variable.pattern !== undefined) {
+            try {
+                new RegExp(variable.pattern);
+            } catch {
+                throw badRequest(`"${at}.pattern" is not a valid regular expression.`);
+            }
+        }
+        if (raw.required !== undefined) {
+            if (typeof raw.required !== 'boolean') throw badRequest(`"${at}.required" must be true or false.`);
+            variable.required = raw.required;
+        }
+        if (raw.integer !== undefined) {
+            if (typeof raw.integer !== 'boolean') throw badRequest(`"${at}.integer" must be true or false.`);
+            variable.integer = raw.integer;
+        }
+        if (raw.format !== undefined) {
+            if (raw.format !== 'uppercaseAscii') throw badRequest(`"${at}.format" must be "uppercaseAscii".`);
+            variable.format = raw.format;
+        }
+        if (variable.type === 'select') {
+            if (!Array.isArray(raw.options) || raw.options.length === 0) throw badRequest(`"${at}" is a select and needs options.`);
+            variable.options = raw.options.map((option: Record<string, unknown> | null, optionIndex: number) => {
+                if (typeof option?.value !== 'string') throw badRequest(`"${at}.options[${optionIndex}].value" must be a string.`);
+                return {
+                    value: option.value,
+                    ...(option.label !== undefined && { label: parseText(option.label, `${at}.options[${optionIndex}].label`) }),
+                };
+            });
+        }
+        return variable;
+    });
+};
+
+/**
+ * Checks one entry and copies the known fields, so nothing else ends up in the file.
+ */
+const parseEntry = (value: unknown, index: number): CatalogueEntry => {
+    const raw = value as Record<string, unknown> | null;
+    const at = `Entry ${index + 1}`;
+    if (typeof raw !== 'object' || raw === null) throw badRequest(`${at} is not an object.`);
+    if (typeof raw.key !== 'string' || !KEY_PATTERN.test(raw.key)) {
+        throw badRequest(`${at}: the key may only use letters, digits, "-" and "_".`);
+    }
+    if (typeof raw.emoji !== 'string' || !raw.emoji.trim()) throw badRequest(`${at} (${raw.key}) needs an emoji.`);
+    const title = parseText(raw.title, `${raw.key}.title`);
+    if (!title.en?.trim() && !title.vi?.trim()) throw badRequest(`${at} (${raw.key}) needs a title.`);
+
+    const entry: CatalogueEntry = { key: raw.key, emoji: raw.emoji.trim(), title };
+    for (const field of STRING_FIELDS) {
+        if (raw[field] === undefined) continue;
+        if (typeof raw[field] !== 'string') throw badRequest(`"${raw.key}.${field}" must be a string.`);
+        entry[field] = raw[field];
+    }
+    for (const field of BOOLEAN_FIELDS) {
+        if (raw[field] === undefined) continue;
+        if (typeof raw[field] !== 'boolean') throw badRequest(`"${raw.key}.${field}" must be true or false.`);
+        entry[field] = raw[field];
+    }
+    for (const field of TEXT_FIELDS) {
+        if (raw[field] !== undefined) entry[field] = parseText(raw[field], `${raw.key}.${field}`);
+    }
+    if (raw.category !== undefined) {
+        if (typeof raw.category !== 'string') throw badRequest(`"${raw.key}.category" must be a string.`);
+        entry.category = raw.category;
+    }
+    if (raw.maxImages !== undefined) {
+        if (!Number.isInteger(raw.maxImages) || (raw.maxImages as number) < 1) throw badRequest(`"${raw.key}.maxImages" must be a positive whole number.`);
+        entry.maxImages = raw.maxImages as number;
+    }
+    if (raw.variables !== undefined) entry.variables = parseVariables(raw.variables, raw.key);
+    return entry;
+};
+
+const parseEntries = (value: unknown): CatalogueEntry[] => {
+    if (!Array.isArray(value)) throw badRequest('"entries" must be a list.');
+    const entries = value.map(parseEntry);
+    const keys = new Set<string>();
+    for (const entry of entries) {
+        if (keys.has(entry.key)) throw badRequest(`The key "${entry.key}" is used more than once.`);
+        keys.add(entry.key);
+    }
+    const categories = new Set(entries.filter(entry => entry.isCategory).map(entry => entry.key));
+    for (const entry of entries) {
+        if (entry.category === undefined) continue;
+        if (entry.isCategory) throw badRequest(`The category "${entry.key}" cannot be inside another category.`);
+        if (!categories.has(entry.category)) throw badRequest(`"${entry.key}" is in the unknown category "${entry.category}".`);
+    }
+    return entries;
+};
+
+/**
+ * Creates the endpoints for the effects catalogue under `CATALOGUE_PATH`. Every
+ * signed-in user can read it; only admins can replace it. Until an admin first saves
+ * it, reading it fails with 404 and the app uses its built-in effects.
+ */
+export const createCatalogueApi = (options: CatalogueOptions): Connect.NextHandleFunction => {
+    return async (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname !== CATALOGUE_PATH) return next();
+
+        try {
+            const username = await options.authenticate(req);
+            if (!username) {
+                throw new ApiError("Your session has expired. Please sign in again.", { status: 401 });
+            }
+            switch (req.method) {
+                case 'GET': {
+                    let raw: string;
+                    try {
+                        raw = await readFile(options.file, 'utf8');
+                    } catch {
+                        throw new ApiError("No catalogue has been saved yet.", { status: 404 });
+                    }
+                    return sendJson(res, 200, JSON.parse(raw));
+                }
+                case 'PUT': {
+                    if (!(await options.isAdmin(username))) {
+                        throw new ApiError("Only admins can change the catalogue.", { status: 403 });
+                    }
+                    const body = await readJsonBody(req);
+                    const catalogue: Catalogue = { entries: parseEntries(body.entries), updatedAt: Date.now(), updatedBy: username };
+                    // Write to a temporary file first, so a failed write never leaves half a catalogue.
+                    await writeFile(`${options.file}.tmp`, JSON.stringify(catalogue, null, 2));
+                    await rename(`${options.file}.tmp`, options.file);
+                    return sendJson(res, 200, catalogue);
+                }
+                default:
+                    throw new ApiError(`Unsupported method for the catalogue: ${req.method}`, { status: 405 });
+            }
+        } catch (error) {
+            sendError(res, error);
+        }
+    };
+};
@@ -0,0 +1,241 @@
+/**
+ * The Gemini calls behind the API proxy. This module runs in Node only, so the
+ * API key never reaches the browser.
+ */
+
+import { GenerateVideosOperation, GoogleGenAI, Modality, type Schema } from "@google/genai";
+import type { GeneratedContent, ImageAspectRatio, ImagePart, ResponseSchema, VideoAspectRatio } from '../types';
+import { ApiError, handleApiError, missingImageError } from '../services/apiErrors';
+import { GEMINI_MODELS } from '../services/geminiModels';
+
+/**
+ * A video job that finished without a video, as opposed to a failure to check on it.
+ */
+export class VideoFailedError extends ApiError {}
+
+export async function generateText(
+    ai: GoogleGenAI,
+    prompt: string,
+    imageParts: ImagePart[],
+    responseSchema: ResponseSchema | null,
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+    try {
+        const parts = [
+            { text: prompt },
+            ...imageParts.map(img => ({
+                inlineData: { data: img.base64, mimeType: img.mimeType },
+            })),
+        ];
+
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: { parts },
+            config: {
+                abortSignal: signal,
+                // The schema's type names are the values of Gemini's `Type` enum.
+                ...(responseSchema && { responseMimeType: 'application/json', responseSchema: responseSchema as Schema }),
+            },
+        });
+
+        const text = response.text;
+        if (!text) {
+             throw new Error("The model did not return any text. It might have refused the request due to safety settings.");
+        }
+        
+        return { imageUrl: null, text: text };
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+
+export async function editImage(
+    ai: GoogleGenAI,
+    prompt: string,
+    imageParts: ImagePart[],
+    maskBase64: string | null,
+    aspectRatio: ImageAspectRatio | null,
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+  try {
+    let fullPrompt = prompt;
+    const parts: any[] = [];
+
+    // If a mask is provided, the prompt needs to be modified to instruct the model
+    // on how to use it.
+    if (maskBase64) {
+      fullPrompt = `Apply the following instruction only to the masked area of the image: "${prompt}". Preserve the unmasked area.`;
+    }
+
+    // Add image parts first, as this is a more robust order for image editing models.
+    // The primary image is always the first one.
+    if (imageParts.length > 0) {
+        parts.push({
+            inlineData: { data: imageParts[0].base64, mimeType: imageParts[0].mimeType },
+        });
+    }
+
+    // The mask, if it exists, must follow the image it applies to.
+    if (maskBase64) {
+      parts.push({
+        inlineData: { data: maskBase64, mimeType: 'image/png' },
+      });
+    }
+    
+    // Add any remaining images (secondary, tertiary, etc.)
+    if (imageParts.length > 1) {
+        imageParts.slice(1).forEach(img => {
+            parts.push({
+                inlineData: { data: img.base64, mimeType: img.mimeType },
+            });
+        });
+    }
+
+    // Add the text prompt as the last part of the request.
+    parts.push({ text: fullPrompt });
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.imageEdit,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
+        ...(aspectRatio && { imageConfig: { aspectRatio } }),
+      },
+    });
+
+    const result: GeneratedContent = { imageUrl: null, text: null };
+    const responseParts = response.candidates?.[0]?.content?.parts;
+
+    if (responseParts) {
+      for (const part of responseParts) {
+        if (part.text) {
+          result.text = (result.text ? result.text + "\n" : "") + part.text;
+        } else if (part.inlineData) {
+          result.imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+      }
+    }
+
+    if (!result.imageUrl) {
+        const candidate = response.candidates?.[0];
+        const blockedCategories = candidate?.safetyRatings?.filter(r => r.blocked).map(r => String(r.category)) ?? [];
+        throw missingImageError(candidate?.finishReason, blockedCategories);
+    }
+
+    return result;
+
+  } catch (error) {
+    return handleApiError(error, signal);
+  }
+}
+
+export async function generateImageFromText(
+    ai: GoogleGenAI,
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+  try {
+    const response = await ai.models.generateImages({
+        model: GEMINI_MODELS.textToImage,
+        prompt: prompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/png',
+          aspectRatio: aspectRatio,
+          abortSignal: signal,
+        },
+    });
+
+    if (!response.generatedImages || response.generatedImages.length === 0) {
+        throw new Error("The model did not return an image. It might have refused the request.");
+    }
+
+    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
+    const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
+
+    return { imageUrl, text: null };
+
+  } catch (error) {
+    return handleApiError(error, signal);
+  }
+}
+
+// Fixed, so that usage accounting knows how many seconds each video job bills.
+export const VIDEO_DURATION_SECONDS = 8;
+
+export async function startVideo(
+    ai: GoogleGenAI,
+    prompt: string,
+    image: ImagePart | null,
+    aspectRatio: VideoAspectRatio,
+    signal?: AbortSignal
+): Promise<string> {
+    try {
+        const request = {
+            model: GEMINI_MODELS.video,
+            prompt: prompt,
+            config: {
+                numberOfVideos: 1,
+                // Fix: Added missing 'resolution' property, which is required for video generation.
+                resolution: '720p',
+                durationSeconds: VIDEO_DURATION_SECONDS,
+                aspectRatio: aspectRatio,
+                abortSignal: signal,
+            },
+            ...(image && {
+                image: {
+                    imageBytes: image.base64,
+                    mimeType: image.mimeType
+                }
+            })
+        };
+
+        const operation = await ai.models.generateVideos(request);
+        if (!operation.name) {
+            throw new Error("Video generation started, but no operation name was returned.");
+        }
+        return operation.name;
+    } catch (error) {
+        if (error instanceof Error) {
+            return handleApiError(error, signal);
+        }
+        throw new Error("An unknown error occurred during video generation.");
+    }
+}
+
+/**
+ * Checks on a video job once.
+ * @returns Null while the job is running, then the file's URI. Fetching it requires the API key.
+ */
+export async function pollVideo(ai: GoogleGenAI, operationName: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+        // The SDK polls by operation object; only its name is needed to look the job up again.
+        const pending = new GenerateVideosOperation();
+        pending.name = operationName;
+        const operation = await ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } });
+        if (!operation.done) {
+            return null;
+        }
+
+        if (operation.error) {
+            throw new VideoFailedError(typeof operation.error.message === 'string' ? (operation.error.message || "Video generation failed during operation.") : "Video generation failed during operation.");
+        }
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+
+        if (!downloadLink) {
+            throw new VideoFailedError("Video generation completed, but no download link was found.");
+        }
+
+        return downloadLink;
+
+    } catch (error) {
+        if (error instanceof Error) {
+            return handleApiError(error, signal);
+        }
+        throw new Error("An unknown error occurred during video generation.");
+    }
+}
@@ -0,0 +1,207 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { GoogleGenAI } from '@google/genai';
+import type { Connect } from 'vite';
+import type { ImageAspectRatio, ImagePart, ResponseSchema, UsageKind, VideoAspectRatio } from '../types';
+import { PROXY_BASE_PATH, USAGE_HEADER } from '../services/apiContract';
+import { ApiError } from '../services/apiErrors';
+import { badRequest, readJsonBody, sendError, sendJson } from './http';
+import { editImage, generateImageFromText, generateText, pollVideo, startVideo, VIDEO_DURATION_SECONDS, VideoFailedError } from './gemini';
+import type { UsageReservation, UsageTracker } from './usage';
+import type { VideoOwnerRegistry } from './videoOwners';
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const VIDEO_ASPECT_RATIOS = ['16:9', '9:16'];
+
+const expectString = (value: unknown, field: string): string => {
+    if (typeof value !== 'string') throw badRequest(`"${field}" must be a string.`);
+    return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, allowed: string[], field: string): T => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+        throw badRequest(`"${field}" must be one of ${allowed.join(', ')}.`);
+    }
+    return value as T;
+};
+
+const SCHEMA_TYPES = ['OBJECT', 'ARRAY', 'STRING', 'NUMBER', 'INTEGER', 'BOOLEAN'];
+
+/**
+ * Checks the parts of a response schema Gemini relies on; it rejects anything else itself.
+ */
+const expectSchema = (value: unknown, field: string): ResponseSchema => {
+    const schema = value as ResponseSchema | null;
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) throw badRequest(`"${field}" must be an object.`);
+    expectOneOf(schema.type, SCHEMA_TYPES, `${field}.type`);
+    if (schema.properties !== undefined) {
+        if (typeof schema.properties !== 'object' || schema.properties === null) throw badRequest(`"${field}.properties" must be an object.`);
+        Object.entries(schema.properties).forEach(([name, property]) => expectSchema(property, `${field}.properties.${name}`));
+    }
+    if (schema.items !== undefined) expectSchema(schema.items, `${field}.items`);
+    return schema;
+};
+
+const isImagePart = (value: unknown): value is ImagePart => {
+    const part = value as ImagePart | null;
+    return typeof part === 'object' && part !== null && typeof part.base64 === 'string' && typeof part.mimeType === 'string';
+};
+
+const expectImageParts = (value: unknown, field: string): ImagePart[] => {
+    if (!Array.isArray(value) || !value.every(isImagePart)) throw badRequest(`"${field}" must be a list of images.`);
+    return value;
+};
+
+/**
+ * Streams a finished video from Gemini to the browser, adding the API key on the way.
+ */
+const sendVideo = async (ai: GoogleGenAI, apiKey: string, operationName: string, res: ServerResponse, signal: AbortSignal) => {
+    const uri = await pollVideo(ai, operationName, signal);
+    if (!uri) {
+        throw new ApiError("The video is not ready yet.", { status: 409 });
+    }
+    const upstream = await fetch(`${uri}&key=${apiKey}`, { signal });
+    if (!upstream.ok || !upstream.body) {
+        throw new ApiError(`Failed to download video file. Status: ${upstream.statusText}`, { status: 502 });
+    }
+    const length = upstream.headers.get('content-length');
+    res.writeHead(200, {
+        'Content-Type': upstream.headers.get('content-type') ?? 'video/mp4',
+        ...(length && { 'Content-Length': length }),
+    });
+    Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>)
+        .on('error', () => res.destroy())
+        .pipe(res);
+};
+
+/**
+ * Creates a middleware serving the Gemini API under `PROXY_BASE_PATH`. It holds the
+ * API key, so the browser only ever talks to this proxy. Other requests are passed on.
+ * @param apiKey The Gemini API key; requests fail with a clear error when it is missing.
+ * @param authenticate Identifies the signed-in user; requests without one are refused.
+ * @param usage Counts billed calls per user and refuses them once a daily limit is reached.
+ * @param videoOwners Records who started each video job; only they can follow and download it.
+ */
+export const createGeminiProxy = (
+    apiKey: string | undefined,
+    authenticate: (req: IncomingMessage) => Promise<string | null>,
+    usage: UsageTracker,
+    videoOwners: VideoOwnerRegistry
+): Connect.NextHandleFunction => {
+    let ai: GoogleGenAI | null = null;
+
+    return async (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (!url.pathname.startsWith(`${PROXY_BASE_PATH}/`)) return next();
+
+        // Abort the upstream call when the browser goes away (e.g. the user cancelled).
+        const controller = new AbortController();
+        const { signal } = controller;
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        try {
+            const username = await authenticate(req);
+            if (!username) {
+                throw new ApiError("Your session has expired. Please sign in again.", { status: 401 });
+            }
+            const route = `${req.method} ${url.pathname.slice(PROXY_BASE_PATH.length)}`;
+            if (route === 'GET /usage') {
+                return sendJson(res, 200, usage.snapshot(username));
+            }
+            if (!apiKey) {
+                throw new ApiError("GEMINI_API_KEY is not set on the server.", { status: 500 });
+            }
+            ai ??= new GoogleGenAI({ apiKey });
+
+            // Counts a billed call against the user's quota before making it. Calls that
+            // fail are taken back off, so only results the user received are counted. A video
+            // is only known to have failed later, while it is polled; see `pollOwnedVideo`.
+            const metered = async <T>(kind: UsageKind, amount: number, call: (reservation: UsageReservation) => Promise<T>): Promise<T> => {
+                let reservation: UsageReservation | null = null;
+                try {
+                    reservation = usage.reserve(username, kind, amount);
+                    return await call(reservation);
+                } catch (error) {
+                    if (reservation) usage.release(username, reservation);
+                    throw error;
+                } finally {
+                    if (!res.headersSent) res.setHeader(USAGE_HEADER, JSON.stringify(usage.snapshot(username)));
+                }
+            };
+
+            // Names of video jobs are checked against who started them, so one user cannot
+            // follow or download another's video through the shared key.
+            const ownedVideoName = (): string => {
+                const name = expectString(url.searchParams.get('name'), 'name');
+                if (!videoOwners.isOwner(name, username)) {
+                    throw new ApiError("This video job was not found.", { status: 404 });
+                }
+                return name;
+            };
+
+            // A video that turns out to have failed gives back the seconds counted when it was started.
+            const pollOwnedVideo = async (name: string): Promise<string | null> => {
+                try {
+                    return await pollVideo(ai, name, signal);
+                } catch (error) {
+                    const reservation = error instanceof VideoFailedError ? videoOwners.takeReservation(name) : null;
+                    if (reservation) {
+                        usage.release(username, reservation);
+                        if (!res.headersSent) res.setHeader(USAGE_HEADER, JSON.stringify(usage.snapshot(username)));
+                    }
+                    throw error;
+                }
+            };
+
+            switch (route) {
+                case 'POST /edit-image': {
+                    const body = await readJsonBody(req);
+                    const maskBase64 = body.maskBase64 == null ? null : expectString(body.maskBase64, 'maskBase64');
+                    const prompt = expectString(body.prompt, 'prompt');
+                    const imageParts = expectImageParts(body.imageParts, 'imageParts');
+                    const aspectRatio = body.aspectRatio == null ? null : expectOneOf<ImageAspectRatio>(body.aspectRatio, IMAGE_ASPECT_RATIOS, 'aspectRatio');
+                    return sendJson(res, 200, await metered('imageEdits', 1, () => editImage(ai, prompt, imageParts, maskBase64, aspectRatio, signal)));
+                }
+                case 'POST /text-to-image': {
+                    const body = await readJsonBody(req);
+                    const prompt = expectString(body.prompt, 'prompt');
+                    const aspectRatio = expectOneOf<ImageAspectRatio>(body.aspectRatio, IMAGE_ASPECT_RATIOS, 'aspectRatio');
+                    return sendJson(res, 200, await metered('textToImage', 1, () => generateImageFromText(ai, prompt, aspectRatio, signal)));
+                }
+                case 'POST /text': {
+                    const body = await readJsonBody(req);
+                    const prompt = expectString(body.prompt, 'prompt');
+                    const imageParts = expectImageParts(body.imageParts, 'imageParts');
+                    const responseSchema = body.responseSchema == null ? null : expectSchema(body.responseSchema, 'responseSchema');
+                    return sendJson(res, 200, await generateText(ai, prompt, imageParts, responseSchema, signal));
+                }
+                case 'POST /videos': {
+                    const body = await readJsonBody(req);
+                    const image = body.image == null ? null : expectImageParts([body.image], 'image')[0];
+                    const prompt = expectString(body.prompt, 'prompt');
+                    const aspectRatio = expectOneOf<VideoAspectRatio>(body.aspectRatio, VIDEO_ASPECT_RATIOS, 'aspectRatio');
+                    const operationName = await metered('videoSeconds', VIDEO_DURATION_SECONDS, async reservation => {
+                        const name = await startVideo(ai, prompt, image, aspectRatio, signal);
+                        videoOwners.record(name, username, reservation);
+                        return name;
+                    });
+                    return sendJson(res, 200, { operationName });
+                }
+                case 'GET /videos/status': {
+                    const uri = await pollOwnedVideo(ownedVideoName());
+                    return sendJson(res, 200, { done: uri !== null });
+                }
+                case 'GET /videos/download':
+                    return await sendVideo(ai, apiKey, ownedVideoName(), res, signal);
+                default:
+                    throw new ApiError(`Unknown API proxy endpoint: ${route}`, { status: 404 });
+            }
+        } catch (error) {
+            if (signal.aborted) return;
+            sendError(res, error);
+        }
+    };
+};
@@ -0,0 +1,53 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError } from '../services/apiErrors';
+
+// Requests carry base64 images, several of them for multi-image effects.
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+export const badRequest = (message: string) => new ApiError(message, { status: 400 });
+
+export const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new ApiError("The request is too large.", { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+                if (typeof body !== 'object' || body === null) throw new Error();
+                resolve(body);
+            } catch {
+                reject(badRequest("The request body is not valid JSON."));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Reports a failure in the shape the browser client turns back into an `ApiError`.
+ */
+export const sendError = (res: ServerResponse, error: unknown) => {
+    const apiError = error instanceof ApiError
+        ? error
+        : new ApiError(error instanceof Error ? error.message : "An unknown error occurred in the API server.");
+    const status = apiError.status && apiError.status >= 400 && apiError.status < 600 ? apiError.status : 500;
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    sendJson(res, status, { error: { message: apiError.message, retryable: apiError.retryable } });
+};
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+
+const SAVE_DELAY_MS = 1000;
+
+export interface JsonFileStoreOptions<T> {
+    file: string;
+    emptyDescription: string; // What the store holds when the file cannot be read, e.g. "empty usage"
+    prune?: (data: T) => void; // Drops outdated entries before each write
+}
+
+export interface JsonFileStore<T> {
+    data: T; // Changed in place; call `save` afterwards
+    save: () => void; // Writes within a second, once for a burst of changes
+    flush: () => Promise<void>; // Writes pending changes now
+}
+
+const loadJsonFile = <T extends object>(file: string, emptyDescription: string): T => {
+    try {
+        const parsed = JSON.parse(readFileSync(file, 'utf8'));
+        return typeof parsed === 'object' && parsed !== null ? parsed : {} as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`Failed to read ${file}; starting with ${emptyDescription}`, error);
+        }
+        return {} as T;
+    }
+};
+
+/**
+ * Keeps an object in a JSON file, so it survives restarts. The file is read once, when the
+ * store is created; a missing or unreadable file starts it empty.
+ */
+export const createJsonFileStore = <T extends object>(options: JsonFileStoreOptions<T>): JsonFileStore<T> => {
+    const data = loadJsonFile<T>(options.file, options.emptyDescription);
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const write = () => {
+        options.prune?.(data);
+        return writeFile(options.file, JSON.stringify(data, null, 2)).catch(error => console.error(`Failed to save ${options.file}`, error));
+    };
+
+    return {
+        data,
+        save: () => {
+            if (saveTimer) return;
+            saveTimer = setTimeout(() => {
+                saveTimer = null;
+                write();
+            }, SAVE_DELAY_MS);
+        },
+        flush: async () => {
+            if (!saveTimer) return;
+            clearTimeout(saveTimer);
+            saveTimer = null;
+            await write();
+        },
+    };
+};
@@ -0,0 +1,102 @@
+import type { UsageCounts, UsageKind, UsageSnapshot } from '../types';
+import { USAGE_KIND_LABELS } from '../services/apiContract';
+import { ApiError } from '../services/apiErrors';
+import { createJsonFileStore } from './jsonFileStore';
+
+// Days older than this are dropped from the usage file.
+const KEEP_DAYS = 90;
+
+/** Usage counts by day (YYYY-MM-DD), then by username. */
+type UsageLog = Record<string, Record<string, UsageCounts>>;
+
+export interface UsageOptions {
+    file: string;
+    limits: Partial<UsageCounts>; // Per user and day; a missing kind is unlimited
+}
+
+/**
+ * Usage counted for a call, kept so it can be taken back if the call fails.
+ */
+export interface UsageReservation {
+    day: string; // The day it was counted on, YYYY-MM-DD
+    kind: UsageKind;
+    amount: number;
+}
+
+export interface UsageTracker {
+    snapshot: (username: string) => UsageSnapshot;
+    /**
+     * Counts usage up front, so concurrent requests cannot overshoot a limit together.
+     * @returns The reservation, for `release` when the call ends up failing.
+     * @throws An `ApiError` with status 429 when the user's daily limit would be exceeded.
+     */
+    reserve: (username: string, kind: UsageKind, amount: number) => UsageReservation;
+    /**
+     * Takes back usage counted by `reserve`. Release each reservation at most once.
+     */
+    release: (username: string, reservation: UsageReservation) => void;
+}
+
+const emptyCounts = (): UsageCounts => ({ imageEdits: 0, textToImage: 0, videoSeconds: 0 });
+
+const toDayKey = (date: Date): string => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Parses a daily limit from the environment.
+ * @returns The limit, or undefined (unlimited) when the variable is unset or not a number.
+ */
+export const parseLimit = (value: string | undefined): number | undefined => {
+    if (value === undefined || value.trim() === '') return undefined;
+    const limit = Number(value);
+    return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+};
+
+/**
+ * Creates a per-user, per-day usage counter kept in a JSON file, which survives restarts.
+ */
+export const createUsageTracker = (options: UsageOptions): UsageTracker => {
+    const store = createJsonFileStore<UsageLog>({
+        file: options.file,
+        emptyDescription: 'empty usage',
+        prune: log => {
+            const oldest = toDayKey(new Date(Date.now() - KEEP_DAYS * 24 * 60 * 60 * 1000));
+            Object.keys(log).filter(day => day < oldest).forEach(day => delete log[day]);
+        },
+    });
+    const log = store.data;
+
+    const countsFor = (day: string, username: string): UsageCounts => {
+        log[day] ??= {};
+        log[day][username] = { ...emptyCounts(), ...log[day][username] };
+        return log[day][username];
+    };
+
+    return {
+        snapshot: username => {
+            const day = toDayKey(new Date());
+            return { day, used: { ...emptyCounts(), ...log[day]?.[username] }, limits: options.limits };
+        },
+        reserve: (username, kind, amount) => {
+            const day = toDayKey(new Date());
+            const counts = countsFor(day, username);
+            const limit = options.limits[kind];
+            if (limit !== undefined && counts[kind] + amount > limit) {
+                throw new ApiError(
+                    `Daily limit reached: ${counts[kind]} of ${limit} ${USAGE_KIND_LABELS[kind]} used today. It resets at midnight.`,
+                    { status: 429, retryable: false }
+                );
+            }
+            counts[kind] += amount;
+            store.save();
+            return { day, kind, amount };
+        },
+        release: (username, { day, kind, amount }) => {
+            const counts = countsFor(day, username);
+            counts[kind] = Math.max(0, counts[kind] - amount);
+            store.save();
+        },
+    };
+};
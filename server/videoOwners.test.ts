@@ -0,0 +1,54 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createVideoOwnerRegistry } from './videoOwners';
+import type { UsageReservation } from './usage';
+
+const RESERVATION: UsageReservation = { day: '2026-10-19', kind: 'videoSeconds', amount: 8 };
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+    // Saves are debounced; with fake timers they only happen when a test flushes them.
+    vi.useFakeTimers();
+    dir = mkdtempSync(path.join(tmpdir(), 'video-owners-'));
+    file = path.join(dir, 'videos.json');
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createVideoOwnerRegistry', () => {
+    it('lets only the user who started a job follow it', () => {
+        const owners = createVideoOwnerRegistry(file);
+        owners.record('operations/1', 'alice', RESERVATION);
+        expect(owners.isOwner('operations/1', 'alice')).toBe(true);
+        expect(owners.isOwner('operations/1', 'bob')).toBe(false);
+    });
+
+    it('treats unknown operations as belonging to nobody', () => {
+        const owners = createVideoOwnerRegistry(file);
+        expect(owners.isOwner('operations/unknown', 'alice')).toBe(false);
+        expect(owners.isOwner('constructor', 'alice')).toBe(false);
+    });
+
+    it('keeps owners across a restart', async () => {
+        const owners = createVideoOwnerRegistry(file);
+        owners.record('operations/1', 'alice', RESERVATION);
+        await owners.flush();
+        expect(createVideoOwnerRegistry(file).isOwner('operations/1', 'alice')).toBe(true);
+    });
+
+    it('hands over the reservation of a job once', () => {
+        const owners = createVideoOwnerRegistry(file);
+        owners.record('operations/1', 'alice', RESERVATION);
+        expect(owners.takeReservation('operations/1')).toEqual(RESERVATION);
+        expect(owners.takeReservation('operations/1')).toBeNull();
+        expect(owners.takeReservation('operations/unknown')).toBeNull();
+        expect(owners.isOwner('operations/1', 'alice')).toBe(true);
+    });
+});
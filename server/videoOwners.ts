@@ -0,0 +1,60 @@
+import { createJsonFileStore } from './jsonFileStore';
+import type { UsageReservation } from './usage';
+
+// Gemini deletes generated videos after two days; their owners are kept a little longer.
+const KEEP_MS = 3 * 24 * 60 * 60 * 1000;
+
+interface VideoOwner {
+    username: string;
+    startedAt: number; // Epoch milliseconds
+    reservation?: UsageReservation; // The video seconds counted for the job, until it is known to have failed
+}
+
+/** Owners by operation name. */
+type VideoOwnerLog = Record<string, VideoOwner>;
+
+export interface VideoOwnerRegistry {
+    record: (operationName: string, username: string, reservation: UsageReservation) => void;
+    /**
+     * @returns True only when this user started the operation; unknown operations belong to nobody.
+     */
+    isOwner: (operationName: string, username: string) => boolean;
+    /**
+     * Hands over the usage counted for a job that failed, once.
+     * @returns The reservation to release, or null when there is none (left).
+     */
+    takeReservation: (operationName: string) => UsageReservation | null;
+    flush: () => Promise<void>; // Saves pending changes now instead of within a second
+}
+
+/**
+ * Creates a record of who started which video job, kept in a JSON file so that jobs
+ * can still be followed after a restart.
+ */
+export const createVideoOwnerRegistry = (file: string): VideoOwnerRegistry => {
+    const store = createJsonFileStore<VideoOwnerLog>({
+        file,
+        emptyDescription: 'no video owners',
+        prune: log => {
+            const oldest = Date.now() - KEEP_MS;
+            Object.keys(log).filter(name => log[name].startedAt < oldest).forEach(name => delete log[name]);
+        },
+    });
+    const log = store.data;
+
+    return {
+        record: (operationName, username, reservation) => {
+            log[operationName] = { username, startedAt: Date.now(), reservation };
+            store.save();
+        },
+        isOwner: (operationName, username) => Object.hasOwn(log, operationName) && log[operationName].username === username,
+        takeReservation: operationName => {
+            const reservation = Object.hasOwn(log, operationName) ? log[operationName].reservation : undefined;
+            if (!reservation) return null;
+            delete log[operationName].reservation;
+            store.save();
+            return reservation;
+        },
+        flush: store.flush,
+    };
+};
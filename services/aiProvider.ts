@@ -0,0 +1,89 @@
+import type { GeneratedContent, ImageAspectRatio, ImagePart, ResponseSchema, VideoAspectRatio } from '../types';
+
+/**
+ * The contract every generation backend implements. App code talks to the
+ * active provider through `aiService`, never to a backend module directly.
+ * Every method takes an optional abort signal and rejects with an `AbortError`
+ * once it fires.
+ */
+export interface AiProvider {
+    id: string;
+    /** Human-readable model names, recorded alongside generated results. */
+    models: {
+        imageEdit: string;
+        textToImage: string;
+        video: string;
+        text: string;
+    };
+    /**
+     * Edits or combines images. The aspect ratio is a request: backends that cannot set it
+     * ignore it, and the caller fits the result afterwards.
+     */
+    editImage(prompt: string, imageParts: ImagePart[], maskBase64: string | null, aspectRatio: ImageAspectRatio | null, signal?: AbortSignal): Promise<GeneratedContent>;
+    generateImageFromText(prompt: string, aspectRatio: ImageAspectRatio, signal?: AbortSignal): Promise<GeneratedContent>;
+    /**
+     * Starts a video job. Resolves with the backend's operation name, which stays
+     * valid across page reloads so the job can be polled again later.
+     */
+    startVideo(prompt: string, image: ImagePart | null, aspectRatio: VideoAspectRatio, signal?: AbortSignal): Promise<string>;
+    /**
+     * Checks on a video job once. Resolves with null while it is still running, then with
+     * a URL the browser can `fetch` to obtain the video file. Rejects if the job failed.
+     */
+    pollVideo(operationName: string, signal?: AbortSignal): Promise<string | null>;
+    /**
+     * Answers with text. With a response schema, the text is JSON in that shape.
+     */
+    generateText(prompt: string, imageParts: ImagePart[], responseSchema: ResponseSchema | null, signal?: AbortSignal): Promise<GeneratedContent>;
+}
+
+const PROVIDER_STORAGE_KEY = 'aiProvider';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, AiProvider>();
+
+export const registerProvider = (provider: AiProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): AiProvider | undefined => providers.get(id);
+
+export const listProviders = (): string[] => Array.from(providers.keys());
+
+/**
+ * Resolves the provider id to use: an explicit choice saved in localStorage wins,
+ * then the `AI_PROVIDER` build setting, then the Gemini default.
+ */
+export const getActiveProviderId = (): string => {
+    try {
+        const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (saved) return saved;
+    } catch {
+        // localStorage can be unavailable (e.g. private mode); fall through.
+    }
+    return process.env.AI_PROVIDER || DEFAULT_PROVIDER_ID;
+};
+
+export const setActiveProviderId = (id: string) => {
+    if (!providers.has(id)) {
+        throw new Error(`Unknown AI provider "${id}". Available: ${listProviders().join(', ')}`);
+    }
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (e) {
+        console.error("Failed to save AI provider to localStorage", e);
+    }
+};
+
+export const getActiveProvider = (): AiProvider => {
+    const id = getActiveProviderId();
+    const provider = providers.get(id);
+    if (provider) return provider;
+
+    console.warn(`AI provider "${id}" is not registered, falling back to "${DEFAULT_PROVIDER_ID}".`);
+    const fallback = providers.get(DEFAULT_PROVIDER_ID);
+    if (!fallback) {
+        throw new Error("No AI provider has been registered.");
+    }
+    return fallback;
+};
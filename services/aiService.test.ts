@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AiProvider } from './aiProvider';
+import { ApiError, abortError } from './apiErrors';
+import { generateImageEditsBatch, generateLookbook } from './aiService';
+import { fitImageToOutput, lookbookOutputOptions } from '../utils/imageOutput';
+
+const provider = vi.hoisted((): AiProvider => ({
+    id: 'test',
+    models: { imageEdit: 'test-image', textToImage: 'test-image', video: 'test-video', text: 'test-text' },
+    editImage: vi.fn(),
+    generateImageFromText: vi.fn(),
+    startVideo: vi.fn(),
+    pollVideo: vi.fn(),
+    generateText: vi.fn(),
+}));
+
+vi.mock('./aiProvider', () => ({
+    getActiveProvider: () => provider,
+    getProvider: () => provider,
+    registerProvider: () => {},
+}));
+vi.mock('./usageService', () => ({ ensureQuota: vi.fn(async () => {}) }));
+vi.mock('../utils/imageOutput', async importOriginal => ({
+    ...await importOriginal<typeof import('../utils/imageOutput')>(),
+    fitImageToOutput: vi.fn(async (imageUrl: string) => `${imageUrl}#fitted`),
+}));
+
+const IMAGE = { base64: 'AAAA', mimeType: 'image/png' };
+
+beforeEach(() => {
+    vi.mocked(fitImageToOutput).mockClear();
+    vi.mocked(provider.editImage).mockReset().mockResolvedValue({ imageUrl: 'data:image/png;base64,BBBB', text: null });
+});
+
+describe('generateLookbook', () => {
+    it('fits every image to the selected aspect ratio and quality', async () => {
+        const output = lookbookOutputOptions('3:4', 'high');
+        const images = await generateLookbook('a lookbook', IMAGE, 2, { output });
+
+        expect(images).toEqual(['data:image/png;base64,BBBB#fitted', 'data:image/png;base64,BBBB#fitted']);
+        expect(provider.editImage).toHaveBeenCalledWith('a lookbook', [IMAGE], null, '3:4', undefined);
+        expect(fitImageToOutput).toHaveBeenCalledTimes(2);
+        expect(fitImageToOutput).toHaveBeenCalledWith('data:image/png;base64,BBBB', { aspectRatio: '3:4', upscaleTo: 'high' });
+    });
+
+    it('rethrows a failed edit unchanged', async () => {
+        const error = new ApiError('Daily limit reached.', { status: 429, retryable: false });
+        vi.mocked(provider.editImage).mockRejectedValue(error);
+        await expect(generateLookbook('a lookbook', IMAGE, 2)).rejects.toBe(error);
+    });
+});
+
+describe('generateImageEditsBatch', () => {
+    it('rethrows a cancellation as the abort error', async () => {
+        const error = abortError();
+        vi.mocked(provider.editImage).mockRejectedValue(error);
+        await expect(generateImageEditsBatch('variations', [IMAGE])).rejects.toBe(error);
+    });
+});
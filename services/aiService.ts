@@ -0,0 +1,195 @@
+import type { FashionAdviceResult, GeneratedContent, ImageAspectRatio, ImageOutputOptions, ImagePart, PromptSuggestion, VideoAspectRatio } from '../types';
+import { getActiveProvider, getProvider, registerProvider, type AiProvider } from './aiProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { createRequestScheduler, type ScheduleOptions } from './requestScheduler';
+import { ensureQuota } from './usageService';
+import { FASHION_ADVICE_SCHEMA, parseFashionAdvice } from '../utils/fashionAdvice';
+import { PROMPT_SUGGESTIONS_SCHEMA, parsePromptSuggestions } from '../utils/lookbookPrompt';
+import { fitImageToOutput } from '../utils/imageOutput';
+
+export type { ScheduleOptions, ScheduleProgress } from './requestScheduler';
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+// Every image and text request goes through one scheduler so that bursts (batches,
+// lookbooks) are throttled and rate-limit errors are retried instead of surfaced.
+const requestScheduler = createRequestScheduler({
+    maxConcurrent: 2,
+    maxRetries: 3,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+});
+
+// Starting a video job is never retried automatically: a retry after a lost response
+// could start a second (billed) job. Polling goes through the regular scheduler.
+const videoScheduler = createRequestScheduler({
+    maxConcurrent: 1,
+    maxRetries: 0,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+});
+
+export const getModelName = (kind: keyof AiProvider['models']): string => getActiveProvider().models[kind];
+
+export const getProviderId = (): string => getActiveProvider().id;
+
+export interface ImageEditOptions extends ScheduleOptions {
+    /** Without it, the image comes back in whatever shape and size the model chose. */
+    output?: ImageOutputOptions;
+}
+
+export async function editImage(
+    prompt: string,
+    imageParts: ImagePart[],
+    maskBase64: string | null,
+    options: ImageEditOptions = {}
+): Promise<GeneratedContent> {
+    const provider = getActiveProvider();
+    const { output } = options;
+    const result = await requestScheduler.schedule(() => provider.editImage(prompt, imageParts, maskBase64, output?.aspectRatio ?? null, options.signal), options);
+    if (!output || !result.imageUrl) return result;
+    const imageUrl = await fitImageToOutput(result.imageUrl, output);
+    options.signal?.throwIfAborted();
+    return { ...result, imageUrl };
+}
+
+export function generateImageFromText(
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    options: ScheduleOptions = {}
+): Promise<GeneratedContent> {
+    const provider = getActiveProvider();
+    return requestScheduler.schedule(() => provider.generateImageFromText(prompt, aspectRatio, options.signal), options);
+}
+
+/**
+ * Starts a video job on the active provider. The job keeps running on the backend;
+ * use `pollVideoJob` to follow it.
+ * @returns The provider and operation name that identify the job from then on.
+ */
+export async function startVideoJob(
+    prompt: string,
+    image: ImagePart | null,
+    aspectRatio: VideoAspectRatio,
+    options: ScheduleOptions = {}
+): Promise<{ providerId: string; operationName: string }> {
+    const provider = getActiveProvider();
+    const operationName = await videoScheduler.schedule(() => provider.startVideo(prompt, image, aspectRatio, options.signal), options);
+    return { providerId: provider.id, operationName };
+}
+
+/**
+ * Checks on a video job once, with the provider that started it (which may no longer
+ * be the active one after a reload).
+ * @returns Null while the job is running, then a URL the browser can `fetch` to obtain the video.
+ */
+export function pollVideoJob(providerId: string, operationName: string, options: ScheduleOptions = {}): Promise<string | null> {
+    const provider = getProvider(providerId);
+    if (!provider) {
+        return Promise.reject(new Error(`The AI provider "${providerId}" that started this video is not available.`));
+    }
+    return requestScheduler.schedule(() => provider.pollVideo(operationName, options.signal), options);
+}
+
+/**
+ * Asks the stylist about the person in the image. The answer is requested as JSON in
+ * the shape of `FashionAdvice`; if it does not match, only its text is returned.
+ */
+export async function getFashionAdvice(
+    prompt: string,
+    imagePart: ImagePart,
+    options: ScheduleOptions = {}
+): Promise<FashionAdviceResult> {
+    const provider = getActiveProvider();
+    const result = await requestScheduler.schedule(() => provider.generateText(prompt, [imagePart], FASHION_ADVICE_SCHEMA, options.signal), options);
+    const text = result.text ?? '';
+    return { text, advice: parseFashionAdvice(text) };
+}
+
+export async function suggestLookbookPrompts(
+    prompt: string,
+    imagePart: ImagePart,
+    options: ScheduleOptions = {}
+): Promise<PromptSuggestion[]> {
+    const provider = getActiveProvider();
+    const result = await requestScheduler.schedule(() => provider.generateText(prompt, [imagePart], PROMPT_SUGGESTIONS_SCHEMA, options.signal), options);
+    return parsePromptSuggestions(result.text ?? '');
+}
+
+/**
+ * Makes several images from the same prompt and photo. The first failure is thrown as it
+ * is, so callers can still tell a cancellation or a rate limit from other errors.
+ */
+export async function generateLookbook(
+    prompt: string,
+    imagePart: ImagePart,
+    numImages: number,
+    options: ImageEditOptions = {}
+): Promise<string[]> {
+    await ensureQuota('imageEdits', numImages);
+    const promises: Promise<GeneratedContent>[] = [];
+    for (let i = 0; i < numImages; i++) {
+        // Pass null for maskBase64 as this flow doesn't use it.
+        promises.push(editImage(prompt, [imagePart], null, options));
+    }
+    const results = await Promise.all(promises);
+    const imageUrls = results.map(r => r.imageUrl).filter((url): url is string => !!url);
+
+    if (imageUrls.length < numImages) {
+      console.warn(`Generated only ${imageUrls.length}/${numImages} images.`);
+    }
+    if (imageUrls.length === 0) {
+        throw new Error("Failed to generate any images for the lookbook. The model may have refused the request.");
+    }
+
+    return imageUrls;
+}
+
+
+/**
+ * Makes one image per prompt from the same input images, e.g. the tiles of a moodboard.
+ * Prompts the model refuses are skipped.
+ * @throws The first failure when no image at all could be made.
+ */
+export async function generateImagesForPrompts(
+    prompts: string[],
+    imageParts: ImagePart[],
+    options: ScheduleOptions = {}
+): Promise<string[]> {
+    await ensureQuota('imageEdits', prompts.length);
+    const results = await Promise.allSettled(prompts.map(prompt => editImage(prompt, imageParts, null, options)));
+    options.signal?.throwIfAborted();
+    const imageUrls = results.flatMap(result => result.status === 'fulfilled' && result.value.imageUrl ? [result.value.imageUrl] : []);
+    if (imageUrls.length === 0) {
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        throw failure?.reason ?? new Error("Failed to generate any images. The model may have refused the request.");
+    }
+    return imageUrls;
+}
+
+/**
+ * Makes four variations of the same edit, for the user to pick from. Failures are thrown
+ * as they are, like `generateLookbook`.
+ */
+export async function generateImageEditsBatch(
+    prompt: string,
+    imageParts: ImagePart[],
+    options: ScheduleOptions = {}
+): Promise<string[]> {
+    await ensureQuota('imageEdits', 4);
+    const promises: Promise<GeneratedContent>[] = [];
+    for (let i = 0; i < 4; i++) {
+        // Pass null for maskBase64 as this flow doesn't use it.
+        promises.push(editImage(prompt, imageParts, null, options));
+    }
+    const results = await Promise.all(promises);
+    const imageUrls = results.map(r => r.imageUrl).filter((url): url is string => !!url);
+
+    if (imageUrls.length === 0) {
+      throw new Error("Failed to generate any image variations. The model may have refused the request.");
+    }
+
+    return imageUrls;
+}
@@ -0,0 +1,24 @@
+/**
+ * What the browser and the API server (server/) must agree on: where the endpoints
+ * live and how usage is reported. Both sides import it, so they cannot drift apart.
+ */
+import type { UsageKind } from '../types';
+
+// Served by server/auth.ts. The session itself lives in an HttpOnly cookie.
+export const AUTH_BASE_PATH = '/api/auth';
+// Served by server/catalogue.ts.
+export const CATALOGUE_PATH = '/api/catalogue';
+// Served by server/geminiProxy.ts, which holds the API key and calls Gemini for us.
+export const PROXY_BASE_PATH = '/api/ai';
+// Also served by the proxy, which counts usage as it calls Gemini.
+export const USAGE_PATH = `${PROXY_BASE_PATH}/usage`;
+
+// Metered responses report the user's usage for the day, so the browser's meter stays current.
+export const USAGE_HEADER = 'X-Usage';
+
+// How each kind of usage is named in limit messages.
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+    imageEdits: 'image edits',
+    textToImage: 'text-to-image images',
+    videoSeconds: 'seconds of video',
+};
@@ -0,0 +1,100 @@
+/**
+ * An error from a generation backend, with the message already rewritten for users.
+ * `retryable` marks transient failures (rate limits, server errors) that are worth
+ * sending again after a pause.
+ */
+export class ApiError extends Error {
+    readonly status?: number;
+    readonly retryable: boolean;
+
+    constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+const TRANSIENT_STATUSES = ['RESOURCE_EXHAUSTED', 'UNKNOWN', 'INTERNAL', 'UNAVAILABLE'];
+
+const isTransient = (code: number | undefined, status: string | undefined): boolean => {
+    return code === 429 || (code !== undefined && code >= 500) || (!!status && TRANSIENT_STATUSES.includes(status));
+};
+
+export const isRetryableError = (error: unknown): boolean => error instanceof ApiError && error.retryable;
+
+/**
+ * Builds the error a cancelled request rejects with. It mirrors what `fetch` throws
+ * for an aborted signal, so callers need only one check.
+ */
+export const abortError = (): DOMException => new DOMException("The request was cancelled.", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Waits for a delay, rejecting early with an abort error if the signal fires.
+ */
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+export const handleApiError = (error: unknown, signal?: AbortSignal): Promise<any> => {
+    // A cancelled request is not a failure; pass it through untouched and quietly.
+    if (isAbortError(error) || signal?.aborted) {
+        return Promise.reject(isAbortError(error) ? error : abortError());
+    }
+    console.error("Error calling Gemini API:", error);
+    if (error instanceof ApiError) {
+        return Promise.reject(error);
+    }
+    if (error instanceof Error) {
+        let errorMessage = error.message;
+        // The SDK's own ApiError carries the HTTP status.
+        const sdkStatus = (error as { status?: unknown }).status;
+        let code = typeof sdkStatus === 'number' ? sdkStatus : undefined;
+        let status: string | undefined;
+        try {
+            // Attempt to parse a potential JSON error message from the API
+            const potentialJson = errorMessage.substring(errorMessage.indexOf('{'));
+            const parsedError = JSON.parse(potentialJson);
+            if (parsedError.error && parsedError.error.message) {
+                code = typeof parsedError.error.code === 'number' ? parsedError.error.code : code;
+                status = parsedError.error.status;
+                if (parsedError.error.status === 'RESOURCE_EXHAUSTED') {
+                    errorMessage = "You've likely exceeded the request limit. Please wait a moment before trying again.";
+                } else if (parsedError.error.code === 500 || parsedError.error.status === 'UNKNOWN') {
+                    errorMessage = "An unexpected server error occurred. This might be a temporary issue. Please try again in a few moments.";
+                } else {
+                    errorMessage = parsedError.error.message;
+                }
+            }
+        } catch (e) {
+            // Not a JSON error, use original message
+        }
+        return Promise.reject(new ApiError(errorMessage, { status: code, retryable: isTransient(code, status) }));
+    }
+    return Promise.reject(new Error("An unknown error occurred while communicating with the API."));
+};
+
+/**
+ * Builds the error thrown when an image-edit response contains no image.
+ * @param finishReason The candidate's finish reason, if any.
+ * @param blockedCategories Safety categories that blocked the candidate.
+ */
+export const missingImageError = (finishReason: string | undefined, blockedCategories: string[] = []): Error => {
+    if (finishReason === 'SAFETY') {
+        return new Error(`The request was blocked for safety reasons. Categories: ${blockedCategories.join(', ') || 'Unknown'}. Please modify your prompt or image.`);
+    }
+    return new Error("The model did not return an image. It might have refused the request. Please try a different image or prompt.");
+};
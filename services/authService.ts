@@ -0,0 +1,62 @@
+import { ApiError } from './apiErrors';
+import { AUTH_BASE_PATH } from './apiContract';
+
+export interface AuthSession {
+    username: string;
+    expiresAt: number; // Epoch milliseconds
+    isAdmin: boolean; // May edit the effects catalogue
+}
+
+const expiredListeners = new Set<() => void>();
+
+/**
+ * Registers a callback for when the server rejects a request because the session ended.
+ * @returns A function that unregisters the callback.
+ */
+export const onSessionExpired = (listener: () => void): (() => void) => {
+    expiredListeners.add(listener);
+    return () => expiredListeners.delete(listener);
+};
+
+export const notifySessionExpired = () => {
+    expiredListeners.forEach(listener => listener());
+};
+
+const callAuth = async (path: string, init: RequestInit = {}): Promise<any> => {
+    const response = await fetch(`${AUTH_BASE_PATH}${path}`, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const message = typeof body?.error?.message === 'string' ? body.error.message : `Sign-in failed with status ${response.status}.`;
+        throw new ApiError(message, { status: response.status });
+    }
+    return body;
+};
+
+/**
+ * Looks up the current session.
+ * @returns The session, or null when nobody is signed in.
+ */
+export const fetchSession = async (): Promise<AuthSession | null> => {
+    try {
+        return await callAuth('/session');
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 401) return null;
+        throw error;
+    }
+};
+
+/**
+ * Signs in. The server sets the session cookie, which keeps the user signed in across reloads.
+ * @throws An `ApiError` with status 401 when the credentials are wrong.
+ */
+export const login = (username: string, password: string): Promise<AuthSession> => {
+    return callAuth('/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+    });
+};
+
+export const logout = async (): Promise<void> => {
+    await callAuth('/logout', { method: 'POST' });
+};
@@ -0,0 +1,139 @@
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type BatchQueueState = 'idle' | 'running' | 'paused';
+
+export interface BatchItem<I, R> {
+    id: string;
+    input: I;
+    status: BatchItemStatus;
+    attempts: number;
+    result?: R;
+    error?: string;
+}
+
+export interface BatchQueueOptions<I, R> {
+    concurrency: number;
+    /**
+     * Processes one item. The signal is aborted when the item is cancelled; a result
+     * that arrives after cancellation is discarded either way.
+     */
+    process: (input: I, signal: AbortSignal) => Promise<R>;
+    onChange: (items: BatchItem<I, R>[], state: BatchQueueState) => void;
+}
+
+export interface BatchQueue<I> {
+    add: (inputs: I[]) => void;
+    remove: (id: string) => void;
+    start: () => void; // Also resumes a paused queue
+    pause: () => void; // Running items finish, no new ones start
+    cancel: () => void; // Stops queued and running items
+    retry: (ids?: string[]) => void; // Re-queues failed and cancelled items, all of them by default
+    setConcurrency: (concurrency: number) => void;
+    clear: () => void; // Cancels everything and empties the queue
+}
+
+/**
+ * Creates a queue that runs items through `process` with at most `concurrency`
+ * of them in flight at once. Every change is reported through `onChange` as a
+ * fresh snapshot, so it can be put straight into React state.
+ */
+export const createBatchQueue = <I, R>(options: BatchQueueOptions<I, R>): BatchQueue<I> => {
+    let items: BatchItem<I, R>[] = [];
+    let state: BatchQueueState = 'idle';
+    let concurrency = Math.max(1, options.concurrency);
+    const controllers = new Map<string, AbortController>();
+
+    const notify = () => options.onChange(items.map(item => ({ ...item })), state);
+
+    const update = (id: string, changes: Partial<BatchItem<I, R>>) => {
+        items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    };
+
+    const runItem = async (item: BatchItem<I, R>) => {
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        update(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+        notify();
+        try {
+            const result = await options.process(item.input, controller.signal);
+            if (controller.signal.aborted) return;
+            update(item.id, { status: 'done', result });
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            update(item.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        } finally {
+            // The item may have been cancelled and restarted meanwhile; only clean up our own run.
+            if (controllers.get(item.id) === controller) controllers.delete(item.id);
+        }
+        pump();
+    };
+
+    // Starts queued items until the concurrency limit is reached.
+    const pump = () => {
+        if (state === 'running') {
+            let running = items.filter(item => item.status === 'running').length;
+            for (const item of items) {
+                if (running >= concurrency) break;
+                if (item.status === 'queued') {
+                    running++;
+                    runItem(item);
+                }
+            }
+            if (running === 0) state = 'idle';
+        }
+        notify();
+    };
+
+    const abortItems = (predicate: (item: BatchItem<I, R>) => boolean) => {
+        items.forEach(item => {
+            if (!predicate(item)) return;
+            controllers.get(item.id)?.abort();
+            controllers.delete(item.id);
+        });
+    };
+
+    return {
+        add: inputs => {
+            items = [...items, ...inputs.map(input => ({ id: crypto.randomUUID(), input, status: 'queued' as const, attempts: 0 }))];
+            pump();
+        },
+        remove: id => {
+            abortItems(item => item.id === id);
+            items = items.filter(item => item.id !== id);
+            pump();
+        },
+        start: () => {
+            state = 'running';
+            pump();
+        },
+        pause: () => {
+            if (state === 'running') state = 'paused';
+            notify();
+        },
+        cancel: () => {
+            abortItems(item => item.status === 'running');
+            items = items.map(item => item.status === 'queued' || item.status === 'running' ? { ...item, status: 'cancelled' } : item);
+            state = 'idle';
+            notify();
+        },
+        retry: ids => {
+            items = items.map(item =>
+                (item.status === 'failed' || item.status === 'cancelled') && (!ids || ids.includes(item.id))
+                    ? { ...item, status: 'queued', error: undefined }
+                    : item
+            );
+            if (state === 'idle') state = 'running';
+            pump();
+        },
+        setConcurrency: value => {
+            concurrency = Math.max(1, value);
+            pump();
+        },
+        clear: () => {
+            abortItems(() => true);
+            items = [];
+            state = 'idle';
+            notify();
+        },
+    };
+};
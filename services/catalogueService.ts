@@ -0,0 +1,157 @@
+import type { Catalogue, CatalogueEntry, CataloguePromptVariable, LocalizedText, PromptVariable, Transformation } from '../types';
+import { lookupTranslation, type ExtraTranslations, type Language } from '../i18n/context';
+import en from '../i18n/en';
+import vi from '../i18n/zh';
+import { ApiError } from './apiErrors';
+import { CATALOGUE_PATH } from './apiContract';
+import { notifySessionExpired } from './authService';
+
+// Catalogue texts are registered as translations under this key, e.g. `catalogue.<key>.title`.
+const TRANSLATION_ROOT = 'catalogue';
+
+const LANGUAGES: Language[] = ['en', 'vi'];
+
+const TEXT_FIELDS = {
+    title: 'titleKey',
+    description: 'descriptionKey',
+    primaryUploaderTitle: 'primaryUploaderTitle',
+    primaryUploaderDescription: 'primaryUploaderDescription',
+    secondaryUploaderTitle: 'secondaryUploaderTitle',
+    secondaryUploaderDescription: 'secondaryUploaderDescription',
+} as const satisfies Partial<Record<keyof CatalogueEntry, keyof Transformation>>;
+
+type TextField = keyof typeof TEXT_FIELDS;
+
+const callCatalogue = async (init: RequestInit = {}): Promise<any> => {
+    const response = await fetch(CATALOGUE_PATH, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok || body === null) {
+        if (response.status === 401) notifySessionExpired();
+        const message = typeof body?.error?.message === 'string' ? body.error.message : `The catalogue request failed with status ${response.status}.`;
+        throw new ApiError(message, { status: response.status });
+    }
+    return body;
+};
+
+/**
+ * Loads the catalogue saved by an admin.
+ * @returns The catalogue, or null when none has been saved and the built-in effects apply.
+ */
+export const fetchCatalogue = async (): Promise<Catalogue | null> => {
+    try {
+        return await callCatalogue();
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        throw error;
+    }
+};
+
+/**
+ * Replaces the catalogue for everyone. Only admins may do this.
+ * @returns The catalogue as the server saved it.
+ */
+export const saveCatalogue = (entries: CatalogueEntry[]): Promise<Catalogue> => {
+    return callCatalogue({
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries }),
+    });
+};
+
+const toLocalizedText = (key: string): LocalizedText => ({
+    en: lookupTranslation(en, key) ?? key,
+    vi: lookupTranslation(vi, key) ?? lookupTranslation(en, key) ?? key,
+});
+
+const toCatalogueVariable = ({ labelKey, options, ...variable }: PromptVariable): CataloguePromptVariable => ({
+    ...variable,
+    label: toLocalizedText(labelKey),
+    ...(options && { options: options.map(option => ({ value: option.value, ...(option.labelKey && { label: toLocalizedText(option.labelKey) }) })) }),
+});
+
+const toEntry = (transformation: Transformation, category?: string): CatalogueEntry => {
+    const { key, emoji, prompt, stepTwoPrompt, videoPrompt, isMultiImage, isSecondaryOptional, isTwoStep, isVideo, isMultiStepVideo, usesVietQr, maxImages } = transformation;
+    const entry: CatalogueEntry = {
+        key, emoji, title: toLocalizedText(transformation.titleKey),
+        prompt, stepTwoPrompt, videoPrompt, isMultiImage, isSecondaryOptional, isTwoStep, isVideo, isMultiStepVideo, usesVietQr, maxImages,
+        ...(category && { category }),
+        ...(transformation.items && { isCategory: true }),
+        ...(transformation.variables && { variables: transformation.variables.map(toCatalogueVariable) }),
+    };
+    (Object.keys(TEXT_FIELDS) as TextField[]).forEach(field => {
+        const textKey = transformation[TEXT_FIELDS[field]];
+        if (field !== 'title' && textKey) entry[field] = toLocalizedText(textKey);
+    });
+    // Drop unset fields, so the saved file only lists what each effect uses.
+    return JSON.parse(JSON.stringify(entry));
+};
+
+/**
+ * Turns the built-in effects into catalogue entries, with their texts in every language.
+ * Admins start from this until a catalogue has been saved.
+ */
+export const buildDefaultCatalogueEntries = (transformations: Transformation[]): CatalogueEntry[] => {
+    return transformations.flatMap(transformation => transformation.items
+        ? [toEntry(transformation), ...transformation.items.map(item => toEntry(item, transformation.key))]
+        : [toEntry(transformation)]
+    );
+};
+
+/**
+ * Turns a catalogue into the effects the app shows. Disabled entries, the effects of
+ * disabled categories and empty categories are left out. The texts are returned as
+ * translations to register, since effects refer to their texts by translation key.
+ */
+export const catalogueToTransformations = (catalogue: Catalogue): { transformations: Transformation[]; translations: ExtraTranslations } => {
+    const translations: Record<Language, Record<string, Record<string, any>>> = { en: {}, vi: {} };
+
+    const toTransformation = (entry: CatalogueEntry): Transformation => {
+        const { key, emoji, prompt, stepTwoPrompt, videoPrompt, isMultiImage, isSecondaryOptional, isTwoStep, isVideo, isMultiStepVideo, usesVietQr, maxImages } = entry;
+        const transformation: Transformation = {
+            key, emoji, titleKey: `${TRANSLATION_ROOT}.${key}.title`,
+            prompt, stepTwoPrompt, videoPrompt, isMultiImage, isSecondaryOptional, isTwoStep, isVideo, isMultiStepVideo, usesVietQr, maxImages,
+        };
+        (Object.keys(TEXT_FIELDS) as TextField[]).forEach(field => {
+            const text = entry[field];
+            if (!text) return;
+            transformation[TEXT_FIELDS[field]] = `${TRANSLATION_ROOT}.${key}.${field}`;
+            LANGUAGES.forEach(language => {
+                translations[language][key] ??= {};
+                translations[language][key][field] = text[language] ?? '';
+            });
+        });
+        if (entry.variables) {
+            // Variable texts go under `catalogue.<key>.variables.<name>.label` and `.options.<index>`.
+            transformation.variables = entry.variables.map(({ label, options, ...variable }) => {
+                const root = `${TRANSLATION_ROOT}.${key}.variables.${variable.name}`;
+                LANGUAGES.forEach(language => {
+                    translations[language][key] ??= {};
+                    translations[language][key].variables ??= {};
+                    translations[language][key].variables[variable.name] = {
+                        label: label[language] ?? '',
+                        ...(options && { options: options.map(option => option.label?.[language] ?? option.value) }),
+                    };
+                });
+                return {
+                    ...variable,
+                    labelKey: `${root}.label`,
+                    ...(options && { options: options.map((option, index) => ({ value: option.value, ...(option.label && { labelKey: `${root}.options.${index}` }) })) }),
+                };
+            });
+        }
+        return transformation;
+    };
+
+    const enabled = catalogue.entries.filter(entry => !entry.disabled);
+    const transformations = enabled
+        .filter(entry => !entry.category)
+        .map(entry => entry.isCategory
+            ? { ...toTransformation(entry), items: enabled.filter(item => item.category === entry.key).map(toTransformation) }
+            : toTransformation(entry))
+        .filter(transformation => !transformation.items || transformation.items.length > 0);
+
+    return {
+        transformations,
+        translations: { en: { [TRANSLATION_ROOT]: translations.en }, vi: { [TRANSLATION_ROOT]: translations.vi } },
+    };
+};
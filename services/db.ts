@@ -0,0 +1,71 @@
+const DB_NAME = 'x-studio';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const VIDEO_JOB_STORE = 'videoJobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+/**
+ * Opens the app's IndexedDB database, creating or upgrading its object stores as needed.
+ * The connection is shared by every store module.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(VIDEO_JOB_STORE)) {
+                    db.createObjectStore(VIDEO_JOB_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+        // Ask the browser not to evict our data under storage pressure. Best effort only.
+        navigator.storage?.persist?.().catch(() => {});
+    }
+    return dbPromise;
+};
+
+/**
+ * Gives the history entries and video jobs saved before they were kept per user to this
+ * user, so they are not lost. Only the first user to sign in afterwards finds any.
+ */
+export const claimUnownedRecords = async (username: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([HISTORY_STORE, VIDEO_JOB_STORE], 'readwrite');
+    [HISTORY_STORE, VIDEO_JOB_STORE].forEach(storeName => {
+        const request = tx.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if (!cursor.value.username) cursor.update({ ...cursor.value, username });
+            cursor.continue();
+        };
+    });
+    await transactionDone(tx);
+};
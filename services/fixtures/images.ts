@@ -0,0 +1,8 @@
+// Deterministic placeholder images replayed by the mock AI provider.
+// Each entry is a 256x256 PNG encoded as base64.
+
+export const MOCK_IMAGE_FIXTURES: { name: string; base64: string }[] = [
+  { name: "sunset", base64: "iVBORw0KGgoAAAANSUhEUgAAAQAAAAEACAIAAADTED8xAAAGh0lEQVR42u3TeZ+WdRnG4d9rymyxzLLFLDMEZRFZRBYFZFEQkEVEUEAWZbFcKrPSMi3NyqUCRECNokxNIylT0yjK1DTqn7rhYcbHYYBnmAeYuc/j8zlewXVe3/LfmwZArPKf9QMglgAID2DdORBLAGQHsHfdQIhV9q4dCLGqAAZBrLJ3zSCIVf695lyIJQDCA7jxPIglALIDeOeGwRBLAKQHMARilXdWD4FYAiA7gLdXDYVYAiA9gGEQq7y9chjEKv9aeT7EEgDhAawYDrEEQHYAb11/AcQSAOkBjIBY5a3lIyBWeXP5SIhV3lw2EmJVAYyCWAIgPICloyBWeWPpaIhV3rhuNMSqArgQYgmA7AD+ee0YiCUAwgNYchHEEgDZAby+ZCzEKq8vHguxqgDGQSwBkB3AP64ZD7EEQHgAi8ZDrCqACRBLAGQH8PerL4ZYAiA8gIWXQCwBkB3AnoUTIVbZc9VEiFUFMAlilT0LJkGs8rcFkyGWAAgPYP6lEEsApAcwBWKVv86bArEEQHgAc6dCLAGQHcDuudMgVtl95TSIVQUwHWKV3XOmQ6zylzmXQSwBEB7A7MshlgDIDuC1WTMglgBID2AmxCqvXTETYgmA7ABenXkFxBIA6QHMgljl1RmzIFb584zZEEsAhAdw+RyIJQCyA3jlsishlgBID2AuxCqvTJ8LscrL0+dBrPLytHkQqwpgPsQSAOEBTJ0PscpLUxdArPLSlAUQqwrgKoglALID+NOlCyGWAAgPYPLVEEsAZAfw4uRFEKu8OGkRxKoCuAZiCYDsAP44cTHHwf9emN1TjnYcCKBvPb0YjnsAlyymvdr4992U4MJtVQWwhHY5pq//3gxcuz0E0M9eXwZtDuAPF19Lb5yQ129mgt4QQP/+fg30OoAJ13F0+sj3H2jAIkdFAP3+9WXQqwB2TVhKj/TZ728wUI+UXeOX0ro+/v0HGrBUy6oAltGifvH9HQ3YqyVl17hltKIfff+BBqzWgvLCuOUcUb/7/gbDHZEAavv9GmgtgLHXc3j9OwALHpYA6vz9GmglgBUcSg2+v6MBa3av/P6iFXSrNt/fYNBuCUAA4QGMWcnBavb9Bxqw7EEEIIDsAHaOWUUXtfz+BuN2UXZeuIou6hyAfd+rCmA1zWr8/R0NWPldZefo1TSrfwBWblJ+N/oGmtU+ABM3E0DW92vgoABG3UinlABs3UEAAsgO4PmRa+gUEoChOwkg7vs10CWAtTSEBWDxfcrzI9bSkBWAxfcTgACyA3jugnU0RAVg7gYBCCA9gPU0hAVg8X3Kc8PX05AVgMX3K78dfhMNUQGYu0EAAggP4Pwv0ZAVgMX3E4AAsgN4dtiXaYgKwNwNAhBAegA30xAWgMX3Kc8OvZmGrAAsvl95ZugtNEQFYO6G8syQW+iU8v227lAFcCudYgKw9QECEEB4AINvpVNKALbuUJ4efBvNav/9Jm5Wnj7vNprVPwArN6kC+ArNAgKw8rsEkNWAcbsG8Jtzv0oXNQ7AuF0IIKgBs3YXwKCvcbB6BmDZgwggpQGDdh/AU4Nup1s1C8Cg3SpPDbydQ6nP91vzEKoAvs5h1OL77XhIAqh5A+Y7QgC/PucODq9fB2C+wxNAnRswXAsBDLiDVvS/77daC6oAvkGL+tX326slAqhhA2bqQQC/+uI36ZE+/v0G6hEB1KoB0/Q8gLO/xdHpW69vkaMigDo0YIijD2DH2XfSGyf8+03QG2XHF+6k907M67t8r1UB3EW7HMfXd+32KDvOuov2Orav78JtVX551rc5Rtr49455jAig78bgaMclgM9/B2IJgPQA7oZY5RefuxtiCYDwAM78LsQSANkBbD/zHohVtn/2HohVBXAvxCrbz7gXYpWfn/E9iCUAwgP4zPchlgDIDuDJT98HsQRAegD3Q6zy5Kfuh1gCIDuAJz75A4glANIDeABilSdOfwBilcdP/yHEEgDhAXziRxBLAGQHsO3jP4ZYAiA9gAchVtl22oMQq2w97SGIVbZ+7CGIVQXwMMQSAOEBnPowxCpbTn0EYpUtH30EYlUB/ARiCYDsAB77yE8hlgAID+CUn0EsAZAdwOZTNkCssvnDGyBWFcBGiCUAsgN49EObIJYACA/gg5sgVhXAoxBLAGQHsOkDmyGWAAgP4OTHIJYAyA5g48lbIFbZ+P4tEKsKYCvEKhtP2gqxyoaTtkEsARAewPseh1gCINr/AdaFa0gqs4jiAAAAAElFTkSuQmCC" },
+  { name: "checker", base64: "iVBORw0KGgoAAAANSUhEUgAAAQAAAAEACAIAAADTED8xAAAEAUlEQVR42u3TQQ3AIBREQZRUDpoqpyIqAlmIIOxlJ0HAhP1vPO+6+ub/XX38/CdvGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AD4heAA+IXgAPiF4AD4heAA+IPBeCD+Jv9AuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BeCA+AXggPgF4ID4BeCA+AXggPhTAfgg/ma/APgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ATggfgE4IH4BOCB+ATggfgE4IP5UAD6Iv9kvAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAA6IXwAOiF8ADohfAA6IXwAOiD8VgA/ib/YLgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAPiF4AD4heAA+IXgAPiF4AD4k8F4IP4m/0C4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgFYAB+ARiAXwAG4BeAAfgF4ID4BeCA+AXggPgF4ID4BeCA+FMB+CD+Zr8A+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BGIBfAAbgF4AB+AVgAH4BOCB+ATggfgE4IH4BOCB+ATgg/lQAPoi/2S8AfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ABuAXgAH4BWAAfgEYgF8ADohfAA6IXwAOiF8ADohfAA6IP+TfEUwWReMwBYgAAAAASUVORK5CYII=" },
+  { name: "rings", base64: "iVBORw0KGgoAAAANSUhEUgAAAQAAAAEACAIAAADTED8xAAALbUlEQVR42u3d3ZErRRCE0XKhH8BRfMEKTMEheIFLQATsor2SZuonMysVMkDT+s7MaFfqij9+/uXh8+Q9fv/1h6Lnbz/96CfCs+4tTuzwYedRWv/O9L86p6Q8zSDXQNDVv6d1UhVcBoKofhdP5IHFQKTXr5c+RfSYGGAZPADg+mWih8IAbiCQ63f3MhJgDQRm/e5eUgKggdhc/9ruByWgGQio+t39Egk4BmLVid994zAAuRTEkvrdNCADBAOhfdvjiPElzBoI1fpdLRGDQQOhV79LZWQwZSBG6nf6ZlDKoASA6/dTz0AI1A8Yx6l5LGHQaSCo6xdunUsFr4HoqV8s/YP6MIN3DYTrZ48eCgOdgXIA1OkflQc1gzEAa+s/ug8beBUAVP1O3wyKDITr39P9iARwA7G8/uNHPQNkAwFbv7sXk4BpILbV78oHGQAayAQAXr/LRmAAYuABAIT6nb4ZNBsI7fpdMCwDEAPh+v3YbOAuAMz63SsLg3EDIVY/TivIoyKgGMwaCNePmTs4CRkDkwDY0x+JHgoDlIFWAGvrh4oeAQO7geivnzF9iu4HJeAwKAewqn7S7kckkBoI0jsfpw/IgPFeKOhO/+4eXALXRSBc/6r0exgQGQjXvzD9BgYsBmJz/cvTr2ZAYaAcgNM3g0EDCQDE6nfl/QyQDYTr93OzgVhSv5seZ4BpABSA05dkwATA9UPtj2QDRQbC9TPOuLeBrHVLBgBSv2T0CBjYDbwEYOr0z1X/ePdTEhAMJK5SgJz+WeoH7L5fArWBJwB463f3zRI0DITGrb/TH2Eg8GEgBE7/Tn+QAftFIFy/fPrVDKgN3AUgVr9w+qUMGA18ANB/+kerf0n6dQwGDdxZgSA9/Tt9QAaMF4Fw/X5uNjAAAKR+d1/EgOtGKFy/n5sNMAFw/UsMoAPgrb+/J7Q5u50MKAz0AdhTP8vQaUkD5QD6T/8U9VcPWx/BMGugZ1liw82PWPedEuRvhEL75kc+fQoGyDdCIXzzs6T7HgmqN0IBe/pHq58i/VIGXAaSAXCd/l0/oAHMi0Donf6dfikDsYtAuH7h9IsYKBmAAwBy6y9Wf66BkQ8DZAB4T/+S6YOMZe+/CCQAYDn9u355AxUHGxqnf9fPZQDnIhACp3+nTzGRF/MiECCn/8Gbn7X1949lnzJwEcCG039PZFMbp4EbQLgIBPXpH7n+k/2wgYqLADEAzPpP/UPJAC6Atrd/5PTP2H2DBJaLQOLRxcLTv0D6dQy2XQSGAVDXf5Ae2wzUAlA9/avWj2OA7iIQPv0LpJ/OYM9FYBGADfUjGKAH4Pp5089lsMHACgAL6581sAtA28dfgeH1dAY6LwI9B/gEgE//SvUPGmC5CNAAcP0bDPABED79H62HLwLEAFz/HgOTAHz/U1p/89DFXAOqd0HdALbVDzKBVNvAGADY0z9C/YDDqEcMgN8FGUA+gPT00xkYwAMAMvc/MsPrZcayI98FGQBf/bMGDEDz/oer/sFxvGJ3QdAA9kyw1J7EeMGAIADY0z91/SMGNO6CPgDQ+ADAOL913EDPRQD2Y0Asv//RqB9w23GWuyADMAADkPgAsLx+fAOYHwMMQKd+nC2XDUD2/ge8/vF9pmbvggxg++l/8Me1xAAA/wYqfPqvnsGIfBEA/EtoaPwJiAIA+ChSAQAXjiJ2fgJurp9lANHCz8HhDwDVAIiGryz8GKAAAPN7HInzW9sMLPwYYACFAFLq79xixABWAID9JQP7FiMGYAAGYAByABDqB/9WvQEYgAEYgAFU1g/7bQIDMAADMAADMAADMAADMAADMAADMAADMAADMAADMAADMAADMAADMAADMAADMAAD8HeB/F0gAzAAAzAA/x7AvwcwAAMwAAPwb4L9m2AD8K4Q3hXCALwvkPcF2gzAO8N5ZzgpAMd7g3pvUKW9Qb07tHeHltod2h8Dmg14PoAHZHhCjCfEGIBnhHlGmAF4SqSnROoDOJ4T7DnBHpRtAAYgAkDmLkjGQGf9Gvc/HwDIfKu+EwCOgTuHgHn6b/slQyB/m6AHALuB5vqV7n/QAbAYmGJw8zXD1s8BQOku6D6AfgP3X7ASgMsHYgCUBqbqVwbgu6AUA9UMUl6hWP13vshkAPkAihgkvjYDyAGAvMUIgoEsBrkvqbN+8PufAQALDVw78KLXoFd/JgCxLUYuv9l1BmYfdxZEdSuXYPlxrQ1sqJ8PgPBFQMnAzXVQvf9hAmAD8vVDAED+ce3lzUU2Gxipv+30f27/lDm4flw7AoDXwP0D1z79bwGw08BU/fQAbICdQcqRbqh/F4AlBmbrNwD9iwAsg8Sjw6+/FoAvAnQGEOqnO/3PA2A3gMAg93Ao6gcFQLTvfm40UwzSj0J1jsEVANoXgQoDbRKKXjnFEKfc0z83AFgDRRJKXy3RGBtoADaQi6Hn5cnXfxEAy5bLFAZgn1P1g2xkHRVxcF0ENhsgmmBZcfp/DoBlx9mUaaROH7z+U7CRYxRlQXcjtMrAbP04p/+XABBtO24DwvWfmn18o66JfgBZBlQZZC0OyxAnSgAIFwFJA4krozTHIEprYDegwSB3QcSmeER1BwIGeBmkrwNR/ckA6AYQ2QBU/bBDnKKhABkDLAwqDpyr/hIAjAOIKlKAlVB3sMJDnKLnXR80sIEBbPoj9RcCYLwRqjYwKKH6oBjnt767LNH2Zs9eBBoM9GBoO4olEyyj8w3eYyAXQ//LJq2/CQC1gREGRE/e6cXXzhRMAGxgQ/3dAOgGENmA60+8URwAADWW3d0npj9Y/y0ANuD6d9b/7TXHzQhkxrI7/VXD6z8DIJ1Clz6M2unT1X9zikfcf+/FDGgzqFguxvofALABbQZFq0RdPwQAZAMaDOoWZ3y/x2QAvBeBUgO8DErXZHzD05RlCZD5K1k7yJa+5SwSqhcBYbvfrMWJ3Pd4gwFYCT0HTl3/SwAERlL3pAAiofNgQbZ6T1yrSH9TcbbV7yyjGUP/oeEMOshdtwAcQERtoMjD7IGo1v89ADbgp3z9uADSRwy549n0T8a0m24AYgbMYCp92PqfA7AB1y9c/0sA9AyYQVv64PV3AMjaGcEMFqbfMMMvev6ihzyD2umvrf8NANoGdjKoW0yi+a3R+Z8dcAN7GJSuIdf04lYAidsGnuKHu59Kv3l6cby7iDj7Zp76h9Pvr795eH1cWM1VBqgltK0Paf0XAUDdC3UyYJHQuSBQG19fWKu4vMprDWBiGFkB9vqHAaRvpX/mHnuiT09/dnh93HkDbKCTBM6hydT/F4ADMJE3fYzK8YMh/fH6EwDAGjAD8PQR6v8HgA34sbP+b4cWWfesyOPlXDBU+jj1fwBwYKZSm4HTb5vdnQkA34AZDKaPU/+XAJYYMIP+9DHrfwAAykDDBHZHX9197pzj9H+nRNE/cYgMbGbQsLbI9X8JYKGBVRLa1hO8/u8BQDNgBmvTr6v/CYDNBsQkNK8bS/0dACr2TG5+O0kxjKwS5j7Y1wHYABeG2WWhq/8lACfvm71iDEAwICwC7ACEp6sXL64y8ggJhAJ6VAAeKfL4j1eWNF5fffAxKoBxaD/Bh9+8WHW8dQayAT+V6n8bwEn9pZ8ZOP2KGVBv9RwX7kQppsq5VJb0B+u/CIDFgBngpz9b/3UAJ3vXg+q5oo4Yrfv00ZfXMo47f5WjG7LrpkHSB6n/LgCu2yEzAEl//LYnGQDjpcASRrrHOfH/CyDr35akBpZLaF5nwK3yIvFf9+mbATa/PXsk9C8s5kaR35Yicr++UrEFbP+7pSphZCVhdwX+e00i/StcMgY0MMwuHXj9nwEkfo1RjwERBoSFQt4O/r9rFXVf5S3aFB/h3UXzALUm4MMQPi1dlH6dvW42BNRb3qkC+cDxR4H8fz3/BPZWM9hS+LycAAAAAElFTkSuQmCC" },
+];
@@ -0,0 +1,15 @@
+// Canned text answers replayed by the mock AI provider.
+
+export const MOCK_TEXT_FIXTURES: string[] = [
+  "For a relaxed weekend look, pair a cream linen shirt with light-wash straight jeans and white leather sneakers. Add a woven tote and thin gold hoops to finish the outfit.",
+  "Try a navy double-breasted blazer over a fitted white tee, tailored charcoal trousers and brown loafers. A slim leather watch and a silk pocket square keep it polished.",
+  "Go for a flowing sage-green midi dress with strappy tan sandals. Layer a cropped denim jacket for the evening and accessorise with a straw hat and a beaded bracelet.",
+];
+
+// JSON answers replayed when a schema is requested; the mock picks those that have the schema's required keys.
+export const MOCK_JSON_FIXTURES: string[] = [
+  "{\"summary\": \"Soft neutrals with one warm accent keep this look easy and polished.\", \"items\": [{\"name\": \"Linen shirt\", \"category\": \"top\", \"color\": \"cream\", \"styleTags\": [\"relaxed\", \"minimalist\"], \"occasion\": \"Weekend brunch\", \"reasoning\": \"Breathable and light, it softens the face; wear it half tucked.\"}, {\"name\": \"Wide-leg trousers\", \"category\": \"bottom\", \"color\": \"camel\", \"styleTags\": [\"tailored\"], \"occasion\": \"Weekend brunch\", \"reasoning\": \"A high waist lengthens the legs and balances the loose shirt.\"}, {\"name\": \"Leather loafers\", \"category\": \"footwear\", \"color\": \"cognac\", \"styleTags\": [\"classic\"], \"occasion\": \"All day\", \"reasoning\": \"Smart but comfortable for a full day on foot.\"}, {\"name\": \"Woven tote\", \"category\": \"accessory\", \"color\": \"natural straw\", \"styleTags\": [\"summer\"], \"occasion\": \"Daytime\", \"reasoning\": \"Adds texture to an otherwise smooth outfit.\"}, {\"name\": \"Gold hoops\", \"category\": \"accessory\", \"color\": \"gold\", \"styleTags\": [\"minimalist\"], \"occasion\": \"Any\", \"reasoning\": \"A small warm highlight near the face.\"}]}",
+  "{\"summary\": \"A sharp, dark base with clean lines suits an evening event.\", \"items\": [{\"name\": \"Slip dress\", \"category\": \"dress\", \"color\": \"emerald\", \"styleTags\": [\"elegant\", \"evening\"], \"occasion\": \"Wedding guest\", \"reasoning\": \"The jewel tone flatters warm skin and photographs well.\"}, {\"name\": \"Cropped blazer\", \"category\": \"outerwear\", \"color\": \"black\", \"styleTags\": [\"tailored\"], \"occasion\": \"Evening\", \"reasoning\": \"Structure over the soft dress, and warmth later in the night.\"}, {\"name\": \"Strappy heels\", \"category\": \"footwear\", \"color\": \"gold\", \"styleTags\": [\"elegant\"], \"occasion\": \"Evening\", \"reasoning\": \"Echoes the jewellery and elongates the silhouette.\"}, {\"name\": \"Pearl drop earrings\", \"category\": \"accessory\", \"color\": \"ivory\", \"styleTags\": [\"classic\"], \"occasion\": \"Wedding guest\", \"reasoning\": \"Refined without competing with the dress.\"}]}",
+  "{\"suggestions\": [{\"title\": \"Linen morning in the old town\", \"prompt\": \"A full-body lookbook photo of the person walking down a sunlit lane of yellow shophouses in the early morning. They wear a cream linen shirt, half tucked into camel wide-leg trousers, with cognac loafers and a woven straw tote. Soft, low golden light from the side, gentle shadows, a slight motion in the fabric. Eye-level camera, 50mm lens, shallow depth of field. Relaxed, warm and effortless mood.\"}, {\"title\": \"Studio minimalism\", \"prompt\": \"A three-quarter studio portrait of the person against a seamless warm grey backdrop. They wear a tailored cream shirt with the sleeves rolled, camel trousers and thin gold hoops. One hand in a pocket, weight on one leg, looking just past the camera. Large soft key light from the front left with a subtle rim light. Clean, editorial and calm mood, crisp fabric texture.\"}, {\"title\": \"Café terrace afternoon\", \"prompt\": \"The person sits at a small marble table on a café terrace, legs crossed, holding a glass of iced coffee. Cream linen shirt, camel trousers, cognac loafers, woven tote on the chair beside them. Dappled afternoon sunlight through leaves, warm tones. Camera slightly above eye level, 35mm lens, candid lifestyle framing. Easy, friendly weekend mood.\"}]}",
+  "{\"suggestions\": [{\"title\": \"Evening garden party\", \"prompt\": \"A full-body lookbook photo of the person standing in a garden lit by string lights at dusk. They wear an emerald slip dress with a cropped black blazer over the shoulders, gold strappy heels and pearl drop earrings. Blue-hour ambient light mixed with warm bokeh from the lights. Low camera angle, 85mm lens, elegant and confident pose. Romantic, festive mood.\"}, {\"title\": \"Hotel staircase glamour\", \"prompt\": \"The person descends a grand marble staircase, one hand on the brass rail. Emerald slip dress, black cropped blazer, gold heels, pearl earrings catching the light. Warm chandelier light from above with soft reflections on the marble. Wide shot from the bottom of the stairs, symmetrical composition. Glamorous, cinematic mood.\"}, {\"title\": \"Clean studio elegance\", \"prompt\": \"A three-quarter studio portrait of the person against a deep green backdrop that echoes the dress. Emerald slip dress, blazer held over one shoulder, pearl drop earrings. Chin slightly raised, gaze to the camera. Single large softbox from the side for sculpted light and a gentle sheen on the silk. Refined, modern and polished mood.\"}]}",
+];
@@ -0,0 +1,3 @@
+// A two second, 256x144 H.264 test pattern replayed by the mock AI provider.
+
+export const MOCK_VIDEO_MP4_B64 = "AAAAIGZ0eXBpc29tAAACAGlzb21pc28yYXZjMW1wNDEAAANxbW9vdgAAAGxtdmhkAAAAAAAAAAAAAAAAAAAD6AAAB9AAAQAAAQAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAAApt0cmFrAAAAXHRraGQAAAADAAAAAAAAAAAAAAABAAAAAAAAB9AAAAAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAQAAAACQAAAAAAAkZWR0cwAAABxlbHN0AAAAAAAAAAEAAAfQAAAAAAABAAAAAAITbWRpYQAAACBtZGhkAAAAAAAAAAAAAAAAAAAwAAAAYABVxAAAAAAALWhkbHIAAAAAAAAAAHZpZGUAAAAAAAAAAAAAAABWaWRlb0hhbmRsZXIAAAABvm1pbmYAAAAUdm1oZAAAAAEAAAAAAAAAAAAAACRkaW5mAAAAHGRyZWYAAAAAAAAAAQAAAAx1cmwgAAAAAQAAAX5zdGJsAAAApnN0c2QAAAAAAAAAAQAAAJZhdmMxAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAAAQAAkABIAAAASAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGP//AAAAMGF2Y0MBQsAL/+EAGGdCwAvZAQE7ARAAAAMAEAAAAwGA8UKkgAEABWjLgOSyAAAAEHBhc3AAAAABAAAAAQAAABhzdHRzAAAAAAAAAAEAAAAYAAAEAAAAABRzdHNzAAAAAAAAAAEAAAABAAAAHHN0c2MAAAAAAAAAAQAAAAEAAAAYAAAAAQAAAHRzdHN6AAAAAAAAAAAAAAAYAAAIKgAAAecAAAFuAAACHAAAAccAAAGxAAABqAAAAWsAAAFTAAAB/wAAAXsAAAGqAAABvwAAAVYAAAFHAAABqgAAAVMAAAFGAAABbAAAAYQAAAFjAAABlQAAAWoAAAFGAAAAFHN0Y28AAAAAAAAAAQAAA6EAAABidWR0YQAAAFptZXRhAAAAAAAAACFoZGxyAAAAAAAAAABtZGlyYXBwbAAAAAAAAAAAAAAAAC1pbHN0AAAAJal0b28AAAAdZGF0YQAAAAEAAAAATGF2ZjU4LjQ1LjEwMAAAAAhmcmVlAAAr3G1kYXQAAAJjBgX//1/cRem95tlIt5Ys2CDZI+7veDI2NCAtIGNvcmUgMTYwIC0gSC4yNjQvTVBFRy00IEFWQyBjb2RlYyAtIENvcHlsZWZ0IDIwMDMtMjAyMCAtIGh0dHA6Ly93d3cudmlkZW9sYW4ub3JnL3gyNjQuaHRtbCAtIG9wdGlvbnM6IGNhYmFjPTAgcmVmPTMgZGVibG9jaz0xOjA6MCBhbmFseXNlPTB4MToweDExMSBtZT1oZXggc3VibWU9NyBwc3k9MSBwc3lfcmQ9MS4wMDowLjAwIG1peGVkX3JlZj0xIG1lX3JhbmdlPTE2IGNocm9tYV9tZT0xIHRyZWxsaXM9MSA4eDhkY3Q9MCBjcW09MCBkZWFkem9uZT0yMSwxMSBmYXN0X3Bza2lwPTEgY2hyb21hX3FwX29mZnNldD0tMiB0aHJlYWRzPTQgbG9va2FoZWFkX3RocmVhZHM9MSBzbGljZWRfdGhyZWFkcz0wIG5yPTAgZGVjaW1hdGU9MSBpbnRlcmxhY2VkPTAgYmx1cmF5X2NvbXBhdD0wIGNvbnN0cmFpbmVkX2ludHJhPTAgYmZyYW1lcz0wIHdlaWdodHA9MCBrZXlpbnQ9MjUwIGtleWludF9taW49MTIgc2NlbmVjdXQ9NDAgaW50cmFfcmVmcmVzaD0wIHJjX2xvb2thaGVhZD00MCByYz1jcmYgbWJ0cmVlPTEgY3JmPTQwLjAgcWNvbXA9MC42MCBxcG1pbj0wIHFwbWF4PTY5IHFwc3RlcD00IGlwX3JhdGlvPTEuNDAgYXE9MToxLjAwAIAAAAW/ZYiE/4irgwIWnDgD3FxgJu9fcLszsBM/e4W9Qgv1lFEdwejdYeic8716umGkCIIjhLwBAE2cRDgNCldERWRJFCpYelcXgmiKgI/ER18z78T8BN333ER3B6T7tE7zvXsx9lRhvXG6Qeu65nKjutiVYh39pWbJHRaxA1kRVxFQ/ivwlQJn73EG0ym/eOfiO4PRusPTF53W3SGriO4PSfdnSGnDDQAyJWhv5JBM1iASnTYXaSorKqKf8ERxFXdstF+Am/r7j1QATP3uELq3qF3XM5Ud1okdwejdYeid53r1fYcIMYJJGm5hFFZFvja9TCB7X/f5Rm2xoqiKiI8PoggI5st0j6WZTJGjvMHOJamb6r5mO+jdYZDrs3WBeYNkf+6uqyrq6rKjsC0EfSry1AJmLEJfI3EfUVkvBNHDwt+GzkxD7BFU9KIEeVBNb4fBkeue5iIghFAMqiIxQABExjAABDwQ0AAQC0TjIIgB4fX5vgYceB40qJCwZ2iDw2FAiptB9oZFrkQSX+BSa712eIhkV0bQYgoBdEmXv97+JOIAAWAHrWB4yXMPGS5iIKRTHZkTwAPhD7BUGBBAowG1iE1iFNJWR0biOjoWSjMqTj/7MWhK1qJaOv/tti1C6yoKcf//H/8JIODOsnoiwZXzMXwq3P//sFohZ4QCgpS651hLeneBL/pDiHa7hmC/6Zi96XjjH8NAsBgKuO54VkYRNqROs2cOk588uGwGMNz1L/frxAugMAAQwpDb87Phf+7yuT2bTjfu/a9PJSMgf62F9eMwZ7U9PX/gH/DYLE82L4eOBgGhm928BJk0JmcsPaM4XwF+18/t/4PYEkTNo4uQbcsFexMVGOIBMC0bG/4ku1//gOCDub7V4P0FH21JvBs7hVOXDcACEFwwV74LMcB8H/CE+FPJfJjl8CRTrgtFCBVAcyQHDYBEd08nIcsZZeWWBKMueSYVsamtTUJh/iAYLOHvYGiQNmH98XPJ//iHgMFpWnxFIDssmp5NTM6fRaKAla9+AECEF2XOEz+XAzOmCGKYJqsrL6YI6+GAf/CJ2TrrHw/9gqDHNmYmY8yDa+tfw/+wVjIHrQcQnHxC/EL7mMzE6CYraLQNXA5yAzMh72SYrY8CLunk5HLH/8YcA2CvcOg8/AwYaGAwSc7znf/xDwCC0SlxSivPrePy6wvhR77/+aBkj+CXfnC5DCfT//9Grb5gewNfRXWKnAzvuZf7hZin/+ummgYcvwBq6JnzxAiLLTBlXXXT09dPT38MA/9giODgAz8RAHWsXBmA6mkwsGBIVrAV2P6jw2PH/9ArtcqOk0/M9BXS/iJwa2TkMTB3Lf/fbbFrA5j/8AlMzRdeIIZpcePw/BZS4IGBoMAbwARG7tfAFW/7hiw4P/HEPhkBh6V8DmGETSTGv8VF+g8hyMqs0rvmPLPLUE9dPT109ddM9cUw0HaYWzMTMeLhI2CE0IATrJpDOCSilbAT6uIuviGDUUAAjEC8QAAjYWYMh9P/+viQ0EUZmhGFZv4BA6Se+8LqAi7t+TfbHu/+IyCQu2fT6ACH7udYBSVV2IS3f4XmEHuL29v/gSoIHEFNx7vZCpgXLgYriZP7X+oK66eKgicCRICRFA9vpwsQJqb7VeBYFO4FkgLJB1rs8sYC2u1e+FinqCWunr/h5R7BaCpWkoGDXEI1gepTL4smgSNU5CtIDi4DgArt+n1FEs6pWU5YunYxTKbBCaEAJ1pk3CF6I/f3MolOYWZG/+9/EUglkuP51mNumZd7WT92/52DEXHA1rXXTxaBRAWAuDb7wIbT7V8XwHQHQ9Lvx1Jdq/6Zah+unrytHx/wVUfXS98HThTexDyDVyxdqNgRVg+kQWPIUwWigAFY4ABCNH/5YAJYoAJCoLEgDEDJvPp9txOWbriqctlOWZiT8eqYI6666ebX1rT1109cUw9Ht5r9MOzrqnp68AAAAeNBmjj/nhAuVQpEgBi7RjcAGhkLYBHuJAhh/W3wx4TcojILtRj/l4av++3jqCDOPlOPJnc+xMEOX/w/OCBCdX4o+WelH8EvQ1z6+Xr/gICio/eBaq5jEd6VYXoUgHj2YPqZKs77yP8LoGPXzguLA/UCWrXv38Br2a+EZ54i/9KpF1m45s3n6JyL19hBFORG+eM9h7uxMzp5NAXxD/QKokZ41xrDvp8Eeo0AwDei55x8dQ7DR4oAHSNfs/JVbP+Hg/4Nc3w/9gsDN81mYmY/J5cmEJsEpwsRHRNMZz6miunhDGWoQkRhEzIDzKX8OkOX+u1/yUXx4KfBeev4bj+DHNDH/7BWPkU/qHQ6HQ+GAnEiEGdQcfgmuHjbCMg9AqrkH8g+Q8E+fkOxd5DgwEtCATr8Ab7yR2tzJR0jvDoPsvv+cxUHW/BLn5iKV+1+TyVaQfOXgZGYKYYwSObHCZK3cwTfDxwJkrO5wjtiZiFMQJkN/SlXBAJkJWNpSVwh2CnP/OCowix4ZQqMjwCFuqZwQHouPvr1Nq5n1sCrz3/zTjYTi/IfkJdfq6LtlfBxiECeQIIEUD9BJMjHmx5M8x5seEz4QWASFacgXabxBjq98p4J6cCsGQx5Dgoyde1IJv+9fCGEJIAAAAFqQZpUP/PzeEDhJ/wxd97mOZzmGHn3lPbMK8n5+EQ2cJZfDCaPOlJBMFP4YBBTp1eUQrawdT14kscEPwcZRqK47GKhBEaiCE+Jsf0V6yQSE4aPNKuDbOcpAJhfTMJFI/Go4zl/Ihl3AMjvs5GNq9kfwrVfVTrfgTbPS/CChvLCdAwyIZIZbr6FCmWfM/VBXgMtFAORX8FIZ6qE/hUkBE9M9/n0E1uUvJvgxzsGOfn4QRLS8Fv3S8cFfgx+D34M8S8T9cH3yV6BRbSHuqZccCn4Mfgx6AoZDwR5+ZcCF9DhwUFQhNfgrQe0QdaS88S0ESZ/gDMyUTmevP7Jqf5MCAHTxJIQKIQmRCZweZkHmZ4QQ8MDLRrbe01m4LjjlyRLv38Fh+Xw/nG3FnPNce5sEJoQAIqxiWzeAZyKuAEfV6L9X/BsuXQJUvngBCygT1ab4J5Wm/EIs3IyLv4IPz+f9Av/DYMfuJ+Q8FN0VJAAAAIYQZph8tuHBk/j8cv8Ju/J0Jhwhf8x/MNV4PYrJWGBNa7uFnhAXK2JLH6XBvORAP+C21gROp3T6T9Arck3BMHk6dOn/hBCmg9Rak//1t4HChbGZ/Hw+gSBd+/ugRPL4aEyeTQCWARzVVn7/8Iw0KWsARKF2/DTCIq/zsX/wGV55x7EwBQqb1PeBPIj7V5QghQd8ASBmchnie82Px4QFBvmykNY4HxhIkO00JdKt2C7SGoJDVEIKOtaX6Y1LVS7o454tGxx/HocJ40x6qXGJDJqQyNS5VcsE+/4VuXh5FLmhbwAFwwV+eQ1gcYhDaVPcgvUCb6cLuAxtWFZ4YWmWLouCPVHlq84IuAvzdz58C9JpfYIcQEcY8l+n5PdQjgh5Tmv/4TvhJ+34OAKdLF3AQKMPvBACHfwY/Bz4CExif65dPLoWx8MIQ/wY9QLJyL/AdSdNoJAQeuJ+sEIY/PEtBhj/wsSiSBPBLiDxigMBr/wQBu5AtaRtNSRAJEpxL/AJffCbxD+ByDRObEg+ASF9yOqNpzldS/2P4ioC5a3gMUwLKjoTHA4a88C6AskPdlnA612eFi/zwU9SfBIcFH/iyy/+PT/niWhAJVk1LgJ9kt9muxH3LoLgVj0i9Fd1/5PXSm/eTZ6+CL52fAsxNio9+coCwFx3vA6n3fngBACMd8D0u+Q8E+X/jJOoFzrOCjBx9Xwn21EGfvjfmgAAAHDQZqB/69Kqwn77EwvWCGcEgDQG/iP8HFAvlJ6BBGPzijcn6/wgihIs4g//E2ImxNEP/6BEHX44MYCohfzAgk9/lELWUJTqHziB6CLlyYS0rt29FYdWYu4iezNWtIncs9AF80/1oLeE8ZPBF1Nh0dcDtOYiBM/gLbYXzyoREvyLds4QXQQD9v/RYjUJf/AmBENnm9YgN/AJFfHn14NLE8Yd4uCEMUypPDQICdvRa/+H9p69e/oEOWgEf7w0ODvp/fwQ3ryj+CvHxZJL6r3wYg1qDceSjDjuoFFTJ19cXXSr17J6t/6JFqoLPoEFCbnwY/Bf8F+dn6CQCTn+q+/vpfAkHHGQLrLxiXgklyAFf18voPAh1waZ4xQGKD+AGEZ3O3fACJ4Vk3EjSq0Lo9fML1T4n3b8/7SgUe14MJ9BlrwJHlnp5TYy/bwKsEM5BdBPH0WdgEPNilXMk3EeC/rp1BtL3nBUx+EjXV9NvLmt5ua/eeVCdf8IdBkL7Sk93/z0idWs6mv4DD1137/61OnWvX56IteCXoPEAW2EvfhUsQ/P+RIL3SEGlnvw/tP9nYJbqAjkLryTgwjHx+CljpPvvQR/398IwAAAa1BmqPKn8OCq3X+EKg1zdmlhs2aJYr6KyBJkGwazIq+cFxU8GruanhS4fSIYTL5/Cpv8AjXcOx5Cfp/5Ane8IIQXADMy7Nv/QlvCHwMufw2ON+AsJRii/AOrQSIddcj2QMUwR5CK4r8KIz1nvJ4KKrqtSoBAa8B0VkQBIvhvqsSP4bLUfYCUhvqsRqf59b+i5AFl/8C9DYnm5QOfwCNq/PF+gVnly+Aicf4JQZyZyfy8DCDHfwXoS+v/gx+DFGY+DHuAgcRBbE/V8iUEQTDXqP+DH4NcbJ6b5K+/rrk3wtnBQVAYNXIaGZeICaBufXFAv+DsMdVaqok0BgNP+EpCucBUxcgVnXgxzsGNC/WmsBQQyCzVRKQSbNsFHpcSBMgXid5x/BhQQUAV+lz8AJCSZSmcCXzzxaEZ+VXwafBoex+GkPQsSFP1+6g2OR/8AP99Uq5bJ8foK1XXUHZBLSbn2hhuh1fSEzfM0CH7Xv18u8MlVcSkEmzTBv7g8MyBSN3nHfhqIeKPCU1CAnfF9e/+tAtaTlQMHdQEEgamupTgyf+4qIf2959/Wgr/riPioAAAAGkQZrDy2ocEQzivX+GpI6rDtGjnbyLwjOJMmsDrrn7AsTnKIAv8CV7lb42ID3gpGYQARGtKEELLgB3n/X6gNUuGIZ/BIMk8n5kXw0Ji9SzqAxs60H/3fnMAggIPOX/4thMHJfkkXgugjC2q7YQRCyFqMTb5t+X4MZ4bw5LiWjNOfQ/oCzLS4ECh8GZRHmPyBu/91pzY//0CsI6B1IZIZ/O78NFEeuFawCYI0/TeCjUveE/JhII6wVBPQQY+wxSGsdn///OWDLOV+hO/wWrXwUnNl/hjTeCtXxbBT7uAkcRz3yq+BZQKCJq/Wu4QBJvcf3wKXwY4ticsbDflRfmuBAye21/oEmvCwQ6BADXpm3QKOGqrnQ0nxHU0EHbjvBX8FZyFQG7/BBTV8hudNOwZZ3/8EIQ+CZgs1XwRXgh2IQI/BT7zgoIpIO59ANNTf/abCU37uQ9Ad/hs70Cz0jdbblqfkDOvMZh5IHk80K+nPkIHNu3AQKjju8EmqqVeeCnX+/2CZVyL+S7WENQEggZa7lODGMfVgsZ3S9V9X96nRBngpo7y/EwAAABZ0Ga48z8dQ5xsfk8MCbdtayp4Hruf9CSp4IaHRSmH+H9E+cJwcur7Xh2Ydzc2WeK/Oqg3klyam1E2dZJZ7PhuXZNOXZimbVpe9sTw0Td4x8su9c4eD4YqlpLo0ry6XSlSzuzf/8PtNbRsx7PrgVwmLDTQi0cg2csN7K1CnixAJi8BYQOGNwgCPL/9m1rVw3A2gvKNZ88ZzlFi/ATP1a8DXG/jwbqzHxLpV+vwV4tglDFMbELE34hH7D47vQME6j4lKt9fpAUUYfdaNWlcPATFi6CHr7gLnFwR/xdeT1b4Od0CQgvhxFfx/wnVtcCnBIciAf9MIK1vwc5f+oZPSj+EpKNc7BnZ1lO+daELl/4chw4NV+EWo9fnp14tzZmCrU81vVO+gUhve+RABZexCG92A4+C4/+4CBUqd6lSjwVy35+j9VASiCZrsk4L2PlsFmLT/s9vhF625ErYsI/3qdNWHgIWsljvrh7AAABT0GbA8pP3/vd/Nl+HZxiUfwEj9NvN6CpVLrQQlMX/VVOvxvND//YKwnGUHmlfK+h0Oyf3/hgMO+7taNr9M2zFj4f0CsFLwPB5liACiEABGQMuWUuX5jRjRUCWWVAll18InBQBak2+qgTfna4dKqJwSN/x3vu0FL+TgzR//BGjP8EPwcoWmUXHijSrwbnMpoTQ/ww4q+T1N/zjq/CT2L+C9Ey+DH4FvEQWz13fJ6BZVcGPwc+SGyqugdl+CXRWHUi2CX0n08GIKoMrwYA8OCpAd8CHn17/ldoFwPgPZyoy9kGLxf5Q53cyBI/tDqLgY031/vlAVE8QmQl78Ai9Kh+or4HIIqZO4Cv/q5DkAdCpLwJeUD/2/BgDCWs/P/MFI7NeBs6zlX2MAM/vtecc1ua7BeiJHL/+iiRLb4RhNZn83z2X17flPOglNQuy/A8hS/AAAAB+0GbI8pf/HrtQ2O3PLMfwk8kGXznARxwOquf84uIAv8H8fBbOKX+BL7F02CyGyKmqYVbCAkKX9kjuYgn6/5i8fU3nqNlB4dud/DIQOSjKqz57JmUkawI87Ax7rvL5/Ad8wr7MTw7L+B4gIj0EFgSKAoLwIynzyYjNofaibEAi70F2vhsj3hORAXTXc7vPji00F2vBL7ZtvoVrxGE8uEg+hO2XwQAhg/5PgnwjG6J1/+ETc4yGaZHw5l5dUEPq8JgX0CZ+wVAf/g5QuuoFc4oXJXH5f6z1zFprNvf7CbzWjwdqBL64i+sJ0GYuvvQqsn01/nHV8MaOE74bgpPHP/GGm1f5PbS/wRE3e3ggBD8Hed/s5e5cXAnq+1thov0PkiKgLlreAxTBZU8LGoOOvHsS4FyAsOA613Z5YsCBbXavfCx8BFZPb/85lCb0El6/9V/QcBr+COq4rN+G+70Pr/Glw2Or/z0j/gibPdDc4SBCeG1CWReCi48wDN3pnW32ubgEFzwW/5/4NDgwiAuO94NvvCCDYDrblhhR0OxkHYzjsZB2M64KDhoAIAQp74MrvkEIFP6BM51oTTrqcwqYMz9Kiwwu+W2o+T+vCsBXVC7TXyn3PgAiN3d8f+ngITPyplp/rl+IvQbdv5DhpfAj3vun/vJlORj5AUBiuBHgAAAAXdBm0PLXqs8FA69rm2dMEYTDzwdwERruSvCX80BF+BEnCiB2X4CYN020gIMP0w+Mcfm/WTrCHkYCdWMsIhghmsKwtWqm84icRcIel4SFX2d5f4GbW/h+eicfVwjCTpCYz7XgtP0//0fCrK79CYMnr+Bl4bHKuEI2QILO+B0xy/BqcvFC2HZK1wZwaAkC0NPd+oFHDbof/j3fr+CRvzhHhLbCX4eIkv4eQpfxta5/BADBW6gT1o74SBH+hvP8FfYYASeLgh9E14xCdddegUa0vGnEETwl/OCX1i+By+4CBQgyuwh+BT6gIn7OfX8CL8d9baa8+L+EncllOz/BFVwMPfk9tvBJ/4KuwUAn/OMb7YZHUWH/nnU/U5bCoqtv6vKc6/w5hbgVVFwFOexPC22IZ3/K+M59z9wHDId6EIaclO9X3ecJL8PFqPvBCJd3ciA45/Ob33QD7tx8CoNUcN2ByAQCINp1CE4mCma4Q2/nBQw8BFdbb/6+vAAAAGmQZthcxP0/CbueoFFAhGN+cFQxQXO/ACB/UyMHO51QKW/m1MCSKueJ7gnDl1yiF3VTGOgs0CCMhckWVqQ5D4n9uc4P6vN/cHGkpl+/ea+JsEIHb2BUvgzL1WNYK19m+UP9gqCUta/DsMAgGPtWt7/4QInuCEEpgOiLcDxkueB0h3A8xXPFnglrCBvbQJnPH1fSwLfnYfzviI2KvQ+vHusNaqBbODWvwk9i/gx+DHwgBBxEFNecEy/h6KfuIqtEKgBWeCWwhBI4GRmCmGMEjmxwmSt3ME3w8cCZKzucI8G8QzECZDf0pVwQCZAm/Z6xK4vUiawQdcq4Mdv4X1rWpUcPlpAGrOXsk+v/P4blox+XhN7khs/K77xGzn5yr/wJX5M0K9M5FqfcAh2+bfoOWeCW6zgkAdCW2QF+m+IefXv/CCwCQrXIF2m8QY6vfd/yUT3/8M1XzN2mv9fBr3IeWQfHv5e5W4P8GPwY49iZUAfgSOqecAYlxI39qeHbr65jfaH+wVDBNZmJmKHQ9/WhR0r0EuwjODU0AiBoQCBl+Cb+z8AiO2S7UAAAAG7QZuBcnhfxw7haesCG7PRhKv4EM1D+/rcMQzFm+2ayStMlwRmN1fHKslXKEYJBdav5Z6YcOO3eNevk/hw17r+CeyVBB4+fDZ3v4Dfzyx1zE+q5NheVa4ayeToH6+Dk38vyY2SpAhyzkSj8qweujAq1PdNQenkEEfmKb5XzJ3K3fV3eEPsbBeK73ghBD+FgYZ/P+JUkBLTa572qklz3gTXrPfAqWe8T9uw4CEGAHHJ7uOwIPBQqYfFnIv4Yw1HwOHGQV48T9/qyCv7DgJsV0KzXHu5yIEAjdu1cXQntf9wEChRk78WwV5dwEjZP68nOCaL+GkpWvs8ENWCEDHtr6vQIiL71H3echlWgnaw/8cH/gQfz3f4Ev/HaOWBn4KPxaCAnmaucodz27PX+GovakukfPc+E3jPLC7+jv8BPYhAr6+oCO7+wRCutAgTeScZwV/8+BOo7fR0i7nMVHfiCpj555Exvv4IzkX/AaydzS/8CHIHBOT0BHj3vAIzskfXr4JIMDkSrwi+H4CZT1tTwS0d7vmCMOXPt/6KAS/OO7/KXAZbVzS/BlwdwiHC5/9//ASDIy35J+l8GMECJ/AAAAFSQZuhcdwSozP+tAl9GdHBEdcBMNc93C5/4JTyoD56Y7vAJ9ev7swMQ9Ot8M6dOAAq3+YL2u9vpeP4UVj4JP5X4IQQ7/ijw/WEgQ+HgQ9QKuvQXV43/HUCRtd2crn4+Lowl/V+oFFFMnWcQuUsGuN8WwY6xfKknnBc/8MopgtDOWvEIGXucGK/AQ6+15+64Ew8BYH6iU1+DWl+188OqBFD0vzWHTpf9aOMp1olaTwefCQI8TDP0cNLUhFu/yT/n05CM18Nqe9f56+HV7L5TvuuXay/X1rW2iAhB7oIsa3xFf79zjOL18Eo2jjmckRCTFjOWQbu/87HzigDvgD36Qr2jvf/yfr8CLrLwkCA9fwAY/Xfefw0CY+WG8CONPUHVOBHk+Q6BLfhoESvoAfTJjY8fEh70v3f9QEGyfr8CrowrGvAoBBGMrL8v55kwkexeA96gR4AAAFDQZvBcrvCPdnhKccw8ZxlxzecaYTDgh6vP+uC/vQJ+/m8wLKz8z8aw+eT/JmSHD4CX1r98fyzkf/zzDc6nyHIUQ7/hxL+UzYyanLZ0fHgJ3/jyVPxIWPHecRJB8bZxW5tv64a5lwE5A7eDEEMV9cGONgpmTO9L+K+np9P4M8fBUaIVtBd3ECZ4gEzH8BEBHECZ4gEz8Hs1PXnIv4aS4nOwS1fY9h56KV+ni8HfhKaCUR+DFGv8GK5fBj0EAOOIgryf19ZwVS/wk98as//wI9PoZcMu5l+/PSr+CB4bmVQbNapxnYNcfBZARAPwJB1TzgEoxI32vxGI/BmrZPr/ziiLHzliN2IRYRFy917u2/nHGHH1XHJ6haPl/4MoEBe+DDyVj/yV1XiEDO+C0EIMKqqRX/+hPZf40IHhAOCK1A7Th/1+4AAAAGmQZvgnLWHDT/X+HVs5PqvJwSEL/mJvOLKjD+bSzeDj/GefCfBKftZz9QenlQlr8VgJLcuepeC44iMPr42Za0dyO8+CN3f/xDwLcBL4gbBHRVIJi5MEYIYn7dwXgyA45Pdsdg74zJ+sF8CCCAIwli4Lg48ERqgQXdovDLwSlhKTPknv/DsRxAS85F/Ai6Zln936SuEtr57P5yoScbrxbOLnk/UAl3AQJzGUf1ETW8+u2Xf3DPfXn78alp7kOBENx8h5D2/PRy/Ij1nr+OS0qK/az1/Cmfcrhtl//5OmAiFbXCM2HABCZ69CengyOQqu4yGmmzl+r4Au813mnglpNghDMCDi2Hj+iL+D0/svr+9EEpO88ZW48zj/UCEGiTZ2gpoEA65QI/+Fg/8GP56AL/1EJMbRW55U+jwnldX+C4+IBP4Ab0rW2df3AuHLzrx3QCu+/3+B/4cnlV//B2MjEueCOjv14hCfgKCqs4LlBdcCAetwI/9Bb+h82EiCCdn82+CCjv3qdX5xmRa/gBot66Z174PoZEh976RfAoaSpSR4eMICkUxRH4AAAFPQZoAnLujPqsW49cMQygU92qBRFPlo+vh04p/4S/nuBvjfBEPk+X9w2cVM+Ake7WiqSGS/fZPV5f6+O+bBFQK28F4IcNwYBlpd/v+Bw7h4gBJbDTXva7QSa94Elju5vh0K7m8R94QBCy8dxwQAh8EIEM938EjfnH5eBIAmAkABEg1cvwanL8fn4ZLhhayq5fyqcv56z0BH8pEAierPMjWCv3WcFRUAL+CaTGnLf+EKt3Awo9HcWyeTHvAO8+/qBR6gceu61f7PpPkK8ps96pVb+HCZcLiFbXuI4HERZeoGxUw0vq+eCfEIK99VoGWus+uHmT/UDgiU3WiW6CHPD/zHD3fmVH67voelH5xh1nxqsIh61nl/rRR260Y6OqX1eSvr7+s5VNEabf8nq3hz/QQ6oEXR3Mn9f6IlHYNv5ygL7Z9/1nNeV8r/8CpQK+TELgAAAFCQZognKnLRzmX+G55O85l/F9rM3nGmEw4R+NTuLiF8M1uY3FWZ+NnOYt4anP+7COBJRUWfBzHZf5xj/hvlengzJPOgF+/ip8fPV+EtI+FQjwrcFbXECZ4gEzqBYVtLghARMXQFACDjYJX7O+6/L//+FQXT5h974GyACASuyL3GDKr2/wSspU/mvkHwjARAPwERbS7zgDEuJG/ta0Mkf8GPwYq9C2NiezvN2cZ+57w8sKN2wruCr/nxMv4bJHm7XwcHIVCWvblU5b98GGT7XwtwSHVahASmOEAAjPZvkqBXU3+DE+o8v/8GPwYlNu9YQhL8GHefAGZHmuyD+Vn6HlvzigM+/gRKX3y/9ev7qVWkWCDojlD480kj93TJu4eBCI1U6GVXgXqF4YQQdjAKOk0/5hDD/7DQQrvxN171dX4LKCvVAAAAWhBmkDcrvUOac8l/hq2e8Egg37kIVxIuCuCujuFTgkw+G6IjblpqpPBCcib/x3o+elXj3ajs1QhEDECH06+BE1/3hwFWXC4FbTwOiLL8WJgys71WGgZijLGfH4EAJjmsPGSX/N5xK/gk+f5RF2f/5GsE/sn7+ugWOx7EwEQra4EK1XOABh89ehFsfIXAkWcIg1NvgTIHkUvEIDMgdGWXbYEADiEatpsIfsCCETkv/TAn19qR2LkwhrziF/cu6JPL/r5JmxU2bPtPngfN/pJH1zd8NE3cEqCSZJpn3BH2/oip6o1V55fBIHkdqwiBQyfTf/3rRql6gZt3AQqIZfci5ZPb/4CA6Dn4MEJTLqGzLVeHr42xM6ux+779D4Y3nHAwDX/Nyrfbvy3tgIBE7v6gTkDFIp+xbBZfvWu5FIneCe73vejeEFAR7jfyCagZEY7LKCFL47L15P2/9CWPYMPAwJAlBH4QW1NP8kAAAGAQZpg3NYqUQ875V4Ro7eWcpRKOE6zycEbuLk/iFsMcUdghjvOCRiNovrBD9OqIfT6rwqHN3fAM692m23b9ux7LQG78SWIQvl4Id/537436J7+Hw/4aHLWWAu8Aqvb6IMq5+CEEMuScSlX4d3g0Hqs5kA/5sBty9A8AgZPSpZPDZXvQEwR6seAdld9H4IQYq/ghBiqVag3nEQZ/nBqmX5dDeON5ygIn+JH7Prl8//ngZjqYjvyAsCJ6XNQJxycQBCrzuIHiqbK5bIuXrWNtLkPcwSP2PCOrG/1Tr6vl/BNCEFEMnvdGiPwAZ3v6r591BjtfDhOXmRVgI9e2Mr027exzjPG1eCAEHhAFnYPgOSFpR8hxXE7/jih6fRseoIgWETynHERn4Fncf+j46F4CUv6b8p6/DEv34+WvEkz4kJmPmgIgI4kmRHcSTPWo+yfr/hzzcjMv8ELXgSW0k3vDriJXpf/BKQMbQurQuqgbmZceRH2oVfL7lru3w4gi+LQdtX3AAABX0GagEcblxL9w/5t4L6iTv2Evt4YuSbz2Pw9zLlvIjuAhynEGIaU7Q5iIpoAkP26/3CJobCduT/P4TVj85V/H+x6/x/X1HfKLgj+xf6LHw9ARAPwERbS7zgEoyRvtE84gVoAmF2X4NTl/54vQDpOy/lU5f5oYf/YKwvKp9Svlf/QFECDLecLJV+ZIAMuq+e3znA+bm0Uv/XwKRxkgHwpl+ASHlRq1NKhY8GG/0dnwY9QEb1yjIMaWuDDuIODNEES+ETcEdqUj5y/+v4mpGwn9xv0eBh2m57sVfDtNkU2f/d6CvVVVVQodF+vRB7JLkKJ6ZTl+/V/1vYthMqn26484SXHJoezP8YDBYXwYf03lzzkMhdEvU4LxylFH0fQRr84QBVGPtFdNn0l9hHg3gURzbTgxKX4S1CcMQdm2tXKJS/3XnKC/8M50ul/wZDzmPzbQmB/h3mf1bwInGIF8cNJ9wAAAZFBmqBXLuHN4q3H8OK79GxA3oSlH6KAKAKIEIEO/Cam84Joi4h3r6WHI/HseTp7YWwg33Mr7mEOGTjiOP14+Z6gnVKtBxxz+T8/ir4CN6qujl/+vkGwS/Z+J/HwQQEQra4CHtQ7gAhM+9EOkfJCQWOFB82WhGQPIUvLgZkDpjlkXAj+X/+sEIIZbU/v4d9x7KXAOBxzKOcML/4OjiuMAr4LDwAA3OrjbOgKeiG06GV6OHjo9vJxsFtsYt5V/+HAXYPeA94FbX4HEI8v/oalHwVaooMs44ZQwCm2ybGDj8SNQplmknW9Z4rU+gH5PR9FmLVcG+eBl0f8NyDqY6smQ86OH1f4//Jq4CBVHe9Uq3gj3vmKVf8FB6wVuBA+aPjRoX4WBBl+DqBAg7hM+3wD054fwxQ936EJF4JzmRFr2bhsfcBRIFfeScFDv6Vc4t/Lu/vVOqbBdz2P59N7rAr0NEEU64anMMVnHFKX33hshJzTnoOL/kgjrX3YDRAsHBOJPrI5eyOXyvlfwZTidRXLf4jngAAAAWZBmsBnLX+COZh7Tg3qUUEPnwW8+cAv7b6rcCD2GMd4aPN9/2u1Jvf8EpzM/ydLIf8qP38c/gUDmX+AUWtdi0gaAaC+pD3BRMEeVjgJd11+Y/Y/IP4VuCtriBM8QCZj+AiAjiBM8QCZrBCCH8N8MvdcAEX907j/QiDH4Jus4MAQ38JOU+S3m/OcGRqi2MfPv/kBQcRxgFfEDp4sIpacH0VPrWxpaz1KWDjAjjrzVPT4mC+U7DD1+HAxlwVhTaFqwEevbDG1EHZ5xPdQKAZv8PvYAFCF5EuEHh/0Cjr4LQRDVX97nED4wCi7FoNacQ6IdBlSyCS9no8yAX+lRXIwnnV/88NQlkVYl35UIy5dzxqgLWnPspfeQl8o3YHADCiJlwQAh6gUcfEzJ4t8SEz4JOoFBa0kCL9AjoVboEWuCk5XP371+oCW3Xnr5iaFLYnrTJeqRMnrX+h8f9Gi694CYhnjECeOA0TAAAABQkGa4CHN58HzPzPRG85XcJHt3+P4OPLOQB3l+maGRkIecpTmDG7/5T8gZ183wIFK7nnfx2OXLnoBP7aj/UGJ+P70RMjsTHs9AbvyO664+SAiAfgIrau84EZT54N88D5ubQc3+vgy+DA5l9Bz/+Fy1rVfV47f8h2CXELR3z9cGHwYIEzdagTN8FCPlrgvkOKyE6vwSEpRM3nOASATC7L8Grl/54DoDpOy/lU5f/BZ8m8EGDA5kQi+IBMxITPhbVSH0GD1bL2YEBtBj8NEsbSnLd+mBFvQeP39Z4OEiOv+SIaxO188gi8Fvspft0BQAg7qDmDHfBFBgci/gDZdyrrP1AkI+Rb+ouHyLVYZ0IQJdfKcFDvzbr9QEZ+fz/OWYkH5fp74jJ6136vk/S+CKHj3H/AN9uOrQQQuATSb/+hHvA4Za5Y=";
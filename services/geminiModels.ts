@@ -0,0 +1,9 @@
+/**
+ * The Gemini models the proxy calls, shared with the browser so results can record them.
+ */
+export const GEMINI_MODELS = {
+    imageEdit: 'gemini-2.5-flash-image',
+    textToImage: 'imagen-4.0-generate-001',
+    video: 'veo-3.1-fast-generate-preview',
+    text: 'gemini-2.5-flash',
+};
@@ -0,0 +1,325 @@
+import type { GeneratedContent, GenerationMetadata, HistoryEntry } from '../types';
+import { createZip, readZip, type ZipFileInput } from '../utils/zip';
+
+export const ARCHIVE_FORMAT = 'x-studio-history';
+export const ARCHIVE_VERSION = 1;
+export const MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * One history entry in `manifest.json`. Every image or video URL field holds the
+ * path of the file inside the archive instead of a URL.
+ */
+export interface ArchiveManifestItem {
+    id: string;
+    createdAt: number; // Epoch milliseconds
+    createdAtIso: string;
+    transformationKey: string | null;
+    transformationTitle: string | null;
+    prompt: string | null;
+    isFavorite: boolean;
+    content: GeneratedContent;
+    meta?: GenerationMetadata;
+}
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    items: ArchiveManifestItem[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+};
+
+const extensionFor = (mimeType: string): string => EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'bin';
+
+type AddMedia = (url: string | null | undefined, folder: string, name: string, lastModified: number) => Promise<string | null>;
+
+/**
+ * Collects the media files of an archive. The same URL (e.g. an input image that is
+ * also the original image) is only stored once and referenced by path afterwards.
+ */
+const createMediaCollector = (): { files: ZipFileInput[]; add: AddMedia } => {
+    const files: ZipFileInput[] = [];
+    const pathsByUrl = new Map<string, string>();
+
+    const add: AddMedia = async (url, folder, name, lastModified) => {
+        if (!url) return null;
+        const known = pathsByUrl.get(url);
+        if (known) return known;
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to read ${name} for export (status ${response.status}).`);
+        }
+        const blob = await response.blob();
+        const path = `${folder}/${name}.${extensionFor(blob.type)}`;
+        files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()), lastModified });
+        pathsByUrl.set(url, path);
+        return path;
+    };
+
+    return { files, add };
+};
+
+const toManifestItem = async (
+    entry: HistoryEntry,
+    index: number,
+    addMedia: AddMedia,
+    getTransformationTitle: (key: string) => string | null
+): Promise<ArchiveManifestItem> => {
+    const folder = `items/${String(index + 1).padStart(3, '0')}-${entry.meta?.transformationKey ?? 'result'}`;
+    const add = (url: string | null | undefined, name: string) => addMedia(url, folder, name, entry.createdAt);
+
+    const content: GeneratedContent = {
+        imageUrl: await add(entry.imageUrl, entry.secondaryImageUrl ? 'final-result' : 'result'),
+        text: entry.text,
+    };
+    if (entry.secondaryImageUrl) content.secondaryImageUrl = await add(entry.secondaryImageUrl, 'line-art');
+    if (entry.videoUrl) content.videoUrl = (await add(entry.videoUrl, 'video')) ?? undefined;
+    if (entry.originalImageUrl) content.originalImageUrl = await add(entry.originalImageUrl, 'original');
+
+    let meta: GenerationMetadata | undefined;
+    if (entry.meta) {
+        const { inputs } = entry.meta;
+        const archivedInputs: GenerationMetadata['inputs'] = {};
+        if (inputs.primaryImageUrl) archivedInputs.primaryImageUrl = await add(inputs.primaryImageUrl, 'input-primary');
+        if (inputs.secondaryImageUrl) archivedInputs.secondaryImageUrl = await add(inputs.secondaryImageUrl, 'input-secondary');
+        if (inputs.multiImageUrls) {
+            archivedInputs.multiImageUrls = [];
+            for (const [i, url] of inputs.multiImageUrls.entries()) {
+                archivedInputs.multiImageUrls.push((await add(url, `input-${i + 1}`))!);
+            }
+        }
+        if (inputs.maskUrl) archivedInputs.maskUrl = await add(inputs.maskUrl, 'mask');
+        meta = { ...entry.meta, inputs: archivedInputs };
+    }
+
+    return {
+        id: entry.id,
+        createdAt: entry.createdAt,
+        createdAtIso: new Date(entry.createdAt).toISOString(),
+        transformationKey: entry.meta?.transformationKey ?? null,
+        transformationTitle: entry.meta ? getTransformationTitle(entry.meta.transformationKey) : null,
+        prompt: entry.meta?.prompt ?? null,
+        isFavorite: !!entry.isFavorite,
+        content,
+        ...(meta && { meta }),
+    };
+};
+
+/**
+ * Packages history entries into a ZIP holding every image and video plus a
+ * `manifest.json` describing each entry.
+ * @param entries The entries to export. Their URLs must be fetchable (data or blob URLs).
+ * @param getTransformationTitle Resolves a transformation key to a display title for the manifest.
+ * @returns The archive as a Blob.
+ */
+export const createHistoryArchive = async (
+    entries: HistoryEntry[],
+    getTransformationTitle: (key: string) => string | null = () => null
+): Promise<Blob> => {
+    const media = createMediaCollector();
+    const items: ArchiveManifestItem[] = [];
+    // Sequential so that a URL shared between entries is only fetched once.
+    for (const [index, entry] of entries.entries()) {
+        items.push(await toManifestItem(entry, index, media.add, getTransformationTitle));
+    }
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        items,
+    };
+    return createZip([{ name: MANIFEST_FILENAME, data: JSON.stringify(manifest, null, 2) }, ...media.files]);
+};
+
+/**
+ * A history entry read back from an archive, ready to be stored.
+ */
+export interface ImportedHistoryItem {
+    entry: HistoryEntry; // Images are data URLs; `videoUrl` is never set
+    videoBlob?: Blob;
+}
+
+export interface HistoryArchiveContents {
+    items: ImportedHistoryItem[];
+    rejected: string[]; // One human-readable reason per corrupt entry
+}
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+    Object.entries(EXTENSIONS).map(([mimeType, extension]) => [extension, mimeType])
+);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isNullableString = (value: unknown) => value === null || typeof value === 'string';
+
+/**
+ * Checks that a value has the `GeneratedContent` shape and holds an actual result.
+ * @returns A description of the first problem found, or null if the value is valid.
+ */
+export const validateGeneratedContent = (value: unknown): string | null => {
+    if (!isRecord(value)) return 'content is not an object';
+    if (!isNullableString(value.imageUrl)) return 'content.imageUrl must be a string or null';
+    if (!isNullableString(value.text)) return 'content.text must be a string or null';
+    if (value.secondaryImageUrl !== undefined && !isNullableString(value.secondaryImageUrl)) return 'content.secondaryImageUrl must be a string or null';
+    if (!isOptionalString(value.videoUrl)) return 'content.videoUrl must be a string';
+    if (value.originalImageUrl !== undefined && !isNullableString(value.originalImageUrl)) return 'content.originalImageUrl must be a string or null';
+    if (!value.imageUrl && !value.videoUrl && !value.text) return 'content has no image, video or text';
+    return null;
+};
+
+const validateMetadata = (value: unknown): string | null => {
+    if (!isRecord(value)) return 'meta is not an object';
+    if (typeof value.transformationKey !== 'string') return 'meta.transformationKey must be a string';
+    if (typeof value.prompt !== 'string') return 'meta.prompt must be a string';
+    if (typeof value.provider !== 'string' || typeof value.model !== 'string') return 'meta.provider and meta.model must be strings';
+    if (typeof value.durationMs !== 'number') return 'meta.durationMs must be a number';
+    if (!isRecord(value.inputs)) return 'meta.inputs is not an object';
+    const { multiImageUrls } = value.inputs;
+    if (multiImageUrls !== undefined && !(Array.isArray(multiImageUrls) && multiImageUrls.every(url => typeof url === 'string'))) {
+        return 'meta.inputs.multiImageUrls must be a list of strings';
+    }
+    const { moodboard } = value;
+    if (moodboard !== undefined && !(isRecord(moodboard)
+        && typeof moodboard.title === 'string'
+        && typeof moodboard.keywords === 'string'
+        && Array.isArray(moodboard.colors) && moodboard.colors.every(color => typeof color === 'string')
+        && typeof moodboard.tileCount === 'number')) {
+        return 'meta.moodboard must have a title, keywords, colours and a tile count';
+    }
+    return null;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(new Blob([bytes], { type: mimeType }));
+    });
+};
+
+/**
+ * Resolves a manifest reference to a data URL. ZIP archives reference files by path;
+ * standalone JSON archives embed data URLs directly.
+ */
+const resolveMedia = async (reference: string, files: Map<string, Uint8Array> | null): Promise<string> => {
+    if (reference.startsWith('data:')) return reference;
+    const bytes = files?.get(reference);
+    if (!bytes) {
+        throw new Error(`missing file "${reference}"`);
+    }
+    const mimeType = MIME_TYPES[reference.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+    return bytesToDataUrl(bytes, mimeType);
+};
+
+const resolveOptionalMedia = async (reference: string | null | undefined, files: Map<string, Uint8Array> | null) =>
+    reference ? resolveMedia(reference, files) : reference;
+
+const toImportedItem = async (raw: unknown, files: Map<string, Uint8Array> | null): Promise<ImportedHistoryItem> => {
+    if (!isRecord(raw)) throw new Error('entry is not an object');
+    if (typeof raw.id !== 'string' || !raw.id) throw new Error('id must be a non-empty string');
+    if (typeof raw.createdAt !== 'number' || !Number.isFinite(raw.createdAt)) throw new Error('createdAt must be a timestamp');
+    const contentError = validateGeneratedContent(raw.content);
+    if (contentError) throw new Error(contentError);
+    const metaError = raw.meta === undefined ? null : validateMetadata(raw.meta);
+    if (metaError) throw new Error(metaError);
+
+    const content = raw.content as unknown as GeneratedContent;
+    const entry: HistoryEntry = {
+        id: raw.id,
+        createdAt: raw.createdAt,
+        imageUrl: (await resolveOptionalMedia(content.imageUrl, files)) ?? null,
+        text: content.text,
+        ...(raw.isFavorite === true && { isFavorite: true }),
+    };
+    if (content.secondaryImageUrl !== undefined) entry.secondaryImageUrl = await resolveOptionalMedia(content.secondaryImageUrl, files);
+    if (content.originalImageUrl !== undefined) entry.originalImageUrl = await resolveOptionalMedia(content.originalImageUrl, files);
+
+    let videoBlob: Blob | undefined;
+    if (content.videoUrl) {
+        const videoUrl = await resolveMedia(content.videoUrl, files);
+        videoBlob = await (await fetch(videoUrl)).blob();
+    }
+
+    if (raw.meta) {
+        const meta = raw.meta as unknown as GenerationMetadata;
+        const { inputs } = meta;
+        const resolvedInputs: GenerationMetadata['inputs'] = {};
+        if (inputs.primaryImageUrl) resolvedInputs.primaryImageUrl = await resolveMedia(inputs.primaryImageUrl, files);
+        if (inputs.secondaryImageUrl) resolvedInputs.secondaryImageUrl = await resolveMedia(inputs.secondaryImageUrl, files);
+        if (inputs.multiImageUrls) {
+            resolvedInputs.multiImageUrls = [];
+            for (const url of inputs.multiImageUrls) {
+                resolvedInputs.multiImageUrls.push(await resolveMedia(url, files));
+            }
+        }
+        if (inputs.maskUrl) resolvedInputs.maskUrl = await resolveMedia(inputs.maskUrl, files);
+        entry.meta = { ...meta, inputs: resolvedInputs };
+    }
+
+    return { entry, ...(videoBlob && { videoBlob }) };
+};
+
+/**
+ * Reads a history archive produced by `createHistoryArchive`, or a standalone
+ * manifest JSON whose media fields are data URLs. Corrupt entries are skipped and
+ * reported; the rest of the archive is still imported.
+ * @param file The ZIP or JSON file chosen by the user.
+ * @throws If the file itself is unreadable or not a history archive.
+ */
+export const readHistoryArchive = async (file: File): Promise<HistoryArchiveContents> => {
+    const buffer = await file.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    // ZIP archives start with "PK".
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4B;
+
+    let files: Map<string, Uint8Array> | null = null;
+    let manifestText: string;
+    if (isZip) {
+        files = await readZip(buffer);
+        const manifestBytes = files.get(MANIFEST_FILENAME);
+        if (!manifestBytes) {
+            throw new Error(`The archive has no ${MANIFEST_FILENAME}.`);
+        }
+        manifestText = new TextDecoder().decode(manifestBytes);
+    } else {
+        manifestText = new TextDecoder().decode(bytes);
+    }
+
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(manifestText);
+    } catch {
+        throw new Error(`${isZip ? MANIFEST_FILENAME : 'The file'} is not valid JSON.`);
+    }
+    if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+        throw new Error("The file is not an X Studio history archive.");
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+        throw new Error(`Unsupported archive version ${String(manifest.version)}; please update the app.`);
+    }
+
+    const items: ImportedHistoryItem[] = [];
+    const rejected: string[] = [];
+    for (const [index, raw] of manifest.items.entries()) {
+        try {
+            items.push(await toImportedItem(raw, files));
+        } catch (error) {
+            const id = isRecord(raw) && typeof raw.id === 'string' ? ` (${raw.id})` : '';
+            rejected.push(`Entry ${index + 1}${id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return { items, rejected };
+};
@@ -0,0 +1,54 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import type { HistoryEntry } from '../types';
+import { compareHistoryEntries, loadHistoryPage, saveHistoryEntry, type HistoryCursor } from './historyStore';
+
+// `openDb` asks for persistent storage, which Node has no navigator for.
+vi.stubGlobal('navigator', {});
+
+const entry = (id: string, createdAt: number): HistoryEntry => ({ id, createdAt, imageUrl: null, text: id });
+
+describe('compareHistoryEntries', () => {
+    it('orders newest first and breaks timestamp ties by descending id, as IndexedDB walks them', () => {
+        const entries = [
+            { createdAt: 1000, id: 'b' },
+            { createdAt: 2000, id: 'a' },
+            { createdAt: 1000, id: 'c' },
+            { createdAt: 1000, id: 'a' },
+        ];
+        expect(entries.sort(compareHistoryEntries)).toEqual([
+            { createdAt: 2000, id: 'a' },
+            { createdAt: 1000, id: 'c' },
+            { createdAt: 1000, id: 'b' },
+            { createdAt: 1000, id: 'a' },
+        ]);
+    });
+
+    it('puts an entry after the cursor only when it was not returned yet', () => {
+        const cursor = { createdAt: 1000, id: 'b' };
+        expect(compareHistoryEntries({ createdAt: 1000, id: 'a' }, cursor)).toBeGreaterThan(0);
+        expect(compareHistoryEntries({ createdAt: 1000, id: 'b' }, cursor)).toBe(0);
+        expect(compareHistoryEntries({ createdAt: 1000, id: 'c' }, cursor)).toBeLessThan(0);
+        expect(compareHistoryEntries({ createdAt: 999, id: 'z' }, cursor)).toBeGreaterThan(0);
+    });
+});
+
+describe('loadHistoryPage', () => {
+    it('returns every entry once when entries sharing a timestamp span a page boundary', async () => {
+        const entries = [entry('new', 2000), entry('a', 1000), entry('b', 1000), entry('c', 1000), entry('d', 1000), entry('old', 500)];
+        for (const item of entries) await saveHistoryEntry('alice', item);
+        await saveHistoryEntry('bob', entry('other', 1000));
+
+        const ids: string[] = [];
+        let before: HistoryCursor | null = null;
+        for (let pages = 0; pages < 10; pages++) {
+            const page = await loadHistoryPage('alice', before, 2);
+            ids.push(...page.entries.map(item => item.id));
+            if (!page.hasMore) break;
+            const last = page.entries[page.entries.length - 1];
+            before = { createdAt: last.createdAt, id: last.id };
+        }
+
+        expect(ids).toEqual(['new', 'd', 'c', 'b', 'a', 'old']);
+    });
+});
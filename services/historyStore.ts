@@ -0,0 +1,328 @@
+import type { HistoryEntry } from '../types';
+import { HISTORY_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * The shape written to IndexedDB. Video results are stored as Blobs because
+ * their object URLs do not survive a reload. Every user signed in on this browser
+ * shares the store, so each record names the user it belongs to.
+ */
+interface StoredHistoryRecord extends Omit<HistoryEntry, 'videoUrl'> {
+    videoBlob?: Blob;
+    username?: string; // Absent only until `claimUnownedRecords` has run
+}
+
+export interface HistoryPage {
+    entries: HistoryEntry[];
+    hasMore: boolean;
+}
+
+/**
+ * Where a page of history ended: its last entry. Entries can share a timestamp (e.g. a
+ * batch saved at once), so the id breaks ties, in the order IndexedDB walks them.
+ */
+export interface HistoryCursor {
+    createdAt: number;
+    id: string;
+}
+
+/**
+ * Orders entries newest first, the way pages are loaded.
+ */
+export const compareHistoryEntries = (a: HistoryCursor, b: HistoryCursor): number =>
+    b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * What is left of an entry evicted to make room, to tell the user what was removed.
+ */
+export interface EvictedHistoryEntry {
+    id: string;
+    createdAt: number;
+    transformationKey: string | null;
+}
+
+export type HistoryMediaType = 'image' | 'video' | 'twoStep';
+
+/**
+ * Criteria for browsing history. Every field is optional; unset fields match everything.
+ */
+export interface HistoryFilter {
+    transformationKey?: string;
+    mediaType?: HistoryMediaType;
+    from?: number; // Inclusive epoch milliseconds
+    to?: number; // Inclusive epoch milliseconds
+    query?: string; // Free text matched against prompts and text results
+}
+
+export const getHistoryMediaType = (entry: Omit<HistoryEntry, 'videoUrl'>, hasVideo: boolean): HistoryMediaType => {
+    if (hasVideo) return 'video';
+    if (entry.secondaryImageUrl && entry.imageUrl) return 'twoStep';
+    return 'image';
+};
+
+/**
+ * Tests an entry against a filter.
+ * @param hasVideo Whether the entry has a video result (stored records keep a Blob instead of a URL).
+ */
+export const matchesHistoryFilter = (entry: Omit<HistoryEntry, 'videoUrl'>, hasVideo: boolean, filter: HistoryFilter): boolean => {
+    if (filter.transformationKey && entry.meta?.transformationKey !== filter.transformationKey) return false;
+    if (filter.mediaType && getHistoryMediaType(entry, hasVideo) !== filter.mediaType) return false;
+    if (filter.from !== undefined && entry.createdAt < filter.from) return false;
+    if (filter.to !== undefined && entry.createdAt > filter.to) return false;
+    const query = filter.query?.trim().toLowerCase();
+    if (query) {
+        const haystack = [entry.meta?.prompt, entry.meta?.customPrompt, entry.meta?.transformationKey, entry.text]
+            .filter(Boolean)
+            .join('\n')
+            .toLowerCase();
+        if (!haystack.includes(query)) return false;
+    }
+    return true;
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+    return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+};
+
+const toHistoryEntry = ({ videoBlob, username, ...record }: StoredHistoryRecord): HistoryEntry => ({
+    ...record,
+    ...(videoBlob && { videoUrl: URL.createObjectURL(videoBlob) }),
+});
+
+/**
+ * Removes a user's oldest entries to make room for new ones. Favourites, and other
+ * users' entries, are never removed.
+ * @returns The entries removed.
+ */
+const evictOldest = async (username: string, count: number): Promise<EvictedHistoryEntry[]> => {
+    const db = await openDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const index = tx.objectStore(HISTORY_STORE).index('createdAt');
+    const removed: EvictedHistoryEntry[] = [];
+    await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || removed.length >= count) return resolve();
+            const record: StoredHistoryRecord = cursor.value;
+            if (record.username === username && !record.isFavorite) {
+                cursor.delete();
+                removed.push({ id: record.id, createdAt: record.createdAt, transformationKey: record.meta?.transformationKey ?? null });
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+    await transactionDone(tx);
+    return removed;
+};
+
+const putRecord = async (record: StoredHistoryRecord) => {
+    const db = await openDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    tx.objectStore(HISTORY_STORE).put(record);
+    await transactionDone(tx);
+};
+
+/**
+ * Persists a history entry for a user. When the browser storage quota is exhausted the user's
+ * oldest entries that are not favourites are evicted a few at a time until the new entry fits.
+ * @param entry The entry to store. Its `videoUrl`, if any, is not persisted.
+ * @param videoBlob The video file backing `entry.videoUrl`.
+ * @returns The entries evicted to make room, so the caller can tell the user.
+ * @throws The quota error if only favourites are left to evict.
+ */
+export const saveHistoryEntry = async (username: string, entry: HistoryEntry, videoBlob?: Blob): Promise<EvictedHistoryEntry[]> => {
+    const { videoUrl, ...rest } = entry;
+    const record: StoredHistoryRecord = { ...rest, username, ...(videoBlob && { videoBlob }) };
+    const evicted: EvictedHistoryEntry[] = [];
+    for (;;) {
+        try {
+            await putRecord(record);
+            return evicted;
+        } catch (error) {
+            if (!isQuotaError(error)) throw error;
+            const removed = await evictOldest(username, 5);
+            if (removed.length === 0) throw error;
+            evicted.push(...removed);
+        }
+    }
+};
+
+// Callers must ensure lower <= upper; IDBKeyRange.bound throws otherwise.
+const createdAtRange = (lower?: number, upper?: number): IDBKeyRange | null => {
+    if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+    if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+    if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+    return null;
+};
+
+/**
+ * Walks the history newest first, collecting records that pass `accept`.
+ * @param limit Stop after this many matches; `Infinity` collects all of them.
+ */
+const scanHistory = async (
+    range: IDBKeyRange | null,
+    accept: (record: StoredHistoryRecord) => boolean,
+    limit: number
+): Promise<HistoryPage> => {
+    const db = await openDb();
+    const tx = db.transaction(HISTORY_STORE, 'readonly');
+    const index = tx.objectStore(HISTORY_STORE).index('createdAt');
+    const records: StoredHistoryRecord[] = [];
+    let hasMore = false;
+    await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor(range, 'prev');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            const record: StoredHistoryRecord = cursor.value;
+            if (accept(record)) {
+                if (records.length === limit) {
+                    hasMore = true;
+                    return resolve();
+                }
+                records.push(record);
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+    return { entries: records.map(toHistoryEntry), hasMore };
+};
+
+const acceptFiltered = (username: string, filter: HistoryFilter, favorites: boolean) => (record: StoredHistoryRecord) =>
+    record.username === username && !!record.isFavorite === favorites && matchesHistoryFilter(record, !!record.videoBlob, filter);
+
+/**
+ * Loads one page of a user's non-favourite history matching a filter, newest first.
+ * @param before Only entries after this one in `compareHistoryEntries` order are returned; null for the first page.
+ * @param limit The page size.
+ * @param filter Criteria the entries must match.
+ */
+export const loadHistoryPage = async (username: string, before: HistoryCursor | null, limit: number, filter: HistoryFilter = {}): Promise<HistoryPage> => {
+    const upper = Math.min(before?.createdAt ?? Infinity, filter.to ?? Infinity);
+    if (filter.from !== undefined && filter.from > upper) {
+        return { entries: [], hasMore: false };
+    }
+    // The bound is inclusive, so entries sharing the cursor's timestamp are not lost;
+    // those already returned are the ones from the cursor's id up.
+    const range = createdAtRange(filter.from, upper === Infinity ? undefined : upper);
+    const accept = acceptFiltered(username, filter, false);
+    return scanHistory(range, record => !(before && compareHistoryEntries(record, before) <= 0) && accept(record), limit);
+};
+
+/**
+ * Loads every favourite of a user matching a filter, newest first. Favourites are pinned
+ * above the paged list, so they are always loaded in full.
+ */
+export const loadFavoriteEntries = async (username: string, filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+    if (filter.from !== undefined && filter.to !== undefined && filter.from > filter.to) return [];
+    const page = await scanHistory(createdAtRange(filter.from, filter.to), acceptFiltered(username, filter, true), Infinity);
+    return page.entries;
+};
+
+/**
+ * Loads every entry of a user matching a filter, favourites included, newest first.
+ */
+export const loadAllHistoryEntries = async (username: string, filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+    if (filter.from !== undefined && filter.to !== undefined && filter.from > filter.to) return [];
+    const accept = (record: StoredHistoryRecord) => record.username === username && matchesHistoryFilter(record, !!record.videoBlob, filter);
+    const page = await scanHistory(createdAtRange(filter.from, filter.to), accept, Infinity);
+    return page.entries;
+};
+
+export const setHistoryFavorite = async (id: string, isFavorite: boolean): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    const record: StoredHistoryRecord | undefined = await requestToPromise(store.get(id));
+    if (record) {
+        store.put({ ...record, isFavorite });
+    }
+    await transactionDone(tx);
+};
+
+/**
+ * Fingerprints the result of an entry, so the same result imported twice (even under
+ * a different id) is recognised as a duplicate.
+ * @returns A hex-encoded SHA-256 digest.
+ */
+export const computeContentHash = async (entry: Omit<HistoryEntry, 'videoUrl'>, videoBlob?: Blob): Promise<string> => {
+    const fields = [entry.imageUrl, entry.secondaryImageUrl, entry.originalImageUrl, entry.text].map(value => value ?? '');
+    const parts: BlobPart[] = [JSON.stringify(fields)];
+    if (videoBlob) parts.push(videoBlob);
+    const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export interface HistoryImportResult {
+    added: number;
+    duplicates: number;
+    evicted: EvictedHistoryEntry[]; // Older entries removed to make room
+}
+
+/**
+ * Merges entries into a user's history, skipping any whose content the user already
+ * has. Entries keep their id unless it is taken by different content.
+ */
+export const importHistoryEntries = async (username: string, items: { entry: HistoryEntry; videoBlob?: Blob }[]): Promise<HistoryImportResult> => {
+    const db = await openDb();
+    const existing: StoredHistoryRecord[] = await requestToPromise(
+        db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll()
+    );
+    const knownHashes = new Set<string>();
+    const knownIds = new Set<string>();
+    for (const { videoBlob, ...record } of existing) {
+        if (record.username === username) knownHashes.add(await computeContentHash(record, videoBlob));
+        knownIds.add(record.id);
+    }
+
+    const result: HistoryImportResult = { added: 0, duplicates: 0, evicted: [] };
+    for (const { entry, videoBlob } of items) {
+        const hash = await computeContentHash(entry, videoBlob);
+        if (knownHashes.has(hash)) {
+            result.duplicates++;
+            continue;
+        }
+        const id = knownIds.has(entry.id) ? crypto.randomUUID() : entry.id;
+        result.evicted.push(...await saveHistoryEntry(username, { ...entry, id }, videoBlob));
+        knownHashes.add(hash);
+        knownIds.add(id);
+        result.added++;
+    }
+    return result;
+};
+
+/**
+ * Loads a single entry.
+ * @returns The entry, or null if it no longer exists.
+ */
+export const loadHistoryEntry = async (id: string): Promise<HistoryEntry | null> => {
+    const db = await openDb();
+    const record: StoredHistoryRecord | undefined = await requestToPromise(
+        db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).get(id)
+    );
+    return record ? toHistoryEntry(record) : null;
+};
+
+/**
+ * Deletes every entry of a user, favourites included.
+ */
+export const clearHistory = async (username: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const request = tx.objectStore(HISTORY_STORE).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if ((cursor.value as StoredHistoryRecord).username === username) cursor.delete();
+        cursor.continue();
+    };
+    await transactionDone(tx);
+};
+
+export const createHistoryEntry = (content: Omit<HistoryEntry, 'id' | 'createdAt'>): HistoryEntry => ({
+    ...content,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+});
@@ -0,0 +1,201 @@
+import type { GeneratedContent, ImageAspectRatio, ImagePart, ResponseSchema, VideoAspectRatio } from '../types';
+import type { AiProvider } from './aiProvider';
+import { abortableSleep, handleApiError, missingImageError } from './apiErrors';
+import { MOCK_IMAGE_FIXTURES } from './fixtures/images';
+import { MOCK_JSON_FIXTURES, MOCK_TEXT_FIXTURES } from './fixtures/text';
+import { MOCK_VIDEO_MP4_B64 } from './fixtures/video';
+
+/**
+ * Outcomes the mock provider can simulate. Everything except `success` reproduces
+ * a failure path of the real Gemini backend with the same user-facing message.
+ */
+export type MockScenario = 'success' | 'rateLimit' | 'serverError' | 'safety' | 'noImage';
+
+export interface MockConfig {
+    latencyMs: number;
+    scenario: MockScenario;
+}
+
+const CONFIG_STORAGE_KEY = 'mockProviderConfig';
+const DEFAULT_CONFIG: MockConfig = { latencyMs: 800, scenario: 'success' };
+const SCENARIOS: MockScenario[] = ['success', 'rateLimit', 'serverError', 'safety', 'noImage'];
+
+// A prompt containing e.g. "[mock:safety]" forces that scenario for a single call.
+const SCENARIO_DIRECTIVE = /\[mock:(\w+)\]/;
+
+export const getMockConfig = (): MockConfig => {
+    try {
+        const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+        if (saved) {
+            return { ...DEFAULT_CONFIG, ...JSON.parse(saved) };
+        }
+    } catch (e) {
+        console.error("Failed to load mock provider config from localStorage", e);
+    }
+    return DEFAULT_CONFIG;
+};
+
+export const setMockConfig = (config: Partial<MockConfig>) => {
+    try {
+        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ ...getMockConfig(), ...config }));
+    } catch (e) {
+        console.error("Failed to save mock provider config to localStorage", e);
+    }
+};
+
+const resolveScenario = (prompt: string): MockScenario => {
+    const directive = prompt.match(SCENARIO_DIRECTIVE)?.[1] as MockScenario | undefined;
+    if (directive && SCENARIOS.includes(directive)) {
+        return directive;
+    }
+    return getMockConfig().scenario;
+};
+
+const simulateLatency = (signal?: AbortSignal) => abortableSleep(getMockConfig().latencyMs, signal);
+
+/**
+ * Hashes the request so the same inputs always replay the same fixture.
+ */
+const pickIndex = (seed: string, count: number): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) % count;
+};
+
+const fixtureImageUrl = (seed: string): string => {
+    const fixture = MOCK_IMAGE_FIXTURES[pickIndex(seed, MOCK_IMAGE_FIXTURES.length)];
+    return `data:image/png;base64,${fixture.base64}`;
+};
+
+/**
+ * Throws the same error shapes the Gemini SDK and `editImage` produce, so callers
+ * exercise their real error handling.
+ */
+const throwForScenario = (scenario: MockScenario, expectsImage: boolean) => {
+    switch (scenario) {
+        case 'rateLimit':
+            throw new Error('got status: 429 . {"error":{"code":429,"message":"Resource has been exhausted (e.g. check quota).","status":"RESOURCE_EXHAUSTED"}}');
+        case 'serverError':
+            throw new Error('got status: 500 . {"error":{"code":500,"message":"Internal error encountered.","status":"UNKNOWN"}}');
+        case 'safety':
+            if (expectsImage) throw missingImageError('SAFETY', ['HARM_CATEGORY_DANGEROUS_CONTENT']);
+            throw new Error("The model did not return any text. It might have refused the request due to safety settings.");
+        case 'noImage':
+            if (expectsImage) throw missingImageError('STOP');
+            break;
+    }
+};
+
+async function editImage(
+    prompt: string,
+    imageParts: ImagePart[],
+    maskBase64: string | null,
+    _aspectRatio: ImageAspectRatio | null, // The fixtures come as they are; the caller fits them
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+    try {
+        await simulateLatency(signal);
+        throwForScenario(resolveScenario(prompt), true);
+        const seed = `${prompt}|${imageParts.length}|${maskBase64 ? 'mask' : ''}`;
+        return { imageUrl: fixtureImageUrl(seed), text: null };
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+async function generateImageFromText(
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+    try {
+        await simulateLatency(signal);
+        throwForScenario(resolveScenario(prompt), true);
+        return { imageUrl: fixtureImageUrl(`${prompt}|${aspectRatio}`), text: null };
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+// Mock operation names carry their start time, so polling works across reloads.
+const MOCK_OPERATION_PREFIX = 'mock-operations/';
+// A mock video takes this many latency periods to render.
+const MOCK_VIDEO_LATENCY_FACTOR = 5;
+
+async function startVideo(
+    prompt: string,
+    image: ImagePart | null,
+    aspectRatio: VideoAspectRatio,
+    signal?: AbortSignal
+): Promise<string> {
+    try {
+        await simulateLatency(signal);
+        throwForScenario(resolveScenario(prompt), false);
+        return `${MOCK_OPERATION_PREFIX}${Date.now()}`;
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+async function pollVideo(operationName: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+        await simulateLatency(signal);
+        const startedAt = Number(operationName.slice(MOCK_OPERATION_PREFIX.length));
+        if (!operationName.startsWith(MOCK_OPERATION_PREFIX) || !Number.isFinite(startedAt)) {
+            throw new Error(`Unknown mock operation "${operationName}".`);
+        }
+        if (Date.now() - startedAt < getMockConfig().latencyMs * MOCK_VIDEO_LATENCY_FACTOR) {
+            return null;
+        }
+        return `data:video/mp4;base64,${MOCK_VIDEO_MP4_B64}`;
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+/**
+ * The JSON fixtures that have every key the schema requires, or all of them if none do.
+ */
+const jsonFixturesFor = (schema: ResponseSchema): string[] => {
+    const required = schema.required ?? [];
+    const matching = MOCK_JSON_FIXTURES.filter(fixture => {
+        const parsed = JSON.parse(fixture);
+        return required.every(key => key in parsed);
+    });
+    return matching.length > 0 ? matching : MOCK_JSON_FIXTURES;
+};
+
+async function generateText(
+    prompt: string,
+    imageParts: ImagePart[],
+    responseSchema: ResponseSchema | null,
+    signal?: AbortSignal
+): Promise<GeneratedContent> {
+    try {
+        await simulateLatency(signal);
+        throwForScenario(resolveScenario(prompt), false);
+        const fixtures = responseSchema ? jsonFixturesFor(responseSchema) : MOCK_TEXT_FIXTURES;
+        const text = fixtures[pickIndex(`${prompt}|${imageParts.length}`, fixtures.length)];
+        return { imageUrl: null, text };
+    } catch (error) {
+        return handleApiError(error, signal);
+    }
+}
+
+export const mockProvider: AiProvider = {
+    id: 'mock',
+    models: {
+        imageEdit: 'mock-image-edit',
+        textToImage: 'mock-text-to-image',
+        video: 'mock-video',
+        text: 'mock-text',
+    },
+    editImage,
+    generateImageFromText,
+    startVideo,
+    pollVideo,
+    generateText,
+};
@@ -0,0 +1,61 @@
+import type { CustomPreset, Transformation } from '../types';
+import type { ExtraTranslations } from '../i18n/context';
+
+// Presets belong to the signed-in user, so each user has their own list in this browser.
+const storageKey = (username: string) => `customPresets:${username}`;
+
+// Preset texts are registered as translations under this key, e.g. `userPresets.<id>.title`.
+const TRANSLATION_ROOT = 'userPresets';
+
+export const loadPresets = (username: string): CustomPreset[] => {
+    try {
+        const saved = localStorage.getItem(storageKey(username));
+        const presets: unknown = saved ? JSON.parse(saved) : [];
+        return Array.isArray(presets) ? presets : [];
+    } catch (e) {
+        console.error("Failed to load presets from localStorage", e);
+        return [];
+    }
+};
+
+export const savePresets = (username: string, presets: CustomPreset[]) => {
+    try {
+        localStorage.setItem(storageKey(username), JSON.stringify(presets));
+    } catch (e) {
+        console.error("Failed to save presets to localStorage", e);
+    }
+};
+
+/**
+ * Turns a preset into an effect that runs like Custom Prompt, with the preset's prompt
+ * and aspect ratio filled in. A preset with a second image role offers a second,
+ * optional uploader titled with that role.
+ */
+export const presetToTransformation = (preset: CustomPreset): Transformation => ({
+    key: `preset_${preset.id}`,
+    presetId: preset.id,
+    titleKey: `${TRANSLATION_ROOT}.${preset.id}.title`,
+    emoji: preset.emoji,
+    prompt: 'CUSTOM',
+    descriptionKey: 'transformations.effects.customPrompt.description',
+    ...(preset.secondaryImageRole && {
+        isMultiImage: true,
+        isSecondaryOptional: true,
+        primaryUploaderTitle: 'transformations.effects.customPrompt.uploader1Title',
+        primaryUploaderDescription: 'transformations.effects.customPrompt.uploader1Desc',
+        secondaryUploaderTitle: `${TRANSLATION_ROOT}.${preset.id}.secondaryImageRole`,
+        secondaryUploaderDescription: 'transformations.effects.customPrompt.uploader2Desc',
+    }),
+});
+
+/**
+ * The preset texts to register with the translations. Users write them in one
+ * language, so every language gets the same text.
+ */
+export const presetTranslations = (presets: CustomPreset[]): ExtraTranslations => {
+    const texts = Object.fromEntries(presets.map(preset => [preset.id, {
+        title: preset.title,
+        secondaryImageRole: preset.secondaryImageRole ?? '',
+    }]));
+    return { en: { [TRANSLATION_ROOT]: texts }, vi: { [TRANSLATION_ROOT]: texts } };
+};
@@ -0,0 +1,117 @@
+import { abortableSleep, abortError, isRetryableError } from './apiErrors';
+
+/**
+ * What a scheduled request is doing right now, for progress messages.
+ * `position` counts the requests that will start before this one (1 = next in line).
+ */
+export type ScheduleProgress =
+    | { state: 'queued'; position: number }
+    | { state: 'running'; attempt: number }
+    | { state: 'retrying'; attempt: number; delayMs: number; error: Error };
+
+export interface ScheduleOptions {
+    onProgress?: (progress: ScheduleProgress) => void;
+    signal?: AbortSignal; // Aborting drops a queued request and stops further retries
+}
+
+export interface SchedulerConfig {
+    maxConcurrent: number;
+    maxRetries: number; // Retries after the first attempt; 0 disables retrying
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface RequestScheduler {
+    schedule: <T>(task: () => Promise<T>, options?: ScheduleOptions) => Promise<T>;
+}
+
+interface PendingRequest {
+    start: () => void;
+    onProgress?: (progress: ScheduleProgress) => void;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other half
+ * random, so clients that failed together do not all retry at the same moment.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/**
+ * Creates a scheduler that runs at most `maxConcurrent` requests at a time and
+ * retries transient failures (see `isRetryableError`) with exponential backoff.
+ * A request waiting to retry gives up its slot and rejoins the front of the queue.
+ */
+export const createRequestScheduler = (config: SchedulerConfig): RequestScheduler => {
+    const queue: PendingRequest[] = [];
+    let active = 0;
+
+    const reportPositions = () => {
+        queue.forEach((request, index) => request.onProgress?.({ state: 'queued', position: index + 1 }));
+    };
+
+    const drain = () => {
+        while (active < config.maxConcurrent && queue.length > 0) {
+            active++;
+            queue.shift()!.start();
+        }
+        reportPositions();
+    };
+
+    // Resolves once a slot is free; the caller must call the returned release function when done.
+    const acquire = (options: ScheduleOptions, atFront: boolean): Promise<() => void> => {
+        return new Promise((resolve, reject) => {
+            const { signal } = options;
+            if (signal?.aborted) return reject(abortError());
+            let released = false;
+            const onAbort = () => {
+                const index = queue.indexOf(request);
+                if (index < 0) return;
+                queue.splice(index, 1);
+                reportPositions();
+                reject(abortError());
+            };
+            const request: PendingRequest = {
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(() => {
+                        if (released) return;
+                        released = true;
+                        active--;
+                        drain();
+                    });
+                },
+                onProgress: options.onProgress,
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (atFront) queue.unshift(request); else queue.push(request);
+            drain();
+        });
+    };
+
+    const schedule = async <T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+            const release = await acquire(options, attempt > 1);
+            let error: unknown;
+            try {
+                options.onProgress?.({ state: 'running', attempt });
+                return await task();
+            } catch (e) {
+                error = e;
+            } finally {
+                release();
+            }
+            if (attempt > config.maxRetries || !isRetryableError(error) || options.signal?.aborted) {
+                throw error;
+            }
+            const delayMs = backoffDelay(attempt, config.baseDelayMs, config.maxDelayMs);
+            console.warn(`Request failed with a transient error, retrying in ${delayMs} ms (attempt ${attempt + 1}).`);
+            options.onProgress?.({ state: 'retrying', attempt: attempt + 1, delayMs, error: error as Error });
+            await abortableSleep(delayMs, options.signal);
+        }
+    };
+
+    return { schedule };
+};
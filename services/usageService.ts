@@ -0,0 +1,63 @@
+import type { UsageKind, UsageSnapshot } from '../types';
+import { ApiError } from './apiErrors';
+import { USAGE_KIND_LABELS, USAGE_PATH } from './apiContract';
+
+const listeners = new Set<(usage: UsageSnapshot) => void>();
+
+/**
+ * Registers a callback for whenever the server reports fresh usage figures.
+ * @returns A function that unregisters the callback.
+ */
+export const onUsageChange = (listener: (usage: UsageSnapshot) => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const publishUsage = (usage: UsageSnapshot) => {
+    listeners.forEach(listener => listener(usage));
+};
+
+/**
+ * @returns How much of a kind is left today, or Infinity when it has no limit.
+ */
+export const getRemaining = (usage: UsageSnapshot, kind: UsageKind): number => {
+    const limit = usage.limits[kind];
+    return limit === undefined ? Infinity : Math.max(0, limit - usage.used[kind]);
+};
+
+/**
+ * Fetches today's usage for the signed-in user and reports it to the listeners.
+ */
+export const fetchUsage = async (): Promise<UsageSnapshot> => {
+    const response = await fetch(USAGE_PATH);
+    const body = await response.json().catch(() => null);
+    if (!response.ok || body === null) {
+        const message = typeof body?.error?.message === 'string' ? body.error.message : `Loading usage failed with status ${response.status}.`;
+        throw new ApiError(message, { status: response.status });
+    }
+    publishUsage(body);
+    return body;
+};
+
+/**
+ * Checks up front that a burst of calls (a lookbook, a set of variations) fits in what
+ * is left of today's quota, instead of failing halfway through. The proxy still enforces
+ * the limit on every call, so this check is skipped when usage cannot be loaded.
+ * @throws An `ApiError` with status 429 when the calls would exceed the limit.
+ */
+export const ensureQuota = async (kind: UsageKind, amount: number): Promise<void> => {
+    let usage: UsageSnapshot;
+    try {
+        usage = await fetchUsage();
+    } catch (error) {
+        console.error("Failed to check usage", error);
+        return;
+    }
+    const remaining = getRemaining(usage, kind);
+    if (amount > remaining) {
+        throw new ApiError(
+            `Daily limit reached: this needs ${amount} ${USAGE_KIND_LABELS[kind]}, but only ${remaining} are left today. It resets at midnight.`,
+            { status: 429 }
+        );
+    }
+};
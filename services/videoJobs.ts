@@ -0,0 +1,206 @@
+import type { GenerationMetadata } from '../types';
+import { pollVideoJob } from './aiService';
+import { ApiError, isRetryableError } from './apiErrors';
+import { openDb, requestToPromise, transactionDone, VIDEO_JOB_STORE } from './db';
+
+export type VideoJobStatus = 'running' | 'done' | 'failed';
+
+/**
+ * A video generation that runs in the background. Jobs are persisted, so polling
+ * picks up again after a reload.
+ */
+export interface VideoJob {
+    id: string;
+    username: string; // Who started it; the proxy only answers them about the job
+    providerId: string;
+    operationName: string; // The backend's handle for the job
+    status: VideoJobStatus;
+    createdAt: number; // Epoch milliseconds
+    finishedAt?: number;
+    meta: GenerationMetadata; // `durationMs` is filled in when the job finishes
+    originalImageUrl: string | null;
+    historyEntryId?: string; // Where the finished video was saved
+    error?: string;
+}
+
+export type NewVideoJob = Pick<VideoJob, 'providerId' | 'operationName' | 'meta' | 'originalImageUrl'>;
+
+export interface VideoJobManagerOptions {
+    username: string; // Only this user's jobs are loaded and polled
+    maxWaitMs: number; // Jobs still running this long after they started are given up on
+    pollIntervalMs: number;
+    /**
+     * Saves a finished video.
+     * @returns The id of the history entry it was saved as.
+     */
+    onFinished: (job: VideoJob, videoBlob: Blob) => Promise<string>;
+    onChange: (jobs: VideoJob[]) => void;
+}
+
+export interface VideoJobManager {
+    resume: () => Promise<void>; // Loads saved jobs and polls the ones still running
+    add: (job: NewVideoJob) => void;
+    dismiss: (id: string) => void; // Forgets a job; a running one is no longer polled
+    clearFinished: () => void;
+    dispose: () => void; // Stops polling without touching the saved jobs
+}
+
+const DEFAULT_MAX_WAIT_MINUTES = 20;
+
+/**
+ * The longest a video job may run, from the `VIDEO_MAX_WAIT_MINUTES` build setting.
+ */
+export const getVideoMaxWaitMs = (): number => {
+    const minutes = Number(process.env.VIDEO_MAX_WAIT_MINUTES);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_MAX_WAIT_MINUTES) * 60 * 1000;
+};
+
+const loadVideoJobs = async (username: string): Promise<VideoJob[]> => {
+    const db = await openDb();
+    const jobs: VideoJob[] = await requestToPromise(
+        db.transaction(VIDEO_JOB_STORE, 'readonly').objectStore(VIDEO_JOB_STORE).getAll()
+    );
+    return jobs.filter(job => job.username === username).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const loadVideoJob = async (id: string): Promise<VideoJob | undefined> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(VIDEO_JOB_STORE, 'readonly').objectStore(VIDEO_JOB_STORE).get(id));
+};
+
+const putVideoJob = async (job: VideoJob) => {
+    const db = await openDb();
+    const tx = db.transaction(VIDEO_JOB_STORE, 'readwrite');
+    tx.objectStore(VIDEO_JOB_STORE).put(job);
+    await transactionDone(tx);
+};
+
+const deleteVideoJobs = async (ids: string[]) => {
+    const db = await openDb();
+    const tx = db.transaction(VIDEO_JOB_STORE, 'readwrite');
+    const store = tx.objectStore(VIDEO_JOB_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(tx);
+};
+
+/**
+ * Creates a manager that polls video jobs until they finish, fail or exceed the
+ * maximum wait. Every change is saved and reported through `onChange`, newest job first.
+ */
+export const createVideoJobManager = (options: VideoJobManagerOptions): VideoJobManager => {
+    let jobs: VideoJob[] = [];
+    let disposed = false;
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const controllers = new Map<string, AbortController>();
+
+    const notify = () => {
+        if (!disposed) options.onChange(jobs.map(job => ({ ...job })));
+    };
+
+    const persist = (job: VideoJob) => {
+        putVideoJob(job).catch(error => console.error("Failed to save video job", error));
+    };
+
+    const update = (id: string, changes: Partial<VideoJob>) => {
+        const job = jobs.find(item => item.id === id);
+        if (!job) return;
+        const updated = { ...job, ...changes };
+        jobs = jobs.map(item => item.id === id ? updated : item);
+        persist(updated);
+        notify();
+    };
+
+    const stopPolling = (id: string) => {
+        clearTimeout(timers.get(id));
+        timers.delete(id);
+        controllers.get(id)?.abort();
+        controllers.delete(id);
+    };
+
+    const finish = (job: VideoJob, changes: Partial<VideoJob>) => {
+        const finishedAt = Date.now();
+        update(job.id, { ...changes, finishedAt, meta: { ...job.meta, durationMs: finishedAt - job.createdAt } });
+    };
+
+    const poll = async (job: VideoJob) => {
+        timers.delete(job.id);
+        const controller = new AbortController();
+        controllers.set(job.id, controller);
+        const { signal } = controller;
+        try {
+            const videoUrl = await pollVideoJob(job.providerId, job.operationName, { signal });
+            if (signal.aborted) return;
+            if (videoUrl) {
+                const response = await fetch(videoUrl, { signal });
+                if (!response.ok) throw new Error(`Failed to download video file. Status: ${response.statusText}`);
+                const blob = await response.blob();
+                // Another tab may have picked up the same job and saved it already.
+                const saved = await loadVideoJob(job.id);
+                if (signal.aborted || (saved && saved.status !== 'running')) return;
+                const historyEntryId = await options.onFinished({ ...job, meta: { ...job.meta, durationMs: Date.now() - job.createdAt } }, blob);
+                finish(job, { status: 'done', historyEntryId });
+                return;
+            }
+        } catch (error) {
+            if (signal.aborted) return;
+            // Transient failures (e.g. a dropped connection) keep the job alive until the maximum wait,
+            // and so does an expired session: polling picks up again after signing back in.
+            const isSessionExpired = error instanceof ApiError && error.status === 401;
+            if (!isRetryableError(error) && !isSessionExpired) {
+                console.error("Video job failed", error);
+                finish(job, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+                return;
+            }
+        } finally {
+            if (controllers.get(job.id) === controller) controllers.delete(job.id);
+        }
+        schedule(job, options.pollIntervalMs);
+    };
+
+    const schedule = (job: VideoJob, delayMs: number) => {
+        if (disposed) return;
+        if (Date.now() - job.createdAt > options.maxWaitMs) {
+            const minutes = Math.round(options.maxWaitMs / 60000);
+            finish(job, { status: 'failed', error: `The video did not finish within ${minutes} minutes.` });
+            return;
+        }
+        timers.set(job.id, setTimeout(() => poll(job), delayMs));
+    };
+
+    return {
+        resume: async () => {
+            const saved = await loadVideoJobs(options.username);
+            if (disposed) return;
+            // Keep jobs added while the saved ones were loading.
+            const added = new Set(jobs.map(job => job.id));
+            jobs = [...jobs, ...saved.filter(job => !added.has(job.id))];
+            notify();
+            // A job may well have finished while the page was closed, so check right away.
+            saved.filter(job => job.status === 'running' && !added.has(job.id)).forEach(job => schedule(job, 0));
+        },
+        add: newJob => {
+            const job: VideoJob = { ...newJob, id: crypto.randomUUID(), username: options.username, status: 'running', createdAt: Date.now() };
+            jobs = [job, ...jobs];
+            persist(job);
+            notify();
+            schedule(job, options.pollIntervalMs);
+        },
+        dismiss: id => {
+            stopPolling(id);
+            jobs = jobs.filter(job => job.id !== id);
+            deleteVideoJobs([id]).catch(error => console.error("Failed to delete video job", error));
+            notify();
+        },
+        clearFinished: () => {
+            const finished = jobs.filter(job => job.status !== 'running').map(job => job.id);
+            jobs = jobs.filter(job => job.status === 'running');
+            deleteVideoJobs(finished).catch(error => console.error("Failed to delete video jobs", error));
+            notify();
+        },
+        dispose: () => {
+            disposed = true;
+            Array.from(timers.keys()).forEach(stopPolling);
+            Array.from(controllers.keys()).forEach(stopPolling);
+        },
+    };
+};
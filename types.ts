@@ -1,3 +1,24 @@
+export type PromptVariableType = 'text' | 'number' | 'select' | 'color';
+
+/**
+ * An input the user fills in for a `{{name}}` placeholder in a transformation's prompt.
+ */
+export interface PromptVariable {
+  name: string; // As written in the prompt, e.g. `bankName` for `{{bankName}}`
+  type: PromptVariableType;
+  labelKey: string;
+  placeholder?: string;
+  required?: boolean;
+  defaultValue?: string;
+  options?: { value: string; labelKey?: string }[]; // For `select`; without a label key the value is shown, e.g. for names
+  min?: number; // For `number`
+  max?: number; // For `number`
+  integer?: boolean; // For `number`: no decimals
+  maxLength?: number; // For `text`
+  pattern?: string; // For `text`: a regular expression the whole value must match
+  format?: 'uppercaseAscii'; // Applied when substituted, e.g. for text printed on the image
+}
+
 export interface Transformation {
   key: string;
   titleKey: string;
@@ -17,6 +38,9 @@ export interface Transformation {
   maxImages?: number;
   isMultiStepVideo?: boolean;
   videoPrompt?: string;
+  presetId?: string; // Set on effects made from the user's own presets
+  variables?: PromptVariable[];
+  usesVietQr?: boolean; // Builds a VietQR code from the bank variables and sends it as the second image
 }
 
 export interface GeneratedContent {
@@ -25,4 +49,212 @@ export interface GeneratedContent {
   secondaryImageUrl?: string | null;
   videoUrl?: string;
   originalImageUrl?: string | null; // The user's input image
-}
\ No newline at end of file
+  qrCheck?: QrCheckResult; // Set for effects that paint a QR code into the result
+}
+
+/**
+ * Whether the QR code painted into a result scans to the one that was sent: `unreadable`
+ * when no code can be decoded, `mismatch` when it decodes to something else.
+ */
+export type QrCheckResult = 'match' | 'unreadable' | 'mismatch';
+
+export type FashionItemCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'footwear' | 'accessory' | 'other';
+
+/**
+ * One garment or accessory suggested by the outfit stylist.
+ */
+export interface FashionItem {
+  name: string;
+  category: FashionItemCategory;
+  color: string;
+  styleTags: string[]; // e.g. "minimalist", "streetwear"
+  occasion: string;
+  reasoning: string; // Why it suits the person and the request
+}
+
+export interface FashionAdvice {
+  summary: string;
+  items: FashionItem[];
+}
+
+/**
+ * The stylist's answer. `advice` is null when the text did not match `FashionAdvice`,
+ * in which case the text is shown as is.
+ */
+export interface FashionAdviceResult {
+  text: string;
+  advice: FashionAdvice | null;
+}
+
+/**
+ * A ready-to-edit lookbook description written by the text model.
+ */
+export interface PromptSuggestion {
+  title: string; // A few words to tell the suggestions apart
+  prompt: string;
+}
+
+/**
+ * What the outfit stylist's moodboard is made from.
+ */
+export interface MoodboardSettings {
+  title: string;
+  keywords: string; // Comma-separated
+  colors: string[]; // `#RRGGBB`
+  referenceUrls: string[]; // Data URLs of the uploaded reference images
+}
+
+/**
+ * A moodboard's settings as kept with its history entry. The references are in the
+ * entry's `inputs.multiImageUrls`.
+ */
+export interface MoodboardMetadata extends Omit<MoodboardSettings, 'referenceUrls'> {
+  tileCount: number;
+}
+
+/**
+ * The shape a text model must give its JSON answer, in the OpenAPI subset Gemini accepts.
+ */
+export interface ResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  enum?: string[];
+}
+
+export interface ImagePart {
+  base64: string;
+  mimeType: string;
+}
+
+export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export type OutputQuality = 'standard' | 'high' | 'ultra';
+
+/**
+ * The shape and size an edited image should come back in. The aspect ratio is asked of
+ * the model and enforced locally if it was not kept.
+ */
+export interface ImageOutputOptions {
+  aspectRatio?: ImageAspectRatio;
+  upscaleTo?: OutputQuality; // Only when set, smaller images are upscaled locally to this quality's size
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+/**
+ * The images a generation was run with, by uploader slot.
+ */
+export interface GenerationInputs {
+  primaryImageUrl?: string | null;
+  secondaryImageUrl?: string | null;
+  multiImageUrls?: string[];
+  maskUrl?: string | null;
+}
+
+/**
+ * Everything needed to explain (and reproduce) how a history entry was made.
+ */
+export interface GenerationMetadata {
+  transformationKey: string;
+  prompt: string; // The prompt actually sent, after placeholder substitution
+  stepTwoPrompt?: string;
+  customPrompt?: string;
+  promptVariables?: Record<string, string>;
+  moodboard?: MoodboardMetadata; // Only on moodboards
+  inputs: GenerationInputs;
+  aspectRatio?: string;
+  provider: string;
+  model: string;
+  durationMs: number;
+}
+
+/**
+ * A generated result as kept in the persisted history.
+ */
+export interface HistoryEntry extends GeneratedContent {
+  id: string;
+  createdAt: number; // Epoch milliseconds
+  meta?: GenerationMetadata; // Absent for entries saved before metadata was recorded
+  isFavorite?: boolean;
+}
+
+export type UsageKind = 'imageEdits' | 'textToImage' | 'videoSeconds';
+
+export type UsageCounts = Record<UsageKind, number>;
+
+/**
+ * One user's usage for the current day, as reported by the API proxy.
+ */
+export interface UsageSnapshot {
+  day: string; // YYYY-MM-DD, in the server's time zone
+  used: UsageCounts;
+  limits: Partial<UsageCounts>; // A missing kind has no daily limit
+}
+
+/**
+ * Text written per language, for catalogue entries that have no translation keys.
+ */
+export interface LocalizedText {
+  en?: string;
+  vi?: string;
+}
+
+/**
+ * A prompt variable as kept in the catalogue, with its texts written per language.
+ */
+export interface CataloguePromptVariable extends Omit<PromptVariable, 'labelKey' | 'options'> {
+  label: LocalizedText;
+  options?: { value: string; label?: LocalizedText }[];
+}
+
+/**
+ * One effect (or category) in the editable catalogue. Entries are listed in display
+ * order; the effects of a category name it in `category`.
+ */
+export interface CatalogueEntry {
+  key: string;
+  emoji: string;
+  title: LocalizedText;
+  description?: LocalizedText;
+  isCategory?: boolean;
+  category?: string; // Key of the category it is listed under
+  disabled?: boolean; // Kept in the catalogue but hidden from the app
+  prompt?: string;
+  stepTwoPrompt?: string;
+  videoPrompt?: string;
+  isMultiImage?: boolean;
+  isSecondaryOptional?: boolean;
+  isTwoStep?: boolean;
+  isVideo?: boolean;
+  isMultiStepVideo?: boolean;
+  usesVietQr?: boolean;
+  maxImages?: number;
+  primaryUploaderTitle?: LocalizedText;
+  primaryUploaderDescription?: LocalizedText;
+  secondaryUploaderTitle?: LocalizedText;
+  secondaryUploaderDescription?: LocalizedText;
+  variables?: CataloguePromptVariable[];
+}
+
+export interface Catalogue {
+  entries: CatalogueEntry[];
+  updatedAt: number; // Epoch milliseconds
+  updatedBy?: string;
+}
+
+/**
+ * A Custom Prompt setup the user saved to reuse, listed under "My presets".
+ */
+export interface CustomPreset {
+  id: string;
+  title: string;
+  emoji: string;
+  prompt: string;
+  secondaryImageRole?: string; // What the optional second image is for; absent for single-image presets
+  aspectRatio: ImageAspectRatio; // Used when no image is uploaded
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+}
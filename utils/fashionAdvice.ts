@@ -0,0 +1,74 @@
+import type { FashionAdvice, FashionItem, FashionItemCategory, ResponseSchema } from '../types';
+import type { Language } from '../i18n/context';
+import { extractJsonObject, LANGUAGE_NAMES, toText } from './stylist';
+
+export const FASHION_ITEM_CATEGORIES: FashionItemCategory[] = ['top', 'bottom', 'dress', 'outerwear', 'footwear', 'accessory', 'other'];
+
+/**
+ * The JSON the stylist must answer with; `parseFashionAdvice` reads it back.
+ */
+export const FASHION_ADVICE_SCHEMA: ResponseSchema = {
+    type: 'OBJECT',
+    properties: {
+        summary: { type: 'STRING', description: "One or two sentences of overall advice." },
+        items: {
+            type: 'ARRAY',
+            description: "3 to 5 garments and 2 to 4 accessories that make one outfit.",
+            items: {
+                type: 'OBJECT',
+                properties: {
+                    name: { type: 'STRING' },
+                    category: { type: 'STRING', enum: FASHION_ITEM_CATEGORIES },
+                    color: { type: 'STRING' },
+                    styleTags: { type: 'ARRAY', items: { type: 'STRING' }, description: "1 to 3 short style words." },
+                    occasion: { type: 'STRING' },
+                    reasoning: { type: 'STRING', description: "Why it suits this person and their request." },
+                },
+                required: ['name', 'category', 'color', 'styleTags', 'occasion', 'reasoning'],
+            },
+        },
+    },
+    required: ['summary', 'items'],
+};
+
+/**
+ * The prompt for outfit advice about the person in the attached image.
+ * @param question What the user asked, e.g. the occasion; may be empty.
+ */
+export const buildFashionAdvicePrompt = (question: string, language: Language): string => {
+    const request = question.trim() || "Suggest an outfit for today that suits this person.";
+    return `You are a professional fashion stylist. Look at the person in the image and answer their request: "${request}"
+Suggest one coherent outfit. Write all texts in ${LANGUAGE_NAMES[language]}, except the categories.`;
+};
+
+const parseItem = (value: any): FashionItem[] => {
+    const name = toText(value?.name);
+    if (!name) return [];
+    return [{
+        name,
+        category: FASHION_ITEM_CATEGORIES.includes(value.category) ? value.category : 'other',
+        color: toText(value.color),
+        styleTags: Array.isArray(value.styleTags) ? value.styleTags.map(toText).filter(Boolean) : [],
+        occasion: toText(value.occasion),
+        reasoning: toText(value.reasoning),
+    }];
+};
+
+/**
+ * Reads the stylist's JSON answer, also when it comes wrapped in a code fence or with
+ * text around it. Items without a name are dropped and unknown categories become `other`.
+ * @returns The advice, or null when the answer has no usable JSON (show it as text then).
+ */
+export const parseFashionAdvice = (text: string): FashionAdvice | null => {
+    const raw = extractJsonObject(text);
+    const items = Array.isArray(raw?.items) ? raw.items.flatMap(parseItem) : [];
+    return items.length > 0 ? { summary: toText(raw.summary), items } : null;
+};
+
+/**
+ * The line an item adds to the lookbook description.
+ */
+export const describeFashionItem = (item: FashionItem): string => {
+    const details = [item.color, ...item.styleTags].filter(Boolean).join(', ');
+    return `${item.name}${details ? ` (${details})` : ''}`;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { lookbookOutputOptions, planOutputFrame } from './imageOutput';
+
+describe('planOutputFrame', () => {
+    it('leaves an image that already matches alone, and does not upscale unless asked', () => {
+        expect(planOutputFrame(1024, 1024, {})).toBeNull();
+        expect(planOutputFrame(1024, 1024, { aspectRatio: '1:1' })).toBeNull();
+    });
+
+    it('upscales to the long side of the requested quality, and no further', () => {
+        expect(planOutputFrame(1024, 1024, { upscaleTo: 'high' })).toMatchObject({ width: 2048, height: 2048 });
+        expect(planOutputFrame(896, 1152, { aspectRatio: '3:4', upscaleTo: 'ultra' })).toMatchObject({ width: 3072, height: 4096 });
+        expect(planOutputFrame(5000, 5000, { upscaleTo: 'ultra' })).toBeNull();
+        expect(planOutputFrame(1024, 1024, { upscaleTo: 'standard' })).toBeNull();
+    });
+
+    it('crops a small difference in shape from the centre', () => {
+        expect(planOutputFrame(1344, 768, { aspectRatio: '16:9' })).toMatchObject({
+            width: 1344,
+            height: 756,
+            source: { x: 0, y: 6, width: 1344, height: 756 },
+            padded: false,
+        });
+    });
+
+    it('pads instead of cropping away much of the image', () => {
+        expect(planOutputFrame(1024, 1024, { aspectRatio: '16:9' })).toMatchObject({
+            width: 1820,
+            height: 1024,
+            target: { x: 398, y: 0, width: 1024, height: 1024 },
+            padded: true,
+        });
+    });
+});
+
+describe('lookbookOutputOptions', () => {
+    it('upscales to the selected quality, and not at all for standard', () => {
+        expect(lookbookOutputOptions('3:4', 'ultra')).toEqual({ aspectRatio: '3:4', upscaleTo: 'ultra' });
+        expect(lookbookOutputOptions('16:9', 'high')).toEqual({ aspectRatio: '16:9', upscaleTo: 'high' });
+        expect(lookbookOutputOptions('1:1', 'standard')).toEqual({ aspectRatio: '1:1' });
+    });
+});
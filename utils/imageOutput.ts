@@ -0,0 +1,136 @@
+/**
+ * Brings an edited image to the requested output: the aspect ratio, for when the model
+ * did not keep it, and, if asked for, a minimum pixel size for a quality. The image model
+ * has no size setting of its own, so higher qualities are reached by upscaling locally.
+ */
+import type { ImageAspectRatio, ImageOutputOptions, OutputQuality } from '../types';
+import { loadImage } from './fileUtils';
+
+// Minimum long side per quality, and so the most an image is upscaled to. Larger images are left as they are.
+export const QUALITY_LONG_SIDE: Record<OutputQuality, number | null> = {
+    standard: null,
+    high: 2048,
+    ultra: 4096,
+};
+
+// Ratios this close count as equal, so the model's rounding is left alone.
+const RATIO_TOLERANCE = 0.01;
+// Cropping may remove at most this share of the image. Beyond that the image is padded
+// instead, so that a subject framed for another shape does not lose its head or feet.
+const MAX_CROP_LOSS = 0.2;
+// The padding is the image itself, blurred; this is the blur radius relative to the long side.
+const PAD_BLUR = 0.03;
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface OutputFrame {
+    width: number;
+    height: number;
+    source: Rect; // The part of the image that is kept
+    target: Rect; // Where that part goes on the output
+    padded: boolean;
+}
+
+export const aspectRatioValue = (aspectRatio: ImageAspectRatio): number => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w / h;
+};
+
+/**
+ * The output of a lookbook: its aspect ratio, and any quality above standard, which is
+ * reached by upscaling.
+ */
+export const lookbookOutputOptions = (aspectRatio: ImageAspectRatio, quality: OutputQuality): ImageOutputOptions => ({
+    aspectRatio,
+    ...(quality !== 'standard' && { upscaleTo: quality }),
+});
+
+/**
+ * Works out how an image of the given size is cropped, padded and scaled for the output.
+ * @returns The frame, or null when the image already matches.
+ */
+export const planOutputFrame = (width: number, height: number, output: ImageOutputOptions): OutputFrame | null => {
+    const ratio = output.aspectRatio ? aspectRatioValue(output.aspectRatio) : width / height;
+    const current = width / height;
+    let frame: OutputFrame = {
+        width,
+        height,
+        source: { x: 0, y: 0, width, height },
+        target: { x: 0, y: 0, width, height },
+        padded: false,
+    };
+    let reshaped = false;
+
+    if (Math.abs(current - ratio) / ratio > RATIO_TOLERANCE) {
+        reshaped = true;
+        const keep = current > ratio ? ratio / current : current / ratio;
+        if (1 - keep <= MAX_CROP_LOSS) {
+            const source = current > ratio
+                ? { x: (width - height * ratio) / 2, y: 0, width: height * ratio, height }
+                : { x: 0, y: (height - width / ratio) / 2, width, height: width / ratio };
+            frame = { ...frame, width: source.width, height: source.height, source, target: { x: 0, y: 0, width: source.width, height: source.height } };
+        } else {
+            const size = current > ratio ? { width, height: width / ratio } : { width: height * ratio, height };
+            frame = {
+                ...frame,
+                ...size,
+                target: { x: (size.width - width) / 2, y: (size.height - height) / 2, width, height },
+                padded: true,
+            };
+        }
+    }
+
+    const minLongSide = output.upscaleTo ? QUALITY_LONG_SIDE[output.upscaleTo] : null;
+    const longSide = Math.max(frame.width, frame.height);
+    const scale = minLongSide && longSide < minLongSide ? minLongSide / longSide : 1;
+    if (!reshaped && scale === 1) return null;
+
+    return {
+        ...frame,
+        width: Math.round(frame.width * scale),
+        height: Math.round(frame.height * scale),
+        target: {
+            x: Math.round(frame.target.x * scale),
+            y: Math.round(frame.target.y * scale),
+            width: Math.round(frame.target.width * scale),
+            height: Math.round(frame.target.height * scale),
+        },
+    };
+};
+
+/**
+ * @returns The image as a PNG data URL in the requested shape and size, or the URL
+ * unchanged when it already matches.
+ */
+export const fitImageToOutput = async (imageUrl: string, output: ImageOutputOptions): Promise<string> => {
+    const image = await loadImage(imageUrl);
+    const frame = planOutputFrame(image.naturalWidth, image.naturalHeight, output);
+    if (!frame) return imageUrl;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    if (frame.padded) {
+        // Cover the whole canvas with a blurred copy, drawn past the edges so the blur does not fade out there.
+        const blur = Math.round(Math.max(frame.width, frame.height) * PAD_BLUR);
+        const scale = Math.max(frame.width / image.naturalWidth, frame.height / image.naturalHeight);
+        const width = image.naturalWidth * scale + blur * 4;
+        const height = image.naturalHeight * scale + blur * 4;
+        ctx.filter = `blur(${blur}px)`;
+        ctx.drawImage(image, (frame.width - width) / 2, (frame.height - height) / 2, width, height);
+        ctx.filter = 'none';
+    }
+    const { source, target } = frame;
+    ctx.drawImage(image, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
+    return canvas.toDataURL('image/png');
+};
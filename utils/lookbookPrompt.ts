@@ -0,0 +1,89 @@
+import type { FashionAdviceResult, OutputQuality, PromptSuggestion, ResponseSchema } from '../types';
+import type { Language } from '../i18n/context';
+import { describeFashionItem } from './fashionAdvice';
+import { extractJsonObject, LANGUAGE_NAMES, toText, type LookbookAspectRatio } from './stylist';
+
+const FRAMING: Record<LookbookAspectRatio, string> = {
+    '3:4': "a 3:4 portrait frame, so full-body and three-quarter shots work best",
+    '1:1': "a 1:1 square frame, so keep the subject centred with some space around it",
+    '16:9': "a 16:9 landscape frame, so place the subject in a wide scene",
+};
+
+const QUALITY: Record<OutputQuality, string> = {
+    standard: "standard quality",
+    high: "high resolution, with sharp fabric detail",
+    ultra: "ultra-realistic quality, with fine detail in skin, fabric and light",
+};
+
+export const PROMPT_SUGGESTION_COUNT = 3;
+
+/**
+ * The JSON the prompt writer must answer with; `parsePromptSuggestions` reads it back.
+ */
+export const PROMPT_SUGGESTIONS_SCHEMA: ResponseSchema = {
+    type: 'OBJECT',
+    properties: {
+        suggestions: {
+            type: 'ARRAY',
+            description: `Exactly ${PROMPT_SUGGESTION_COUNT} different lookbook descriptions.`,
+            items: {
+                type: 'OBJECT',
+                properties: {
+                    title: { type: 'STRING', description: "2 to 5 words naming the idea." },
+                    prompt: { type: 'STRING', description: "The full description, 60 to 120 words." },
+                },
+                required: ['title', 'prompt'],
+            },
+        },
+    },
+    required: ['suggestions'],
+};
+
+export interface LookbookPromptContext {
+    question: string; // What was asked in Ask AI; may be empty
+    advice: FashionAdviceResult | null; // The stylist's answer, if there is one
+    draft: string; // The current lookbook description; may be empty
+    aspectRatio: LookbookAspectRatio;
+    quality: OutputQuality;
+    language: Language;
+}
+
+const describeAdvice = (advice: FashionAdviceResult): string => {
+    if (!advice.advice) return advice.text.trim();
+    const items = advice.advice.items.map(item => `- ${describeFashionItem(item)}`).join('\n');
+    return [advice.advice.summary, items].filter(Boolean).join('\n');
+};
+
+/**
+ * The prompt that asks for lookbook descriptions of the person in the attached image.
+ */
+export const buildLookbookPromptRequest = (context: LookbookPromptContext): string => {
+    const lines = [
+        `You write image prompts for a fashion lookbook. Look at the person in the image and write ${PROMPT_SUGGESTION_COUNT} different descriptions of a lookbook photo shoot featuring them.`,
+        "Each description must cover the outfit and accessories, pose, setting, lighting, camera angle and mood, so it can be used as is.",
+        `The image will be ${FRAMING[context.aspectRatio]}, in ${QUALITY[context.quality]}.`,
+    ];
+    if (context.question.trim()) lines.push(`The person asked: "${context.question.trim()}"`);
+    const advice = context.advice ? describeAdvice(context.advice) : '';
+    if (advice) lines.push(`A stylist suggested this outfit; build on it:\n${advice}`);
+    if (context.draft.trim()) lines.push(`Their own draft, to refine rather than replace:\n"${context.draft.trim()}"`);
+    lines.push(`Write all texts in ${LANGUAGE_NAMES[context.language]}.`);
+    return lines.join('\n');
+};
+
+/**
+ * Reads the prompt writer's JSON answer, also when it comes wrapped in a code fence or
+ * with text around it. Suggestions without a prompt are dropped.
+ * @returns The suggestions; an answer without usable JSON becomes a single untitled one.
+ */
+export const parsePromptSuggestions = (text: string): PromptSuggestion[] => {
+    const raw = extractJsonObject(text);
+    const suggestions: PromptSuggestion[] = Array.isArray(raw?.suggestions)
+        ? raw.suggestions
+            .map((value: any) => ({ title: toText(value?.title), prompt: toText(value?.prompt) }))
+            .filter((suggestion: PromptSuggestion) => suggestion.prompt)
+        : [];
+    if (suggestions.length > 0) return suggestions;
+    const prompt = text.trim();
+    return prompt ? [{ title: '', prompt }] : [];
+};
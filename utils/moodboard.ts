@@ -0,0 +1,141 @@
+/**
+ * Moodboards for the outfit stylist: prompts for the AI-generated tiles, and the
+ * collage that lays them out with the references, palette and keywords on a canvas.
+ */
+import type { MoodboardSettings } from '../types';
+import { loadImage } from './fileUtils';
+import type { LookbookAspectRatio } from './stylist';
+
+export const MOODBOARD_MAX_REFERENCES = 6;
+export const MOODBOARD_MAX_COLORS = 6;
+
+// One subject per tile, so the tiles complement each other instead of repeating.
+const TILE_SUBJECTS = [
+    "a full-body fashion look that captures the mood",
+    "a close-up of the fabrics, textures and materials",
+    "a location or setting with the same atmosphere",
+    "a still life of accessories and small details",
+];
+
+// Long side of the exported PNG, in pixels.
+const LONG_SIDE = 3000;
+const BACKGROUND = "#F4F1EC";
+const INK = "#2B2B2B";
+const MUTED_INK = "#7A746C";
+
+export const splitKeywords = (keywords: string): string[] => {
+    return keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+};
+
+/**
+ * @returns One prompt per AI tile, each for a different subject.
+ */
+export const buildMoodboardTilePrompts = (settings: MoodboardSettings, count: number): string[] => {
+    const keywords = splitKeywords(settings.keywords);
+    const themes = keywords.length > 0 ? ` Themes: ${keywords.join(', ')}.` : '';
+    const palette = settings.colors.length > 0 ? ` Keep to this colour palette: ${settings.colors.join(', ')}.` : '';
+    return Array.from({ length: count }, (_, index) =>
+        `Create one image for a fashion moodboard showing ${TILE_SUBJECTS[index % TILE_SUBJECTS.length]}. Take the style and mood from the reference images.${themes}${palette} Make it a single editorial photograph with no text, borders or collage.`
+    );
+};
+
+const canvasSize = (aspectRatio: LookbookAspectRatio): { width: number; height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w >= h
+        ? { width: LONG_SIDE, height: Math.round(LONG_SIDE * h / w) }
+        : { width: Math.round(LONG_SIDE * w / h), height: LONG_SIDE };
+};
+
+/**
+ * Draws an image so it fills the box, cropping the overflow from the centre.
+ */
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, w: number, h: number, radius: number) => {
+    const scale = Math.max(w / image.naturalWidth, h / image.naturalHeight);
+    const sw = w / scale;
+    const sh = h / scale;
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, radius);
+    ctx.clip();
+    ctx.drawImage(image, (image.naturalWidth - sw) / 2, (image.naturalHeight - sh) / 2, sw, sh, x, y, w, h);
+    ctx.restore();
+};
+
+/**
+ * Splits the images into rows that suit the area's shape: wide areas get more columns.
+ * @returns The number of images in each row.
+ */
+const planRows = (count: number, areaWidth: number, areaHeight: number): number[] => {
+    const columns = Math.max(1, Math.min(count, Math.round(Math.sqrt(count * areaWidth / areaHeight))));
+    const rowCount = Math.ceil(count / columns);
+    // Spread the images evenly, with any extra ones in the first rows.
+    return Array.from({ length: rowCount }, (_, row) => Math.floor(count / rowCount) + (row < count % rowCount ? 1 : 0));
+};
+
+/**
+ * Lays out a moodboard: a title and keyword line on top, the AI tiles followed by the
+ * references in rows, and the colour palette along the bottom.
+ * @param tileUrls The AI-generated tiles; they come first, so they get the top rows.
+ * @returns A PNG data URL.
+ */
+export const composeMoodboard = async (settings: MoodboardSettings, tileUrls: string[], aspectRatio: LookbookAspectRatio): Promise<string> => {
+    const images = await Promise.all([...tileUrls, ...settings.referenceUrls].map(loadImage));
+    const { width, height } = canvasSize(aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+
+    const unit = Math.min(width, height) / 100;
+    const margin = unit * 5;
+    const gutter = unit * 1.5;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    // Header
+    const keywords = splitKeywords(settings.keywords);
+    const title = settings.title.trim() || keywords[0] || 'Moodboard';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = INK;
+    ctx.font = `italic ${Math.round(unit * 6)}px Georgia, "Times New Roman", serif`;
+    ctx.fillText(title, margin, margin, width - margin * 2);
+    let top = margin + unit * 8;
+    if (keywords.length > 0) {
+        ctx.fillStyle = MUTED_INK;
+        ctx.font = `${Math.round(unit * 1.8)}px "Helvetica Neue", Arial, sans-serif`;
+        ctx.fillText(keywords.map(keyword => keyword.toUpperCase()).join('   ·   '), margin, top, width - margin * 2);
+        top += unit * 4;
+    }
+
+    // Palette
+    const swatchSize = unit * 5;
+    const paletteHeight = settings.colors.length > 0 ? swatchSize + unit * 4 : 0;
+    const bottom = height - margin - paletteHeight;
+    settings.colors.forEach((color, index) => {
+        const x = margin + index * (swatchSize + unit * 3);
+        const y = height - margin - paletteHeight + unit * 1.5;
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(x + swatchSize / 2, y + swatchSize / 2, swatchSize / 2, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = MUTED_INK;
+        ctx.font = `${Math.round(unit * 1.4)}px "Helvetica Neue", Arial, sans-serif`;
+        ctx.fillText(color.toUpperCase(), x, y + swatchSize + unit * 0.8, swatchSize + unit * 2);
+    });
+
+    // Images
+    const areaWidth = width - margin * 2;
+    const areaHeight = bottom - top;
+    const rows = planRows(images.length, areaWidth, areaHeight);
+    const rowHeight = (areaHeight - gutter * (rows.length - 1)) / rows.length;
+    let next = 0;
+    rows.forEach((count, row) => {
+        const cellWidth = (areaWidth - gutter * (count - 1)) / count;
+        for (let column = 0; column < count; column++) {
+            drawCover(ctx, images[next++], margin + column * (cellWidth + gutter), top + row * (rowHeight + gutter), cellWidth, rowHeight, unit);
+        }
+    });
+
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,90 @@
+import type { PromptVariable } from '../types';
+
+// `{{name}}`, optionally with spaces inside the braces.
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * A problem with one variable's value. `messageKey` is a translation key; `limit`
+ * is the bound that was not met, for messages like "at most 20".
+ */
+export interface PromptVariableError {
+  name: string;
+  messageKey: string;
+  limit?: number;
+}
+
+/**
+ * @returns The starting values of a form for these variables.
+ */
+export const getDefaultValues = (variables: PromptVariable[]): Record<string, string> => {
+  return Object.fromEntries(variables.map(variable => [
+    variable.name,
+    variable.defaultValue ?? (variable.type === 'select' ? variable.options?.[0]?.value ?? '' : variable.type === 'color' ? '#000000' : ''),
+  ]));
+};
+
+const validateValue = (variable: PromptVariable, raw: string | undefined): Omit<PromptVariableError, 'name'> | null => {
+  const value = (raw ?? '').trim();
+  if (!value) return variable.required ? { messageKey: 'promptVariables.error.required' } : null;
+
+  switch (variable.type) {
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return { messageKey: 'promptVariables.error.number' };
+      if (variable.integer && !Number.isInteger(number)) return { messageKey: 'promptVariables.error.integer' };
+      if (variable.min !== undefined && number < variable.min) return { messageKey: 'promptVariables.error.min', limit: variable.min };
+      if (variable.max !== undefined && number > variable.max) return { messageKey: 'promptVariables.error.max', limit: variable.max };
+      return null;
+    }
+    case 'select':
+      return variable.options?.some(option => option.value === value) ? null : { messageKey: 'promptVariables.error.option' };
+    case 'color':
+      return COLOR_PATTERN.test(value) ? null : { messageKey: 'promptVariables.error.color' };
+    case 'text':
+      if (variable.maxLength !== undefined && value.length > variable.maxLength) {
+        return { messageKey: 'promptVariables.error.maxLength', limit: variable.maxLength };
+      }
+      if (variable.pattern && !new RegExp(`^(?:${variable.pattern})$`).test(value)) return { messageKey: 'promptVariables.error.pattern' };
+      return null;
+  }
+};
+
+/**
+ * Checks the values against their variables' types, bounds and required flags.
+ * @returns One error per invalid variable; empty when everything is valid.
+ */
+export const validateVariables = (variables: PromptVariable[], values: Record<string, string>): PromptVariableError[] => {
+  return variables.flatMap(variable => {
+    const error = validateValue(variable, values[variable.name]);
+    return error ? [{ name: variable.name, ...error }] : [];
+  });
+};
+
+const toUppercaseAscii = (text: string): string => {
+  return text
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/Đ/g, "D");
+};
+
+/**
+ * Makes a value safe to put into a prompt: it stays on one line and cannot add
+ * placeholders of its own.
+ */
+const escapeValue = (value: string): string => value.replace(/\s+/g, ' ').replace(/\{\{|\}\}/g, '').trim();
+
+/**
+ * Fills the `{{name}}` placeholders of a prompt with the values of its variables.
+ * Placeholders without a declared variable are left as they are.
+ */
+export const fillPromptTemplate = (template: string, variables: PromptVariable[], values: Record<string, string>): string => {
+  const byName = new Map(variables.map(variable => [variable.name, variable]));
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const variable = byName.get(name);
+    if (!variable) return placeholder;
+    const value = escapeValue(values[name] ?? '');
+    return variable.format === 'uppercaseAscii' ? toUppercaseAscii(value) : value;
+  });
+};
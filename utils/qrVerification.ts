@@ -0,0 +1,43 @@
+/**
+ * Checks that a QR code painted into a generated image still scans to what was asked
+ * for. Decoding runs locally, so no image leaves the browser for this.
+ */
+import jsQR from 'jsqr';
+import type { QrCheckResult } from '../types';
+import { loadImage } from './fileUtils';
+
+// Including the first try. Each retry is a billed image edit.
+export const QR_MAX_ATTEMPTS = 3;
+
+// Larger images are scaled down first: decoding time grows with the pixel count.
+const MAX_DECODE_SIZE = 2048;
+
+/**
+ * @returns The text of the QR code in the image, or null when none can be read.
+ */
+export const decodeQrCode = async (imageUrl: string): Promise<string | null> => {
+    const image = await loadImage(imageUrl);
+    const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    // Painted codes are sometimes light on dark, so both polarities are tried.
+    return jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })?.data ?? null;
+};
+
+/**
+ * Compares the QR code in a generated image with the one it was given.
+ * @param inputQrUrl The QR code image sent with the request.
+ * @param resultUrl The generated image.
+ */
+export const verifyQrCode = async (inputQrUrl: string, resultUrl: string): Promise<QrCheckResult> => {
+    const [expected, actual] = await Promise.all([decodeQrCode(inputQrUrl), decodeQrCode(resultUrl)]);
+    if (actual === null) return 'unreadable';
+    return actual === expected ? 'match' : 'mismatch';
+};
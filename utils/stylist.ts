@@ -0,0 +1,36 @@
+/**
+ * What the outfit stylist's helpers share: the lookbook shapes, and reading the text
+ * model's answers.
+ */
+import type { Language } from '../i18n/context';
+
+export type LookbookAspectRatio = '3:4' | '1:1' | '16:9';
+
+export const LOOKBOOK_ASPECT_RATIOS: LookbookAspectRatio[] = ['3:4', '1:1', '16:9'];
+
+export const isLookbookAspectRatio = (value: unknown): value is LookbookAspectRatio =>
+    LOOKBOOK_ASPECT_RATIOS.includes(value as LookbookAspectRatio);
+
+// For asking the text model to answer in the user's language.
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', vi: 'Vietnamese' };
+
+/**
+ * @returns The trimmed string, or an empty one for anything that is not a string.
+ */
+export const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Finds the JSON object in a model's answer, also when it comes wrapped in a code fence
+ * or with text around it.
+ * @returns The parsed value, or null when there is no valid JSON object.
+ */
+export const extractJsonObject = (text: string): any => {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) return null;
+    try {
+        return JSON.parse(text.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+};
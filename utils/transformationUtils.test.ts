@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { Transformation } from '../types';
+import { isBatchable } from './transformationUtils';
+
+const effect = (changes: Partial<Transformation>): Transformation => ({
+    key: 'test',
+    titleKey: 'test.title',
+    emoji: '✨',
+    prompt: 'Turn the photo into a watercolour painting.',
+    ...changes,
+});
+
+describe('isBatchable', () => {
+    it('accepts a single-image effect with a fixed prompt', () => {
+        expect(isBatchable(effect({}))).toBe(true);
+    });
+
+    it('leaves out effects whose prompt is written or filled in by the user', () => {
+        expect(isBatchable(effect({ prompt: 'CUSTOM' }))).toBe(false);
+        expect(isBatchable(effect({
+            prompt: 'Add a sign reading {{text}}.',
+            variables: [{ name: 'text', type: 'text', labelKey: 'test.text' }],
+        }))).toBe(false);
+        expect(isBatchable(effect({ prompt: undefined }))).toBe(false);
+    });
+});
@@ -0,0 +1,49 @@
+import type { Transformation } from '../types';
+
+/**
+ * Finds a transformation by key, searching inside categories as well.
+ * @param transformations The top-level transformation list.
+ * @param key The transformation key to look for.
+ * @returns The matching transformation, or null if there is none.
+ */
+export const findTransformationByKey = (transformations: Transformation[], key: string): Transformation | null => {
+    for (const transformation of transformations) {
+        if (transformation.key === key) return transformation;
+        if (transformation.items) {
+            const nested = findTransformationByKey(transformation.items, key);
+            if (nested) return nested;
+        }
+    }
+    return null;
+};
+
+/**
+ * Lists the selectable transformations, replacing categories with their items.
+ * @param transformations The top-level transformation list.
+ * @returns Every transformation that is not a category, in display order.
+ */
+export const flattenTransformations = (transformations: Transformation[]): Transformation[] => {
+    return transformations.flatMap(transformation =>
+        transformation.items ? flattenTransformations(transformation.items) : [transformation]
+    );
+};
+
+// These use their own input forms in the editor, so they cannot be applied to a plain photo.
+const NON_BATCHABLE_KEYS = ['outfitStylist'];
+
+/**
+ * Tells whether a transformation can be applied on its own to a single photo,
+ * which is what batch processing does.
+ */
+export const isBatchable = (transformation: Transformation): boolean => {
+    return !!transformation.prompt
+        && transformation.prompt !== 'CUSTOM'
+        && !transformation.items
+        && !transformation.isMultiImage
+        && !transformation.maxImages
+        && !transformation.isTwoStep
+        && !transformation.isVideo
+        && !transformation.isMultiStepVideo
+        && !transformation.variables?.length
+        && !NON_BATCHABLE_KEYS.includes(transformation.key);
+};
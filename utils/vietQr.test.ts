@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { TRANSFORMATIONS } from '../constants';
+import { validateVariables } from './promptTemplate';
+import { buildVietQrPayload, crc16, findVietQrBank } from './vietQr';
+
+const variables = TRANSFORMATIONS.find(transformation => transformation.key === 'chibiQrCode')!.variables!;
+
+const values = (overrides: Record<string, string> = {}): Record<string, string> => ({
+    bankName: 'Vietcombank',
+    accountName: 'NGUYEN VAN A',
+    accountNumber: '0123456789',
+    branch: 'PGD BINH TAN',
+    amount: '50000',
+    memo: 'Coffee',
+    ...overrides,
+});
+
+const errorFor = (name: string, overrides: Record<string, string>) =>
+    validateVariables(variables, values(overrides)).find(error => error.name === name)?.messageKey;
+
+const payloadFor = (input: Record<string, string>) => buildVietQrPayload({
+    bin: findVietQrBank(input.bankName)!.bin,
+    accountNumber: input.accountNumber,
+    amount: input.amount ? Number(input.amount) : undefined,
+    memo: input.memo,
+});
+
+describe('crc16', () => {
+    it('matches the CCITT-FALSE check value', () => {
+        expect(crc16('123456789')).toBe('29B1');
+    });
+});
+
+describe('chibiQrCode variables', () => {
+    it('accepts values that make a valid payload', () => {
+        expect(validateVariables(variables, values())).toEqual([]);
+        const payload = payloadFor(values());
+        expect(payload).toContain('0010A000000727');
+        expect(payload).toContain('540550000');
+        expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+    });
+
+    it('accepts the longest account number the payload allows', () => {
+        const input = values({ accountNumber: '1234567890123456789' });
+        expect(validateVariables(variables, input)).toEqual([]);
+        expect(() => payloadFor(input)).not.toThrow();
+    });
+
+    it('rejects account numbers the payload would reject', () => {
+        expect(errorFor('accountNumber', { accountNumber: '0123 4567 89' })).toBe('promptVariables.error.pattern');
+        expect(errorFor('accountNumber', { accountNumber: '12345678901234567890' })).toBe('promptVariables.error.pattern');
+        expect(() => payloadFor(values({ accountNumber: '12345678901234567890' }))).toThrow();
+    });
+
+    it('rejects amounts with decimals, which the payload would reject', () => {
+        expect(errorFor('amount', { amount: '50000.5' })).toBe('promptVariables.error.integer');
+        expect(() => payloadFor(values({ amount: '50000.5' }))).toThrow();
+    });
+
+    it('leaves the amount out when it is empty', () => {
+        const input = values({ amount: '' });
+        expect(validateVariables(variables, input)).toEqual([]);
+        expect(payloadFor(input)).not.toContain('5405');
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * VietQR payment codes: the EMVCo merchant-presented QR format as used by the NAPAS
+ * interbank transfer network, which every Vietnamese banking app can scan.
+ */
+import QRCode from 'qrcode';
+
+export interface VietQrBank {
+    name: string; // As shown to users and printed on images
+    bin: string; // The 6-digit bank identification number used by NAPAS
+}
+
+// Banks are listed by how commonly they are used, so the usual choices come first.
+export const VIET_QR_BANKS: VietQrBank[] = [
+    { name: "Vietcombank", bin: "970436" },
+    { name: "VietinBank", bin: "970415" },
+    { name: "BIDV", bin: "970418" },
+    { name: "Agribank", bin: "970405" },
+    { name: "Techcombank", bin: "970407" },
+    { name: "MB Bank", bin: "970422" },
+    { name: "ACB", bin: "970416" },
+    { name: "VPBank", bin: "970432" },
+    { name: "TPBank", bin: "970423" },
+    { name: "Sacombank", bin: "970403" },
+    { name: "HDBank", bin: "970437" },
+    { name: "VIB", bin: "970441" },
+    { name: "SHB", bin: "970443" },
+    { name: "Eximbank", bin: "970431" },
+    { name: "MSB", bin: "970426" },
+    { name: "SeABank", bin: "970440" },
+    { name: "OCB", bin: "970448" },
+    { name: "LPBank", bin: "970449" },
+    { name: "Nam A Bank", bin: "970428" },
+    { name: "Bac A Bank", bin: "970409" },
+    { name: "ABBANK", bin: "970425" },
+    { name: "VietABank", bin: "970427" },
+    { name: "DongA Bank", bin: "970406" },
+    { name: "PVcomBank", bin: "970412" },
+    { name: "SCB", bin: "970429" },
+    { name: "Saigonbank", bin: "970400" },
+    { name: "Kienlongbank", bin: "970452" },
+    { name: "NCB", bin: "970419" },
+    { name: "PGBank", bin: "970430" },
+    { name: "BaoViet Bank", bin: "970438" },
+    { name: "Vietbank", bin: "970433" },
+    { name: "GPBank", bin: "970408" },
+    { name: "OceanBank", bin: "970414" },
+    { name: "Shinhan Bank", bin: "970424" },
+    { name: "Woori Bank", bin: "970457" },
+    { name: "UOB", bin: "970458" },
+    { name: "Public Bank", bin: "970439" },
+    { name: "CIMB", bin: "422589" },
+];
+
+export interface VietQrTransfer {
+    bin: string;
+    accountNumber: string;
+    amount?: number; // In VND; without it the payer types the amount
+    memo?: string;
+}
+
+// The identifier of NAPAS in the merchant account field, and its "transfer to account" service.
+const NAPAS_GUID = "A000000727";
+const TRANSFER_TO_ACCOUNT = "QRIBFTTA";
+const CURRENCY_VND = "704";
+const MAX_MEMO_LENGTH = 50;
+
+/**
+ * @returns The bank with this name (case and spacing ignored), or undefined.
+ */
+export const findVietQrBank = (name: string): VietQrBank | undefined => {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, '');
+    return VIET_QR_BANKS.find(bank => normalize(bank.name) === normalize(name));
+};
+
+/**
+ * One EMVCo data object: a 2-digit id, a 2-digit length and the value.
+ */
+const field = (id: string, value: string): string => {
+    if (value.length > 99) throw new Error(`The VietQR field ${id} is too long.`);
+    return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+/**
+ * CRC-16/CCITT-FALSE, the checksum EMVCo codes end with.
+ */
+export const crc16 = (text: string): string => {
+    let crc = 0xFFFF;
+    for (let i = 0; i < text.length; i++) {
+        crc ^= text.charCodeAt(i) << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/**
+ * Memos travel as plain ASCII, so Vietnamese accents are dropped rather than garbled.
+ */
+const toMemoText = (memo: string): string => {
+    return memo
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/g, "d")
+        .replace(/Đ/g, "D")
+        .replace(/[^A-Za-z0-9 .,-]/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_MEMO_LENGTH);
+};
+
+/**
+ * Builds the text of a VietQR code for a transfer to a bank account.
+ * @throws Error when the BIN, account number or amount is malformed.
+ */
+export const buildVietQrPayload = ({ bin, accountNumber, amount, memo }: VietQrTransfer): string => {
+    const account = accountNumber.replace(/\s+/g, '');
+    if (!/^\d{6}$/.test(bin)) throw new Error(`"${bin}" is not a bank BIN.`);
+    if (!/^[0-9A-Za-z]{1,19}$/.test(account)) throw new Error("The account number may only contain up to 19 letters and digits.");
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0 || amount.toString().length > 13)) {
+        throw new Error("The amount must be a whole number of VND.");
+    }
+
+    const beneficiary = field("00", bin) + field("01", account);
+    const merchantAccount = field("00", NAPAS_GUID) + field("01", beneficiary) + field("02", TRANSFER_TO_ACCOUNT);
+    const memoText = memo ? toMemoText(memo) : '';
+    const payload = [
+        field("00", "01"),
+        // 11 marks a reusable code, 12 a code for one payment of a set amount.
+        field("01", amount !== undefined ? "12" : "11"),
+        field("38", merchantAccount),
+        field("53", CURRENCY_VND),
+        amount !== undefined ? field("54", amount.toString()) : '',
+        field("58", "VN"),
+        memoText ? field("62", field("08", memoText)) : '',
+        "6304",
+    ].join('');
+    return payload + crc16(payload);
+};
+
+/**
+ * Renders a VietQR code as a PNG, with a quiet zone so it scans when placed in a picture.
+ * @returns A `data:image/png` URL.
+ */
+export const renderVietQrPng = (payload: string): Promise<string> => {
+    return QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 4, width: 512 });
+};
+
+/**
+ * Renders the VietQR code for an effect's bank variables: `bankName` (a name from
+ * `VIET_QR_BANKS`), `accountNumber` and the optional `amount` and `memo`.
+ * @throws Error when the bank is unknown or a value is malformed.
+ */
+export const createVietQrImage = async (values: Record<string, string>): Promise<string> => {
+    const bank = findVietQrBank(values.bankName ?? '');
+    if (!bank) throw new Error(`"${values.bankName ?? ''}" is not a bank that VietQR supports.`);
+    const amount = values.amount?.trim() ? Number(values.amount) : undefined;
+    return renderVietQrPng(buildVietQrPayload({ bin: bank.bin, accountNumber: values.accountNumber ?? '', amount, memo: values.memo }));
+};
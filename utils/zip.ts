@@ -0,0 +1,185 @@
+/**
+ * Minimal ZIP archive support. Archives are written uncompressed: images and videos
+ * are already compressed, so deflating them again would only cost time.
+ */
+
+export interface ZipFileInput {
+    name: string; // Path inside the archive, using forward slashes
+    data: Uint8Array | string; // Strings are encoded as UTF-8
+    lastModified?: number; // Epoch milliseconds, defaults to now
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Converts a timestamp to the MS-DOS time and date fields used by ZIP headers.
+ * DOS dates cannot represent anything before 1980, so earlier times are clamped.
+ */
+const toDosDateTime = (timestamp: number): { time: number; date: number } => {
+    const d = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+    return {
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+        date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    };
+};
+
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Builds a ZIP archive from a list of files.
+ * @param files The files to include, in order.
+ * @returns A Blob with the `application/zip` MIME type.
+ */
+export const createZip = (files: ZipFileInput[]): Blob => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+        const crc = crc32(data);
+        const { time, date } = toDosDateTime(file.lastModified ?? Date.now());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true); // Local file header signature
+        local.setUint16(4, 20, true); // Version needed to extract
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // Method: store
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true); // Compressed size
+        local.setUint32(22, data.length, true); // Uncompressed size
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // Extra field length
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014B50, true); // Central directory header signature
+        central.setUint16(4, 20, true); // Version made by
+        central.setUint16(6, 20, true); // Version needed to extract
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        // Extra field, comment, disk number, internal and external attributes stay zero.
+        central.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), name, data);
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, chunk) => sum + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true); // End of central directory signature
+    end.setUint16(8, files.length, true); // Entries on this disk
+    end.setUint16(10, files.length, true); // Total entries
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads a ZIP archive. Supports stored and deflated entries, which covers archives
+ * written by `createZip` as well as by common desktop tools.
+ * @param buffer The raw archive bytes.
+ * @returns The file contents keyed by path. Directory entries are omitted.
+ * @throws If the data is not a readable ZIP archive or a file fails its checksum.
+ */
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    // The end of central directory record sits at the end, followed by an optional comment of up to 64 KiB.
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xFFFF); i--) {
+        if (view.getUint32(i, true) === 0x06054B50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error("The file is not a ZIP archive.");
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let offset = view.getUint32(endOffset + 16, true);
+    if (entryCount === 0xFFFF || offset === 0xFFFFFFFF) {
+        throw new Error("ZIP64 archives are not supported.");
+    }
+
+    const files = new Map<string, Uint8Array>();
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > buffer.byteLength || view.getUint32(offset, true) !== 0x02014B50) {
+            throw new Error("The ZIP archive is corrupt (bad central directory).");
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const crc = view.getUint32(offset + 16, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (flags & 0x1) {
+            throw new Error(`"${name}" is encrypted, which is not supported.`);
+        }
+        if (localOffset + 30 > buffer.byteLength || view.getUint32(localOffset, true) !== 0x04034B50) {
+            throw new Error(`The ZIP archive is corrupt (bad header for "${name}").`);
+        }
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        if (dataStart + compressedSize > buffer.byteLength) {
+            throw new Error(`The ZIP archive is truncated ("${name}" is incomplete).`);
+        }
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        let data: Uint8Array;
+        if (method === 0) {
+            data = raw;
+        } else if (method === 8) {
+            data = await inflateRaw(raw);
+        } else {
+            throw new Error(`"${name}" uses an unsupported compression method (${method}).`);
+        }
+        if (crc32(data) !== crc) {
+            throw new Error(`"${name}" failed its checksum; the archive is corrupt.`);
+        }
+        files.set(name, data);
+    }
+    return files;
+};